@@ -0,0 +1,349 @@
+import React, { useState, useCallback } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../../theme/colors';
+import { globalStyles } from '../../theme/styles';
+import {
+  ArrangementBlock,
+  PATTERN_BANKS,
+  SLOTS_PER_BANK,
+  getPatternLabel
+} from '../../services/audioEngine/patternBank';
+import * as Haptics from 'expo-haptics';
+
+// --- Define Interfaces ---
+interface ArrangementTimelineProps {
+  currentPattern: number;
+  queuedPattern: number | null;
+  filledPatterns: boolean[]; // Which of the 64 slots hold a pattern
+  arrangement: ArrangementBlock[];
+  songBlock: number; // Block currently playing, -1 when the song is not playing
+  songMode: boolean;
+  onQueuePattern: (patternIndex: number) => void;
+  onArrangementChange: (blocks: ArrangementBlock[]) => void;
+  onSongModeChange: (enabled: boolean) => void;
+}
+// --- End Interfaces ---
+
+const MAX_REPEATS = 16;
+
+const ArrangementTimeline = ({
+  currentPattern,
+  queuedPattern,
+  filledPatterns,
+  arrangement,
+  songBlock,
+  songMode,
+  onQueuePattern,
+  onArrangementChange,
+  onSongModeChange
+}: ArrangementTimelineProps) => {
+  // Bank shown in the slot grid
+  const [selectedBank, setSelectedBank] = useState(Math.floor(currentPattern / SLOTS_PER_BANK));
+
+  // Queue a slot from the grid
+  const handleSlotPress = useCallback((patternIndex: number) => {
+    Haptics.selectionAsync();
+    onQueuePattern(patternIndex);
+  }, [onQueuePattern]);
+
+  // Append the current pattern to the song
+  const handleAddBlock = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onArrangementChange([
+      ...arrangement,
+      { id: `block_${Date.now()}`, patternIndex: currentPattern, repeats: 1 }
+    ]);
+  }, [arrangement, currentPattern, onArrangementChange]);
+
+  // Remove a block from the song
+  const handleRemoveBlock = useCallback((blockId: string) => {
+    onArrangementChange(arrangement.filter(block => block.id !== blockId));
+  }, [arrangement, onArrangementChange]);
+
+  // Change how many times a block repeats
+  const handleRepeatChange = useCallback((blockId: string, delta: number) => {
+    onArrangementChange(arrangement.map(block => {
+      if (block.id !== blockId) return block;
+      const repeats = Math.max(1, Math.min(MAX_REPEATS, block.repeats + delta));
+      return { ...block, repeats };
+    }));
+  }, [arrangement, onArrangementChange]);
+
+  // Render the 16 slots of the selected bank
+  const renderSlotGrid = () => {
+    return (
+      <View style={styles.slotGrid}>
+        {Array.from({ length: SLOTS_PER_BANK }).map((_, slot) => {
+          const patternIndex = selectedBank * SLOTS_PER_BANK + slot;
+          const isCurrent = patternIndex === currentPattern;
+          const isQueued = patternIndex === queuedPattern;
+          const isFilled = filledPatterns[patternIndex];
+
+          return (
+            <TouchableOpacity
+              key={patternIndex}
+              style={[
+                styles.slotButton,
+                isFilled && styles.slotFilled,
+                isQueued && styles.slotQueued,
+                isCurrent && styles.slotCurrent
+              ]}
+              onPress={() => handleSlotPress(patternIndex)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.slotText, (isCurrent || isQueued) && styles.slotTextActive]}>
+                {slot + 1}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  // Render the song block list
+  const renderArrangement = () => {
+    if (arrangement.length === 0) {
+      return (
+        <Text style={styles.emptyText}>Add patterns to build a song</Text>
+      );
+    }
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.blockList}
+      >
+        {arrangement.map((block, index) => (
+          <View
+            key={block.id}
+            style={[styles.block, index === songBlock && styles.blockActive]}
+          >
+            <View style={styles.blockHeader}>
+              <Text style={styles.blockLabel}>{getPatternLabel(block.patternIndex)}</Text>
+              <TouchableOpacity onPress={() => handleRemoveBlock(block.id)}>
+                <Ionicons name="close" size={14} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.repeatControls}>
+              <TouchableOpacity
+                style={styles.repeatButton}
+                onPress={() => handleRepeatChange(block.id, -1)}
+              >
+                <Ionicons name="remove" size={12} color={colors.textSecondary} />
+              </TouchableOpacity>
+              <Text style={styles.repeatText}>×{block.repeats}</Text>
+              <TouchableOpacity
+                style={styles.repeatButton}
+                onPress={() => handleRepeatChange(block.id, 1)}
+              >
+                <Ionicons name="add" size={12} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Patterns</Text>
+
+        <View style={styles.bankTabs}>
+          {PATTERN_BANKS.map((bank, bankIndex) => (
+            <TouchableOpacity
+              key={bank}
+              style={[styles.bankTab, bankIndex === selectedBank && styles.bankTabActive]}
+              onPress={() => setSelectedBank(bankIndex)}
+            >
+              <Text style={[styles.bankTabText, bankIndex === selectedBank && styles.slotTextActive]}>
+                {bank}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {renderSlotGrid()}
+
+      <View style={styles.header}>
+        <Text style={styles.title}>Song</Text>
+
+        <View style={styles.headerControls}>
+          <TouchableOpacity
+            style={[styles.songModeButton, songMode && styles.songModeActive]}
+            onPress={() => onSongModeChange(!songMode)}
+          >
+            <Text style={[styles.songModeText, songMode && styles.slotTextActive]}>
+              {songMode ? 'Song' : 'Pattern'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.addButton} onPress={handleAddBlock}>
+            <Ionicons name="add" size={16} color={colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {renderArrangement()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.cardBorder,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  headerControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bankTabs: {
+    flexDirection: 'row',
+  },
+  bankTab: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginLeft: 4,
+    backgroundColor: colors.cardBackgroundAlt,
+  },
+  bankTabActive: {
+    backgroundColor: colors.primary,
+  },
+  bankTabText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  slotButton: {
+    width: 30,
+    height: 30,
+    margin: 2,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    backgroundColor: colors.inactiveStep,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  slotFilled: {
+    backgroundColor: colors.cardBackgroundAlt,
+    borderColor: colors.textMuted,
+  },
+  slotQueued: {
+    borderColor: colors.warning,
+    borderWidth: 2,
+  },
+  slotCurrent: {
+    backgroundColor: colors.activeStep,
+    borderColor: colors.activeStep,
+  },
+  slotText: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+    fontSize: 10,
+  },
+  slotTextActive: {
+    color: colors.textPrimary,
+  },
+  songModeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: colors.cardBackgroundAlt,
+    marginRight: 8,
+  },
+  songModeActive: {
+    backgroundColor: colors.primary,
+  },
+  songModeText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  addButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+  },
+  blockList: {
+    flexDirection: 'row',
+    paddingRight: 16,
+  },
+  block: {
+    width: 72,
+    padding: 6,
+    marginRight: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    backgroundColor: colors.cardBackgroundAlt,
+  },
+  blockActive: {
+    borderColor: colors.neonBlue,
+    backgroundColor: colors.white10,
+  },
+  blockHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  blockLabel: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  repeatControls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  repeatButton: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  repeatText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontSize: 10,
+  },
+});
+
+export default ArrangementTimeline;
@@ -17,12 +17,16 @@ interface AudioInteractionLayerProps {
   isActive: boolean;
   onParameterChange?: (parameter: string, value: number) => void;
   onTriggerSample?: (x: number, y: number) => void;
+  onRecordHit?: (velocity: number) => void; // Tap velocity for live recording (top is loudest)
+  onCrossfade?: (position: number) => void; // Dragging left to right morphs from scene A to scene B
 }
 
 const AudioInteractionLayer = ({
   isActive,
   onParameterChange,
-  onTriggerSample
+  onTriggerSample,
+  onRecordHit,
+  onCrossfade
 }: AudioInteractionLayerProps) => {
   // Animation values
   const clock = useClockValue();
@@ -159,6 +163,12 @@ const AudioInteractionLayer = ({
         runOnJS(onTriggerSample)(e.x, e.y);
       }
       
+      // Record the tap into the current track
+      if (onRecordHit) {
+        const velocity = Math.max(0.1, Math.min(1, 1 - e.y / INTERACTION_HEIGHT));
+        runOnJS(onRecordHit)(velocity);
+      }
+      
       // Create pulse effect
       animatedAmplitude.value = withSequence(
         withTiming(1, { duration: 100 }),
@@ -174,10 +184,16 @@ const AudioInteractionLayer = ({
   
   // Update parameters based on touch position
   const updateParameters = (x: number, y: number) => {
+    const normalizedX = Math.max(0, Math.min(1, x / width));
+    
+    // X position moves the scene crossfader
+    if (onCrossfade) {
+      onCrossfade(normalizedX);
+    }
+    
     if (!onParameterChange) return;
     
     // X position controls frequency
-    const normalizedX = Math.max(0, Math.min(1, x / width));
     const frequencyValue = 1 + normalizedX * 10; // Range: 1-11
     animatedFrequency.value = withTiming(frequencyValue, { duration: 100 });
     onParameterChange('frequency', normalizedX);
@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { StyleSheet, View, Text, TouchableOpacity, Dimensions, Animated, ScrollView, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
@@ -6,6 +6,24 @@ import { colors, gradients } from '../../theme/colors';
 import { globalStyles } from '../../theme/styles';
 import { Track, Step, ParameterLock } from '../../services/audioEngine/enhancedAudioEngine';
 import * as Haptics from 'expo-haptics';
+import ArrangementTimeline from './ArrangementTimeline';
+import StepInspector from './StepInspector';
+import RecordPads from './RecordPads';
+import RhythmGenerator from './RhythmGenerator';
+import SidechainCurve from './SidechainCurve';
+import { formatTrigCondition } from '../../services/audioEngine/trigConditions';
+import { getRetrigOffsets } from '../../services/audioEngine/retrig';
+import { RhythmFill } from '../../services/audioEngine/rhythm';
+import { formatNote } from '../../services/audioEngine/notes';
+import { MusicalKey, isNoteInKey, formatKey } from '../../services/audioEngine/scales';
+import {
+  TimeSignature,
+  DEFAULT_TIME_SIGNATURE,
+  TIME_SIGNATURES,
+  getStepsPerBar,
+  getBeatSteps,
+  formatTimeSignature
+} from '../../services/audioEngine/timeSignature';
 
 const { width } = Dimensions.get('window');
 
@@ -13,24 +31,50 @@ const { width } = Dimensions.get('window');
 interface EnhancedBeatVisualizerProps {
   tracks: Track[];
   currentStep: number | null;
+  trackSteps?: { [trackId: string]: number }; // Per-track playhead for polymetric tracks
   isEditing: boolean;
-  totalSteps: number; // 16, 32, or 64
+  totalSteps: number; // Pattern length, 1-64
+  timeSignature?: TimeSignature; // Meter for bar and beat gridlines, 4/4 when missing
+  musicalKey?: MusicalKey | null; // Project key, notes outside it are marked
   onStepToggle: (trackId: string, stepIndex: number) => void;
   onStepEdit: (trackId: string, stepIndex: number, step: Partial<Step>) => void;
   onTrackMute: (trackId: string) => void;
   onTrackSolo: (trackId: string) => void;
+  onTimeSignatureChange?: (timeSignature: TimeSignature) => void; // Tapping the badge cycles meters
+  patternControls?: React.ComponentProps<typeof ArrangementTimeline>; // Pattern bank and song timeline
+  recordControls?: React.ComponentProps<typeof RecordPads>; // Live recording pads
+  historyControls?: HistoryControls; // Undo/redo buttons shown while editing
+  onRhythmApply?: (trackId: string, fill: RhythmFill) => void; // Fill a track from a rhythm generator
+  sidechainHistory?: { [trackId: string]: number[] }; // Recent ducking (dB) of sidechained tracks, oldest first
+}
+
+interface HistoryControls {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onUndoSession?: () => void; // Long press on undo reverts the whole editing session
 }
 // --- End Interfaces ---
 
 const EnhancedBeatVisualizer = ({
   tracks,
   currentStep,
+  trackSteps,
   isEditing,
   totalSteps,
+  timeSignature = DEFAULT_TIME_SIGNATURE,
+  musicalKey,
   onStepToggle,
   onStepEdit,
   onTrackMute,
-  onTrackSolo
+  onTrackSolo,
+  onTimeSignatureChange,
+  patternControls,
+  recordControls,
+  historyControls,
+  onRhythmApply,
+  sidechainHistory
 }: EnhancedBeatVisualizerProps) => {
   // State for visible step range (for scrolling)
   const [visibleStepRange, setVisibleStepRange] = useState({ start: 0, end: Math.min(16, totalSteps) });
@@ -39,16 +83,28 @@ const EnhancedBeatVisualizer = ({
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.95)).current;
   
+  // Step shown in the step inspector
+  const [inspectedStep, setInspectedStep] = useState<{ trackId: string; stepIndex: number } | null>(null);
+  
+  // Track shown in the rhythm generator
+  const [rhythmTrackId, setRhythmTrackId] = useState<string | null>(null);
+  
   // Scroll ref
   const scrollViewRef = useRef<ScrollView>(null);
   
+  // Bar and beat gridlines follow the time signature
+  const stepsPerBar = getStepsPerBar(timeSignature);
+  const beatSteps = useMemo(() => getBeatSteps(timeSignature), [timeSignature]);
+  const isBarStep = (index: number) => index % stepsPerBar === 0;
+  const isBeatStep = (index: number) => beatSteps.includes(index % stepsPerBar);
+  
   // Memoized step animations
   const stepAnimations = useRef<{[key: string]: Animated.Value}>({}).current;
   
   // Initialize step animations
   useEffect(() => {
     tracks.forEach(track => {
-      for (let i = 0; i < totalSteps; i++) {
+      for (let i = 0; i < track.steps.length; i++) {
         const key = `${track.id}_${i}`;
         if (!stepAnimations[key]) {
           stepAnimations[key] = new Animated.Value(track.steps[i]?.active ? 1 : 0);
@@ -75,8 +131,11 @@ const EnhancedBeatVisualizer = ({
   // Update step animations when tracks change
   useEffect(() => {
     tracks.forEach(track => {
-      for (let i = 0; i < totalSteps; i++) {
+      for (let i = 0; i < track.steps.length; i++) {
         const key = `${track.id}_${i}`;
+        if (!stepAnimations[key]) {
+          stepAnimations[key] = new Animated.Value(track.steps[i]?.active ? 1 : 0);
+        }
         const targetValue = track.steps[i]?.active ? 1 : 0;
         
         if (stepAnimations[key]) {
@@ -154,18 +213,14 @@ const EnhancedBeatVisualizer = ({
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
     
-    // TODO: Show step edit modal
-    console.log(`Long press on step ${stepIndex} of track ${trackId}`);
-    
-    // For now, just toggle probability between 1.0 and 0.5
-    const track = tracks.find(t => t.id === trackId);
-    if (track) {
-      const currentProb = track.steps[stepIndex].probability;
-      onStepEdit(trackId, stepIndex, { 
-        probability: currentProb === 1.0 ? 0.5 : 1.0 
-      });
-    }
-  }, [isEditing, tracks, onStepEdit]);
+    setInspectedStep({ trackId, stepIndex });
+  }, [isEditing]);
+  
+  // Forward edits from the step inspector
+  const handleInspectorEdit = useCallback((step: Partial<Step>) => {
+    if (!inspectedStep) return;
+    onStepEdit(inspectedStep.trackId, inspectedStep.stepIndex, step);
+  }, [inspectedStep, onStepEdit]);
   
   // Handle track mute/solo
   const handleTrackMute = useCallback((trackId: string) => {
@@ -188,10 +243,32 @@ const EnhancedBeatVisualizer = ({
   
   // Render track row
   const renderTrackRow = useCallback((track: Track) => {
+    const trackLength = track.steps.length;
+    const multiplier = track.clockMultiplier ?? 1;
+    const isPolymetric = trackLength !== totalSteps || multiplier !== 1;
+    
+    // Polymetric tracks have their own playhead
+    const trackCurrentStep = currentStep === null
+      ? null
+      : (trackSteps?.[track.id] ?? currentStep % Math.max(1, trackLength));
+    
     return (
       <View key={track.id} style={styles.trackRow}>
         <View style={styles.trackLabelContainer}>
           <Text style={styles.trackLabel}>{track.name}</Text>
+          {isPolymetric && (
+            <Text style={styles.trackMeterText}>
+              {trackLength}{multiplier !== 1 ? ` ×${multiplier}` : ''}
+            </Text>
+          )}
+          {!!track.transpose && (
+            <Text style={styles.trackMeterText}>
+              {track.transpose > 0 ? '+' : ''}{track.transpose} st
+            </Text>
+          )}
+          {track.effects.sidechain && sidechainHistory?.[track.id] && (
+            <SidechainCurve history={sidechainHistory[track.id]} color={getTrackColor(track.effects.sidechain.source)} />
+          )}
           
           <View style={styles.trackControls}>
             <TouchableOpacity
@@ -207,6 +284,15 @@ const EnhancedBeatVisualizer = ({
             >
               <Text style={[styles.trackControlText, track.solo && styles.trackControlTextActive]}>S</Text>
             </TouchableOpacity>
+            
+            {isEditing && onRhythmApply && (
+              <TouchableOpacity
+                style={styles.trackControlButton}
+                onPress={() => setRhythmTrackId(track.id)}
+              >
+                <Ionicons name="apps" size={12} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
         
@@ -230,11 +316,11 @@ const EnhancedBeatVisualizer = ({
           }}
           scrollEventThrottle={16}
         >
-          {Array.from({ length: totalSteps }).map((_, index) => {
+          {Array.from({ length: trackLength }).map((_, index) => {
             const key = `${track.id}_${index}`;
             const step = track.steps[index] || { active: false, velocity: 1.0, probability: 1.0, parameterLocks: [], microTiming: 0 };
             const isActive = step.active;
-            const isCurrentStep = currentStep === index;
+            const isCurrentStep = trackCurrentStep === index;
             const animationValue = stepAnimations[key];
             
             // Calculate color based on velocity and probability
@@ -291,15 +377,25 @@ const EnhancedBeatVisualizer = ({
             // Show micro-timing indicator
             const hasMicroTiming = step.microTiming !== 0;
             
+            // Ratchet subdivisions (the first hit is the step itself)
+            const retrigOffsets = isActive ? getRetrigOffsets(step).slice(1) : [];
+            
+            // Show trig condition label
+            const conditionLabel = isActive && step.condition ? formatTrigCondition(step.condition) : null;
+            
+            // Show the note of melodic steps, marked when it falls outside the key
+            const noteLabel = isActive && step.note !== undefined ? formatNote(step.note) : null;
+            const isOutOfKey = step.note !== undefined && !!musicalKey && !isNoteInKey(step.note, musicalKey);
+            
             return (
               <TouchableOpacity
                 key={index}
                 style={[
                   styles.step,
                   isEditing && styles.editableStep,
-                  // Highlight every 4th step
-                  index % 16 === 0 && styles.mainBeatStep,
-                  index % 4 === 0 && styles.quarterBeatStep
+                  // Highlight bars and beats
+                  isBarStep(index) && styles.mainBeatStep,
+                  isBeatStep(index) && styles.quarterBeatStep
                 ]}
                 onPress={() => handleStepToggle(track.id, index)}
                 onLongPress={() => handleStepLongPress(track.id, index)}
@@ -334,6 +430,21 @@ const EnhancedBeatVisualizer = ({
                       step.microTiming > 0 ? styles.microTimingLate : styles.microTimingEarly
                     ]} />
                   )}
+                  
+                  {retrigOffsets.map(offset => (
+                    <View
+                      key={offset}
+                      style={[styles.retrigDivider, { left: `${offset * 100}%` }]}
+                    />
+                  ))}
+                  
+                  {conditionLabel && (
+                    <Text style={styles.conditionLabel}>{conditionLabel}</Text>
+                  )}
+                  
+                  {!conditionLabel && noteLabel && (
+                    <Text style={[styles.conditionLabel, isOutOfKey && styles.outOfKeyLabel]}>{noteLabel}</Text>
+                  )}
                 </Animated.View>
               </TouchableOpacity>
             );
@@ -341,7 +452,7 @@ const EnhancedBeatVisualizer = ({
         </ScrollView>
       </View>
     );
-  }, [currentStep, isEditing, handleStepToggle, handleStepLongPress, stepAnimations, currentStepAnim, totalSteps, visibleStepRange]);
+  }, [currentStep, trackSteps, isEditing, handleStepToggle, handleStepLongPress, stepAnimations, currentStepAnim, totalSteps, visibleStepRange, stepsPerBar, beatSteps, onRhythmApply, musicalKey, sidechainHistory]);
   
   // Get color based on track type
   const getTrackColor = (trackId: string): string => {
@@ -358,7 +469,18 @@ const EnhancedBeatVisualizer = ({
     return colors.activeStep;
   };
   
-  // Render beat markers (1, 5, 9, 13, etc.)
+  const inspectedTrack = inspectedStep ? tracks.find(t => t.id === inspectedStep.trackId) : undefined;
+  
+  // Switch to the next common time signature
+  const handleTimeSignaturePress = useCallback(() => {
+    if (!onTimeSignatureChange) return;
+    
+    const label = formatTimeSignature(timeSignature);
+    const index = TIME_SIGNATURES.findIndex(signature => formatTimeSignature(signature) === label);
+    onTimeSignatureChange(TIME_SIGNATURES[(index + 1) % TIME_SIGNATURES.length]);
+  }, [timeSignature, onTimeSignatureChange]);
+  
+  // Render bar numbers and beat markers
   const renderBeatMarkers = useCallback(() => {
     return (
       <View style={styles.beatMarkersContainer}>
@@ -376,15 +498,15 @@ const EnhancedBeatVisualizer = ({
               key={index} 
               style={[
                 styles.beatMarkerStep,
-                // Highlight every 4th step
-                index % 16 === 0 && styles.mainBeatMarker,
-                index % 4 === 0 && styles.quarterBeatMarker
+                // Highlight bars and beats
+                isBarStep(index) && styles.mainBeatMarker,
+                isBeatStep(index) && styles.quarterBeatMarker
               ]}
             >
-              {(index % 16 === 0) && (
-                <Text style={styles.beatMarkerText}>{index + 1}</Text>
+              {isBarStep(index) && (
+                <Text style={styles.beatMarkerText}>{index / stepsPerBar + 1}</Text>
               )}
-              {(index % 4 === 0 && index % 16 !== 0) && (
+              {(isBeatStep(index) && !isBarStep(index)) && (
                 <View style={styles.beatMarkerDot} />
               )}
             </View>
@@ -392,7 +514,7 @@ const EnhancedBeatVisualizer = ({
         </ScrollView>
       </View>
     );
-  }, [totalSteps]);
+  }, [totalSteps, stepsPerBar, beatSteps]);
   
   return (
     <Animated.View 
@@ -410,6 +532,34 @@ const EnhancedBeatVisualizer = ({
         </Text>
         
         <View style={styles.headerControls}>
+          {isEditing && historyControls && (
+            <View style={styles.historyControls}>
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={historyControls.onUndo}
+                onLongPress={historyControls.onUndoSession}
+                disabled={!historyControls.canUndo}
+              >
+                <Ionicons
+                  name="arrow-undo"
+                  size={16}
+                  color={historyControls.canUndo ? colors.textPrimary : colors.textMuted}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={historyControls.onRedo}
+                disabled={!historyControls.canRedo}
+              >
+                <Ionicons
+                  name="arrow-redo"
+                  size={16}
+                  color={historyControls.canRedo ? colors.textPrimary : colors.textMuted}
+                />
+              </TouchableOpacity>
+            </View>
+          )}
+          
           {isEditing && (
             <View style={styles.editingBadge}>
               <LinearGradient
@@ -422,9 +572,15 @@ const EnhancedBeatVisualizer = ({
             </View>
           )}
           
-          <View style={styles.stepCountBadge}>
-            <Text style={styles.stepCountText}>{totalSteps} Steps</Text>
-          </View>
+          <TouchableOpacity
+            style={styles.stepCountBadge}
+            onPress={handleTimeSignaturePress}
+            disabled={!onTimeSignatureChange}
+          >
+            <Text style={styles.stepCountText}>
+              {formatTimeSignature(timeSignature)}{musicalKey ? ` · ${formatKey(musicalKey)}` : ''} · {totalSteps} Steps
+            </Text>
+          </TouchableOpacity>
         </View>
       </View>
       
@@ -434,6 +590,32 @@ const EnhancedBeatVisualizer = ({
         {tracks.map(track => renderTrackRow(track))}
       </View>
       
+      {patternControls && <ArrangementTimeline {...patternControls} />}
+      
+      {recordControls && <RecordPads {...recordControls} />}
+      
+      <StepInspector
+        visible={inspectedStep !== null}
+        trackName={inspectedTrack?.name ?? ''}
+        stepIndex={inspectedStep?.stepIndex ?? 0}
+        step={inspectedTrack?.steps[inspectedStep?.stepIndex ?? 0] ?? null}
+        musicalKey={musicalKey}
+        onStepEdit={handleInspectorEdit}
+        onClose={() => setInspectedStep(null)}
+      />
+      
+      {onRhythmApply && (
+        <RhythmGenerator
+          visible={rhythmTrackId !== null}
+          track={tracks.find(t => t.id === rhythmTrackId) ?? null}
+          onApply={fill => {
+            if (rhythmTrackId) onRhythmApply(rhythmTrackId, fill);
+            setRhythmTrackId(null);
+          }}
+          onClose={() => setRhythmTrackId(null)}
+        />
+      )}
+      
       <View style={styles.legendContainer}>
         <View style={styles.legendItem}>
           <View style={styles.legendDot} />
@@ -482,6 +664,19 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  historyControls: {
+    flexDirection: 'row',
+    marginRight: 8,
+  },
+  historyButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 4,
+  },
   editingBadge: {
     paddingHorizontal: 12,
     paddingVertical: 4,
@@ -525,6 +720,11 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     fontWeight: '500',
   },
+  trackMeterText: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+    fontSize: 9,
+  },
   trackControls: {
     flexDirection: 'row',
     marginTop: 4,
@@ -633,6 +833,22 @@ const styles = StyleSheet.create({
     borderRadius: 0,
     backgroundColor: colors.white,
   },
+  retrigDivider: {
+    position: 'absolute',
+    top: 3,
+    bottom: 3,
+    width: 1,
+    backgroundColor: colors.white50,
+  },
+  conditionLabel: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontSize: 7,
+    fontWeight: '700',
+  },
+  outOfKeyLabel: {
+    color: colors.warning,
+  },
   microTimingLate: {
     right: 2,
     borderTopLeftRadius: 3,
@@ -7,6 +7,11 @@ import { colors, gradients } from '../../theme/colors';
 import { globalStyles } from '../../theme/styles';
 import * as Haptics from 'expo-haptics';
 import { MasterEffects, TrackEffects } from '../../services/audioEngine/enhancedAudioEngine';
+import { LoopRegion, MetronomeSettings, MAX_COUNT_IN_BARS } from '../../services/audioEngine/sequencer';
+import { TempoRange, DEFAULT_TEMPO_RANGE, roundBpm } from '../../services/audioEngine/tempo';
+import { MasterMeter } from '../../services/audioEngine/master';
+import TempoAutomationLane from './TempoAutomationLane';
+import MixerScenes from './MixerScenes';
 
 // --- Define Interfaces ---
 interface EnhancedPlaybackControlsProps {
@@ -19,11 +24,40 @@ interface EnhancedPlaybackControlsProps {
   onBpmChange: (bpm: number) => void;
   onMasterEffectsChange: (effects: Partial<MasterEffects>) => void;
   onTempoTap: () => void;
+  transport?: TransportProps; // Seek, loop, count-in and metronome controls
+  tempoRange?: TempoRange; // BPM slider range
+  tempoAutomation?: React.ComponentProps<typeof TempoAutomationLane>; // Tempo ramps and steps
+  mixerScenes?: React.ComponentProps<typeof MixerScenes>; // Scene recall and crossfader
+  fill?: FillControls; // Momentary fill button
+  masterMeter?: MasterMeter | null; // Gain reduction of the master compressor and limiter
+  effectsAvailable?: boolean; // False where the platform cannot process effects (no PCM output)
+}
+
+interface FillControls {
+  active: boolean;
+  hasFill: boolean; // The pattern has a fill variant (otherwise only FILL conditions change)
+  onFillChange: (active: boolean) => void; // True while the button is held
+}
+
+interface TransportProps {
+  currentStep: number;
+  totalSteps: number;
+  stepsPerBar: number; // From the time signature
+  loopRegion: LoopRegion | null;
+  countInBars: number;
+  metronome: MetronomeSettings;
+  onSeek: (step: number) => void;
+  onLoopRegionChange: (region: LoopRegion | null) => void;
+  onCountInChange: (bars: number) => void;
+  onMetronomeChange: (settings: Partial<MetronomeSettings>) => void;
 }
 // --- End Interfaces ---
 
 const { width } = Dimensions.get('window');
 
+// Gain reduction (dB) that fills a meter
+const MAX_METER_REDUCTION = 12;
+
 const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
   isPlaying,
   bpm,
@@ -34,6 +68,13 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
   onBpmChange,
   onMasterEffectsChange,
   onTempoTap,
+  transport,
+  tempoRange = DEFAULT_TEMPO_RANGE,
+  tempoAutomation,
+  mixerScenes,
+  fill,
+  masterMeter,
+  effectsAvailable = true,
 }) => {
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -325,6 +366,27 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
     );
   };
   
+  // Render the momentary fill button (fill plays only while it is held)
+  const renderFillButton = () => {
+    if (!fill) return null;
+    
+    return (
+      <Pressable
+        style={[styles.fillButton, fill.active && styles.fillButtonActive]}
+        onPressIn={() => {
+          if (Platform.OS !== 'web') {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+          }
+          fill.onFillChange(true);
+        }}
+        onPressOut={() => fill.onFillChange(false)}
+      >
+        <Text style={styles.fillButtonText}>FILL</Text>
+        {fill.hasFill && <View style={styles.fillIndicator} />}
+      </Pressable>
+    );
+  };
+  
   // Render tempo tap button
   const renderTempoTapButton = () => {
     return (
@@ -431,6 +493,21 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
     );
   };
   
+  // Render a gain reduction meter, filling from the right like a hardware meter
+  const renderGainReduction = (reduction: number, color: string) => {
+    const fill = Math.min(1, reduction / MAX_METER_REDUCTION);
+    
+    return (
+      <View style={styles.reductionMeter}>
+        <Text style={styles.reductionLabel}>GR</Text>
+        <View style={styles.reductionTrack}>
+          <View style={[styles.reductionFill, { width: `${fill * 100}%`, backgroundColor: color }]} />
+        </View>
+        <Text style={styles.sliderValue}>{reduction > 0 ? `-${reduction.toFixed(1)}` : '0.0'}</Text>
+      </View>
+    );
+  };
+  
   // Render compressor controls
   const renderCompressorControls = () => {
     return (
@@ -484,6 +561,101 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
             <Text style={styles.sliderValue}>{localCompRatio.toFixed(1)}:1</Text>
           </View>
         </View>
+        
+        {masterMeter && renderGainReduction(masterMeter.compressor, colors.neonBlue)}
+      </View>
+    );
+  };
+  
+  // Render seek, loop, count-in and metronome controls
+  const renderTransportControls = () => {
+    if (!transport) return null;
+    
+    const { stepsPerBar } = transport;
+    const barCount = Math.max(1, Math.ceil(transport.totalSteps / stepsPerBar));
+    const currentBar = Math.floor(transport.currentStep / stepsPerBar);
+    const isLooping = transport.loopRegion !== null;
+    
+    // Seek to the start of a bar
+    const seekToBar = (bar: number) => {
+      const target = Math.max(0, Math.min(barCount - 1, bar));
+      transport.onSeek(target * stepsPerBar);
+    };
+    
+    // Loop the bar under the playhead, or clear the loop
+    const toggleLoop = () => {
+      if (isLooping) {
+        transport.onLoopRegionChange(null);
+        return;
+      }
+      const start = currentBar * stepsPerBar;
+      transport.onLoopRegionChange({ start, end: Math.min(transport.totalSteps, start + stepsPerBar) });
+    };
+    
+    return (
+      <View style={styles.transportSection}>
+        <View style={styles.transportRow}>
+          <TouchableOpacity style={styles.transportButton} onPress={() => seekToBar(currentBar - 1)}>
+            <Ionicons name="play-skip-back" size={16} color={colors.textPrimary} />
+          </TouchableOpacity>
+          
+          <Text style={styles.transportPosition}>
+            Bar {currentBar + 1}/{barCount}
+          </Text>
+          
+          <TouchableOpacity style={styles.transportButton} onPress={() => seekToBar(currentBar + 1)}>
+            <Ionicons name="play-skip-forward" size={16} color={colors.textPrimary} />
+          </TouchableOpacity>
+          
+          <TouchableOpacity
+            style={[styles.transportButton, isLooping && styles.transportButtonActive]}
+            onPress={toggleLoop}
+          >
+            <Ionicons name="repeat" size={16} color={colors.textPrimary} />
+          </TouchableOpacity>
+          
+          <TouchableOpacity
+            style={[styles.transportButton, transport.metronome.enabled && styles.transportButtonActive]}
+            onPress={() => transport.onMetronomeChange({ enabled: !transport.metronome.enabled })}
+          >
+            <Ionicons name="timer-outline" size={16} color={colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+        
+        {isLooping && transport.loopRegion && (
+          <Text style={styles.transportInfo}>
+            Loop {transport.loopRegion.start + 1}-{transport.loopRegion.end}
+          </Text>
+        )}
+        
+        <View style={styles.transportRow}>
+          <Text style={styles.transportLabel}>Count-in</Text>
+          {Array.from({ length: MAX_COUNT_IN_BARS + 1 }).map((_, bars) => (
+            <TouchableOpacity
+              key={bars}
+              style={[styles.countInChip, transport.countInBars === bars && styles.transportButtonActive]}
+              onPress={() => transport.onCountInChange(bars)}
+            >
+              <Text style={styles.transportInfo}>{bars === 0 ? 'Off' : bars}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        
+        <View style={styles.sliderContainer}>
+          <Text style={styles.transportLabel}>Click</Text>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={1}
+            step={0.01}
+            value={transport.metronome.volume}
+            onSlidingComplete={value => transport.onMetronomeChange({ volume: value })}
+            minimumTrackTintColor={colors.neonBlue}
+            maximumTrackTintColor={colors.cardBorder}
+            thumbTintColor={colors.textPrimary}
+          />
+          <Text style={styles.sliderValue}>{Math.round(transport.metronome.volume * 100)}%</Text>
+        </View>
       </View>
     );
   };
@@ -501,11 +673,14 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
       <View style={styles.playbackHeader}>
         <Text style={styles.playbackTitle}>Playback Controls</Text>
         <View style={styles.transportControls}>
+          {renderFillButton()}
           {renderStopButton()}
           {renderPlayPauseButton()}
         </View>
       </View>
       
+      {renderTransportControls()}
+      
       <View style={styles.controlsContainer}>
         <View style={styles.bpmContainer}>
           <View style={styles.bpmControls}>
@@ -520,9 +695,9 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
           <View style={styles.sliderContainer}>
             <Slider
               style={styles.slider}
-              minimumValue={60}
-              maximumValue={180}
-              step={1}
+              minimumValue={tempoRange.min}
+              maximumValue={tempoRange.max}
+              step={0.5}
               value={localBpm}
               onValueChange={handleBpmChange}
               onSlidingComplete={handleBpmChangeComplete}
@@ -531,10 +706,23 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
               thumbProps={{ children: renderThumb() }}
               disabled={!isEditing && isPlaying}
             />
-            <Text style={styles.sliderValue}>{Math.round(localBpm)}</Text>
+            <Text style={styles.sliderValue}>{roundBpm(localBpm)}</Text>
           </View>
         </View>
         
+        {tempoAutomation && <TempoAutomationLane {...tempoAutomation} />}
+        
+        {mixerScenes && <MixerScenes {...mixerScenes} />}
+        
+        {!effectsAvailable && (
+          <View style={styles.effectsNotice}>
+            <Ionicons name="information-circle-outline" size={16} color={colors.textSecondary} />
+            <Text style={styles.effectsNoticeText}>
+              Effects are only heard in the web app. This device plays the dry samples at their volume and pitch.
+            </Text>
+          </View>
+        )}
+        
         <View style={styles.controlItem}>
           <View style={styles.controlLabelContainer}>
             <Ionicons name="volume-high-outline" size={20} color={colors.electricBlue} />
@@ -557,6 +745,8 @@ const EnhancedPlaybackControls: React.FC<EnhancedPlaybackControlsProps> = ({
             />
             <Text style={styles.sliderValue}>{Math.round(localLimiter * 100)}%</Text>
           </View>
+          
+          {masterMeter && renderGainReduction(masterMeter.limiter, colors.electricBlue)}
         </View>
         
         <TouchableOpacity 
@@ -660,6 +850,34 @@ const styles = StyleSheet.create({
     marginRight: 12,
     ...globalStyles.shadowMedium,
   },
+  fillButton: {
+    width: 48,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+    backgroundColor: colors.cardBackgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+  },
+  fillButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.activeStep,
+  },
+  fillButtonText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '700',
+    fontSize: 11,
+  },
+  fillIndicator: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 2,
+    backgroundColor: colors.vibrantPurple,
+  },
   tempoTapButton: {
     width: 60,
     height: 60,
@@ -676,6 +894,49 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontSize: 10,
   },
+  transportSection: {
+    marginBottom: 16,
+  },
+  transportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  transportButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  transportButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  transportPosition: {
+    ...globalStyles.bodyText,
+    color: colors.textPrimary,
+    marginRight: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  transportLabel: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    marginRight: 8,
+    width: 56,
+  },
+  transportInfo: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+  },
+  countInChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: colors.cardBorder,
+    marginRight: 4,
+  },
   controlsContainer: {
     width: '100%',
   },
@@ -745,6 +1006,17 @@ const styles = StyleSheet.create({
   advancedEffectsContainer: {
     marginBottom: 16,
   },
+  effectsNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  effectsNoticeText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    flex: 1,
+    marginLeft: 6,
+  },
   effectSectionTitle: {
     ...globalStyles.captionText,
     color: colors.textSecondary,
@@ -777,6 +1049,29 @@ const styles = StyleSheet.create({
   compressorContainer: {
     marginBottom: 16,
   },
+  reductionMeter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  reductionLabel: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    width: 28,
+  },
+  reductionTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 16,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+    backgroundColor: colors.inactiveStep,
+  },
+  reductionFill: {
+    height: '100%',
+  },
   visualizerContainer: {
     height: 80,
     borderRadius: 8,
@@ -0,0 +1,215 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../../theme/colors';
+import { globalStyles } from '../../theme/styles';
+import { MixerScene, Crossfader, MAX_SCENES } from '../../services/audioEngine/scenes';
+import * as Haptics from 'expo-haptics';
+
+// --- Define Interfaces ---
+interface MixerScenesProps {
+  scenes: MixerScene[];
+  queuedSceneId: string | null; // Recall waiting for the next bar
+  crossfader: Crossfader;
+  onStore: () => void; // Capture the current mix as a new scene
+  onRecall: (sceneId: string) => void;
+  onCrossfaderScenesChange: (sceneA: string | null, sceneB: string | null) => void;
+  onCrossfaderChange: (position: number) => void;
+}
+// --- End Interfaces ---
+
+const MixerScenes = ({
+  scenes,
+  queuedSceneId,
+  crossfader,
+  onStore,
+  onRecall,
+  onCrossfaderScenesChange,
+  onCrossfaderChange
+}: MixerScenesProps) => {
+  // Recall a scene on the next bar
+  const handleRecall = useCallback((sceneId: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onRecall(sceneId);
+  }, [onRecall]);
+
+  // Put a scene on one end of the crossfader (tapping it again takes it off)
+  const handleAssign = useCallback((side: 'A' | 'B', sceneId: string) => {
+    if (side === 'A') {
+      onCrossfaderScenesChange(crossfader.sceneA === sceneId ? null : sceneId, crossfader.sceneB);
+    } else {
+      onCrossfaderScenesChange(crossfader.sceneA, crossfader.sceneB === sceneId ? null : sceneId);
+    }
+  }, [crossfader, onCrossfaderScenesChange]);
+
+  const sceneA = scenes.find(scene => scene.id === crossfader.sceneA);
+  const sceneB = scenes.find(scene => scene.id === crossfader.sceneB);
+
+  // Render one crossfader assign button
+  const renderAssignButton = (side: 'A' | 'B', scene: MixerScene) => {
+    const isAssigned = (side === 'A' ? crossfader.sceneA : crossfader.sceneB) === scene.id;
+
+    return (
+      <TouchableOpacity
+        style={[styles.assignButton, isAssigned && styles.assignButtonActive]}
+        onPress={() => handleAssign(side, scene.id)}
+      >
+        <Text style={styles.assignText}>{side}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Render the stored scenes
+  const renderScenes = () => {
+    if (scenes.length === 0) {
+      return (
+        <Text style={styles.emptyText}>Store the mix to recall or crossfade it later</Text>
+      );
+    }
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.sceneList}
+      >
+        {scenes.map(scene => (
+          <View
+            key={scene.id}
+            style={[styles.scene, scene.id === queuedSceneId && styles.sceneQueued]}
+          >
+            <TouchableOpacity onPress={() => handleRecall(scene.id)}>
+              <Text style={styles.sceneName} numberOfLines={1}>{scene.name}</Text>
+            </TouchableOpacity>
+            <View style={styles.assignRow}>
+              {renderAssignButton('A', scene)}
+              {renderAssignButton('B', scene)}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Scenes</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={onStore}
+          disabled={scenes.length >= MAX_SCENES}
+        >
+          <Ionicons name="add" size={16} color={colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      {renderScenes()}
+
+      <View style={styles.crossfader}>
+        <Text style={styles.crossfaderLabel} numberOfLines={1}>{sceneA?.name ?? 'A'}</Text>
+        <Slider
+          style={styles.crossfaderSlider}
+          minimumValue={0}
+          maximumValue={1}
+          step={0.01}
+          value={crossfader.position}
+          onValueChange={onCrossfaderChange}
+          disabled={!sceneA || !sceneB}
+          minimumTrackTintColor={colors.vibrantPurple}
+          maximumTrackTintColor={colors.cardBorder}
+          thumbTintColor={colors.textPrimary}
+        />
+        <Text style={styles.crossfaderLabel} numberOfLines={1}>{sceneB?.name ?? 'B'}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  addButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+  },
+  sceneList: {
+    flexDirection: 'row',
+    paddingRight: 16,
+  },
+  scene: {
+    width: 88,
+    padding: 6,
+    marginRight: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    backgroundColor: colors.cardBackgroundAlt,
+  },
+  sceneQueued: {
+    borderColor: colors.warning,
+  },
+  sceneName: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  assignRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  assignButton: {
+    width: 32,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: colors.cardBorder,
+    alignItems: 'center',
+  },
+  assignButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  assignText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontSize: 10,
+  },
+  crossfader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  crossfaderSlider: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  crossfaderLabel: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    width: 56,
+    textAlign: 'center',
+  },
+});
+
+export default MixerScenes;
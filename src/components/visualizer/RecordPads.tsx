@@ -0,0 +1,239 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Pressable, GestureResponderEvent, Platform } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../../theme/colors';
+import { globalStyles } from '../../theme/styles';
+import { Track } from '../../services/audioEngine/enhancedAudioEngine';
+import { RecordOptions, MAX_COUNT_IN_BARS } from '../../services/audioEngine/sequencer';
+import * as Haptics from 'expo-haptics';
+
+// --- Define Interfaces ---
+interface RecordPadsProps {
+  tracks: Track[];
+  isRecording: boolean;
+  recordOptions: RecordOptions;
+  countIn: number; // Beats left in the count-in, 0 when not counting in
+  onPadHit: (trackId: string, velocity: number) => void;
+  onRecordToggle: () => void;
+  onRecordOptionsChange: (options: Partial<RecordOptions>) => void;
+}
+// --- End Interfaces ---
+
+const PAD_SIZE = 64;
+
+// Map a touch to a velocity: pressure where the device reports it, otherwise
+// the vertical position on the pad (top of the pad is loudest)
+const getTouchVelocity = (event: GestureResponderEvent): number => {
+  const { force, locationY } = event.nativeEvent;
+  if (force && force > 0) {
+    return Math.max(0.1, Math.min(1, force));
+  }
+  return Math.max(0.1, Math.min(1, 1 - locationY / PAD_SIZE));
+};
+
+const RecordPads = ({
+  tracks,
+  isRecording,
+  recordOptions,
+  countIn,
+  onPadHit,
+  onRecordToggle,
+  onRecordOptionsChange
+}: RecordPadsProps) => {
+  // Hit a pad
+  const handlePadPress = useCallback((trackId: string, event: GestureResponderEvent) => {
+    onPadHit(trackId, getTouchVelocity(event));
+
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  }, [onPadHit]);
+
+  // Arm a track for replace recording
+  const handlePadLongPress = useCallback((trackId: string) => {
+    onRecordOptionsChange({ trackId });
+
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+  }, [onRecordOptionsChange]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={[styles.recordButton, isRecording && styles.recordButtonActive]}
+          onPress={onRecordToggle}
+        >
+          <Ionicons name="radio-button-on" size={16} color={isRecording ? colors.textPrimary : colors.error} />
+          <Text style={styles.recordButtonText}>
+            {countIn > 0 ? `Count-in ${countIn}` : isRecording ? 'Recording' : 'Record'}
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.optionGroup}>
+          {(['overdub', 'replace'] as const).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.optionChip, recordOptions.mode === mode && styles.optionChipSelected]}
+              onPress={() => onRecordOptionsChange({ mode })}
+            >
+              <Text style={[styles.optionText, recordOptions.mode === mode && styles.optionTextSelected]}>
+                {mode === 'overdub' ? 'Overdub' : 'Replace'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.settingsRow}>
+        <View style={styles.quantizeContainer}>
+          <Text style={styles.label}>Quantize {Math.round(recordOptions.quantize * 100)}%</Text>
+          <Slider
+            minimumValue={0}
+            maximumValue={1}
+            step={0.05}
+            value={recordOptions.quantize}
+            onSlidingComplete={value => onRecordOptionsChange({ quantize: value })}
+            minimumTrackTintColor={colors.vibrantPurple}
+            maximumTrackTintColor={colors.cardBorder}
+            thumbTintColor={colors.textPrimary}
+          />
+        </View>
+
+        <View>
+          <Text style={styles.label}>Count-in</Text>
+          <View style={styles.optionGroup}>
+            {Array.from({ length: MAX_COUNT_IN_BARS + 1 }).map((_, bars) => (
+              <TouchableOpacity
+                key={bars}
+                style={[styles.optionChip, recordOptions.countInBars === bars && styles.optionChipSelected]}
+                onPress={() => onRecordOptionsChange({ countInBars: bars })}
+              >
+                <Text style={[styles.optionText, recordOptions.countInBars === bars && styles.optionTextSelected]}>
+                  {bars === 0 ? 'Off' : bars}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.padGrid}>
+        {tracks.map(track => (
+          <Pressable
+            key={track.id}
+            style={({ pressed }) => [
+              styles.pad,
+              track.id === recordOptions.trackId && styles.padArmed,
+              pressed && styles.padPressed
+            ]}
+            onPressIn={event => handlePadPress(track.id, event)}
+            onLongPress={() => handlePadLongPress(track.id)}
+            delayLongPress={500}
+          >
+            <Text style={styles.padText} numberOfLines={2}>{track.name}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.cardBorder,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  recordButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.cardBackgroundAlt,
+  },
+  recordButtonActive: {
+    backgroundColor: colors.error,
+  },
+  recordButtonText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  settingsRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginBottom: 12,
+  },
+  quantizeContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  optionGroup: {
+    flexDirection: 'row',
+  },
+  optionChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 4,
+    borderRadius: 8,
+    backgroundColor: colors.cardBackgroundAlt,
+  },
+  optionChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  optionText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontSize: 11,
+  },
+  optionTextSelected: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  padGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  pad: {
+    width: PAD_SIZE,
+    height: PAD_SIZE,
+    margin: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    backgroundColor: colors.inactiveStep,
+    justifyContent: 'flex-end',
+    padding: 6,
+  },
+  padArmed: {
+    borderColor: colors.error,
+    borderWidth: 2,
+  },
+  padPressed: {
+    backgroundColor: colors.activeStep,
+  },
+  padText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontSize: 10,
+  },
+});
+
+export default RecordPads;
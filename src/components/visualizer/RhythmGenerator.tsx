@@ -0,0 +1,358 @@
+import React, { useState, useMemo } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Modal } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../../theme/colors';
+import { globalStyles } from '../../theme/styles';
+import { Track } from '../../services/audioEngine/enhancedAudioEngine';
+import {
+  RhythmPattern,
+  RhythmFill,
+  RhythmFillMode,
+  EuclideanVariant,
+  MAX_RHYTHM_STEPS,
+  createRhythmSteps,
+  formatRhythmPattern,
+  isValidRhythmFill
+} from '../../services/audioEngine/rhythm';
+
+// --- Define Interfaces ---
+interface RhythmGeneratorProps {
+  visible: boolean;
+  track: Track | null;
+  onApply: (fill: RhythmFill) => void;
+  onClose: () => void;
+}
+// --- End Interfaces ---
+
+type RhythmType = RhythmPattern['type'];
+
+// Common additive groupings
+const GROUPINGS: number[][] = [
+  [3, 3, 2],
+  [3, 3, 3, 3, 4],
+  [2, 2, 3],
+  [3, 2, 2],
+  [2, 3, 2, 3, 2, 2, 2]
+];
+
+const VARIANTS: EuclideanVariant[] = ['bjorklund', 'bresenham', 'inverse'];
+
+const RhythmGenerator = ({
+  visible,
+  track,
+  onApply,
+  onClose
+}: RhythmGeneratorProps) => {
+  const [type, setType] = useState<RhythmType>('euclidean');
+  const [hits, setHits] = useState(5);
+  const [cycle, setCycle] = useState(16);
+  const [rotation, setRotation] = useState(0);
+  const [variant, setVariant] = useState<EuclideanVariant>('bjorklund');
+  const [every, setEvery] = useState(4);
+  const [groups, setGroups] = useState<number[]>(GROUPINGS[0]);
+  const [accentHits, setAccentHits] = useState(0); // 0 = no accents
+  const [velocity, setVelocity] = useState(0.8);
+  const [mode, setMode] = useState<RhythmFillMode>('replace');
+
+  // Build the fill from the current settings
+  const fill = useMemo((): RhythmFill => {
+    const pattern: RhythmPattern = type === 'everyNth'
+      ? { type, every, offset: rotation }
+      : type === 'grouping'
+        ? { type, groups, rotation }
+        : { type, hits: Math.min(hits, cycle), steps: cycle, rotation, variant };
+
+    return {
+      pattern,
+      accent: accentHits > 0
+        ? { type: 'euclidean', hits: Math.min(accentHits, cycle), steps: cycle, rotation, variant: 'bjorklund' }
+        : undefined,
+      velocity,
+      mode
+    };
+  }, [type, hits, cycle, rotation, variant, every, groups, accentHits, velocity, mode]);
+
+  // Steps the fill would write, shown before committing
+  const preview = useMemo(() => {
+    if (!track || !isValidRhythmFill(fill)) return [];
+    return createRhythmSteps(track.steps, fill);
+  }, [track, fill]);
+
+  if (!track) return null;
+
+  // Render one option chip
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => {
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.chip, isSelected && styles.chipSelected]}
+        onPress={onPress}
+      >
+        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Render one value with -/+ buttons
+  const renderStepper = (label: string, value: number, onChange: (value: number) => void, min: number, max: number) => {
+    return (
+      <View style={styles.stepperRow}>
+        <Text style={styles.label}>{label}</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(Math.max(min, value - 1))}>
+            <Ionicons name="remove" size={14} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <Text style={styles.stepperText}>{value}</Text>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(Math.min(max, value + 1))}>
+            <Ionicons name="add" size={14} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  // Render the preview row
+  const renderPreview = () => {
+    return (
+      <View style={styles.preview}>
+        {preview.map((step, index) => (
+          <View
+            key={index}
+            style={[
+              styles.previewStep,
+              step.active && styles.previewStepActive,
+              step.active && { opacity: 0.4 + step.velocity * 0.6 }
+            ]}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{track.name} · {formatRhythmPattern(fill.pattern)}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {renderPreview()}
+
+          <ScrollView>
+            <View style={styles.section}>
+              <Text style={styles.label}>Algorithm</Text>
+              <View style={styles.chipGrid}>
+                {renderChip('EUCLIDEAN', type === 'euclidean', () => setType('euclidean'))}
+                {renderChip('EVERY NTH', type === 'everyNth', () => setType('everyNth'))}
+                {renderChip('GROUPING', type === 'grouping', () => setType('grouping'))}
+              </View>
+            </View>
+
+            {type === 'euclidean' && (
+              <View style={styles.section}>
+                <View style={styles.chipGrid}>
+                  {VARIANTS.map(option =>
+                    renderChip(option.toUpperCase(), variant === option, () => setVariant(option))
+                  )}
+                </View>
+                {renderStepper('Hits', Math.min(hits, cycle), setHits, 0, cycle)}
+                {renderStepper('Steps', cycle, setCycle, 1, MAX_RHYTHM_STEPS)}
+              </View>
+            )}
+
+            {type === 'everyNth' && (
+              <View style={styles.section}>
+                {renderStepper('Every', every, setEvery, 1, MAX_RHYTHM_STEPS)}
+              </View>
+            )}
+
+            {type === 'grouping' && (
+              <View style={styles.section}>
+                <View style={styles.chipGrid}>
+                  {GROUPINGS.map(option =>
+                    renderChip(option.join('-'), option === groups, () => setGroups(option))
+                  )}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.section}>
+              {renderStepper(type === 'everyNth' ? 'Offset' : 'Rotation', rotation, setRotation, 0, MAX_RHYTHM_STEPS - 1)}
+              {type !== 'everyNth' && renderStepper('Accents', accentHits, setAccentHits, 0, cycle)}
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sliderHeader}>
+                <Text style={styles.label}>Velocity</Text>
+                <Text style={styles.value}>{Math.round(velocity * 100)}%</Text>
+              </View>
+              <Slider
+                minimumValue={0}
+                maximumValue={1}
+                step={0.01}
+                value={velocity}
+                onValueChange={setVelocity}
+                minimumTrackTintColor={colors.vibrantPurple}
+                maximumTrackTintColor={colors.cardBorder}
+                thumbTintColor={colors.textPrimary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Mode</Text>
+              <View style={styles.chipGrid}>
+                {renderChip('REPLACE', mode === 'replace', () => setMode('replace'))}
+                {renderChip('MERGE', mode === 'merge', () => setMode('merge'))}
+              </View>
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={styles.applyButton}
+            onPress={() => onApply(fill)}
+            disabled={!isValidRhythmFill(fill)}
+          >
+            <Text style={styles.applyText}>Apply to {track.name}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '80%',
+    backgroundColor: colors.modalBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    ...globalStyles.heading3,
+    color: colors.textPrimary,
+  },
+  preview: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  previewStep: {
+    width: 12,
+    height: 12,
+    margin: 1,
+    borderRadius: 3,
+    backgroundColor: colors.inactiveStep,
+  },
+  previewStepActive: {
+    backgroundColor: colors.activeStep,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sliderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  value: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    margin: 2,
+    borderRadius: 8,
+    backgroundColor: colors.cardBackgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.activeStep,
+  },
+  chipText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontSize: 11,
+  },
+  chipTextSelected: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  applyButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  applyText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+});
+
+export default RhythmGenerator;
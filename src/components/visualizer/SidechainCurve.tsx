@@ -0,0 +1,51 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { colors } from '../../theme/colors';
+
+// --- Define Interfaces ---
+interface SidechainCurveProps {
+  history: number[]; // Gain reduction readings (dB), oldest first
+  color?: string;
+}
+// --- End Interfaces ---
+
+// Readings shown, and the reduction (dB) that reaches the bottom of the curve
+const CURVE_LENGTH = 32;
+const MAX_CURVE_REDUCTION = 24;
+
+// Gain reduction of a ducked track over time, hanging down from the top like a hardware meter
+const SidechainCurve = ({ history, color = colors.neonBlue }: SidechainCurveProps) => {
+  const readings = history.slice(-CURVE_LENGTH);
+
+  return (
+    <View style={styles.container}>
+      {readings.map((reduction, index) => (
+        <View
+          key={index}
+          style={[
+            styles.bar,
+            { height: `${Math.min(1, reduction / MAX_CURVE_REDUCTION) * 100}%`, backgroundColor: color }
+          ]}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    width: CURVE_LENGTH * 2,
+    height: 14,
+    marginTop: 2,
+    borderRadius: 2,
+    overflow: 'hidden',
+    backgroundColor: colors.inactiveStep,
+  },
+  bar: {
+    width: 2,
+  },
+});
+
+export default SidechainCurve;
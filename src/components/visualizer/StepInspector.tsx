@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Modal } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../../theme/colors';
+import { globalStyles } from '../../theme/styles';
+import { Step } from '../../services/audioEngine/enhancedAudioEngine';
+import {
+  TrigCondition,
+  TRIG_CONDITIONS,
+  formatTrigCondition
+} from '../../services/audioEngine/trigConditions';
+import { MAX_RETRIG_COUNT, RETRIG_RATES } from '../../services/audioEngine/retrig';
+import {
+  DEFAULT_ROOT_NOTE,
+  MIN_NOTE,
+  MAX_NOTE,
+  MIN_GATE_LENGTH,
+  formatNote
+} from '../../services/audioEngine/notes';
+import { MusicalKey, isNoteInKey, quantizeNote, formatKey } from '../../services/audioEngine/scales';
+
+// --- Define Interfaces ---
+interface StepInspectorProps {
+  visible: boolean;
+  trackName: string;
+  stepIndex: number;
+  step: Step | null;
+  musicalKey?: MusicalKey | null; // Project key, highlights the notes of the scale
+  onStepEdit: (step: Partial<Step>) => void;
+  onClose: () => void;
+}
+// --- End Interfaces ---
+
+// Longest gate offered by the slider, in steps
+const MAX_GATE_SLIDER = 4;
+
+// Check whether two conditions are the same
+const isSameCondition = (a?: TrigCondition, b?: TrigCondition): boolean => {
+  if (!a || !b) return a === b;
+  return formatTrigCondition(a) === formatTrigCondition(b);
+};
+
+const StepInspector = ({
+  visible,
+  trackName,
+  stepIndex,
+  step,
+  musicalKey,
+  onStepEdit,
+  onClose
+}: StepInspectorProps) => {
+  // Local slider values so dragging stays smooth
+  const [velocity, setVelocity] = useState(step?.velocity ?? 1);
+  const [probability, setProbability] = useState(step?.probability ?? 1);
+  const [microTiming, setMicroTiming] = useState(step?.microTiming ?? 0);
+  const [retrigCurve, setRetrigCurve] = useState(step?.retrigVelocityCurve ?? 0);
+  const [gateLength, setGateLength] = useState(step?.gateLength ?? 0); // 0 = play to the end
+
+  // Sync local values when another step is inspected
+  useEffect(() => {
+    setVelocity(step?.velocity ?? 1);
+    setProbability(step?.probability ?? 1);
+    setMicroTiming(step?.microTiming ?? 0);
+    setRetrigCurve(step?.retrigVelocityCurve ?? 0);
+    setGateLength(step?.gateLength ?? 0);
+  }, [step, stepIndex]);
+
+  if (!step) return null;
+
+  // Render one condition chip
+  const renderConditionChip = (condition: TrigCondition | undefined, label: string) => {
+    const isSelected = isSameCondition(step.condition, condition);
+
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.conditionChip, isSelected && styles.conditionChipSelected]}
+        onPress={() => onStepEdit({ condition })}
+      >
+        <Text style={[styles.conditionText, isSelected && styles.conditionTextSelected]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Render one option chip (retrig count or rate)
+  const renderOptionChip = (label: string, isSelected: boolean, onPress: () => void) => {
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.conditionChip, isSelected && styles.conditionChipSelected]}
+        onPress={onPress}
+      >
+        <Text style={[styles.conditionText, isSelected && styles.conditionTextSelected]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const retrigCount = step.retrigCount ?? 1;
+  
+  // Transpose the step's note, starting from the root
+  const transpose = (semitones: number) => {
+    const note = (step.note ?? DEFAULT_ROOT_NOTE) + semitones;
+    onStepEdit({ note: Math.max(MIN_NOTE, Math.min(MAX_NOTE, note)) });
+  };
+
+  // Notes of the octave the step's note is in, for the pitch row
+  const octaveStart = Math.floor((step.note ?? DEFAULT_ROOT_NOTE) / 12) * 12;
+  const octaveNotes = Array.from({ length: 12 }, (_, index) => octaveStart + index)
+    .filter(note => note <= MAX_NOTE);
+
+  // Label of the step's note, with the note it is quantized to when out of key
+  const formatStepNote = (note: number) => {
+    if (!musicalKey || isNoteInKey(note, musicalKey)) return formatNote(note);
+    return `${formatNote(note)} → ${formatNote(quantizeNote(note, musicalKey))}`;
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{trackName} · Step {stepIndex + 1}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            <View style={styles.section}>
+              <View style={styles.sliderHeader}>
+                <Text style={styles.label}>Velocity</Text>
+                <Text style={styles.value}>{Math.round(velocity * 100)}%</Text>
+              </View>
+              <Slider
+                minimumValue={0}
+                maximumValue={1}
+                step={0.01}
+                value={velocity}
+                onValueChange={setVelocity}
+                onSlidingComplete={value => onStepEdit({ velocity: value })}
+                minimumTrackTintColor={colors.vibrantPurple}
+                maximumTrackTintColor={colors.cardBorder}
+                thumbTintColor={colors.textPrimary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sliderHeader}>
+                <Text style={styles.label}>Probability</Text>
+                <Text style={styles.value}>{Math.round(probability * 100)}%</Text>
+              </View>
+              <Slider
+                minimumValue={0}
+                maximumValue={1}
+                step={0.01}
+                value={probability}
+                onValueChange={setProbability}
+                onSlidingComplete={value => onStepEdit({ probability: value })}
+                minimumTrackTintColor={colors.vibrantPurple}
+                maximumTrackTintColor={colors.cardBorder}
+                thumbTintColor={colors.textPrimary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sliderHeader}>
+                <Text style={styles.label}>Micro-timing</Text>
+                <Text style={styles.value}>
+                  {microTiming > 0 ? '+' : ''}{Math.round(microTiming * 100)}%
+                </Text>
+              </View>
+              <Slider
+                minimumValue={-0.5}
+                maximumValue={0.5}
+                step={0.01}
+                value={microTiming}
+                onValueChange={setMicroTiming}
+                onSlidingComplete={value => onStepEdit({ microTiming: value })}
+                minimumTrackTintColor={colors.vibrantPurple}
+                maximumTrackTintColor={colors.cardBorder}
+                thumbTintColor={colors.textPrimary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sliderHeader}>
+                <Text style={styles.label}>Note</Text>
+                <Text style={styles.value}>{step.note !== undefined ? formatStepNote(step.note) : 'Root'}</Text>
+              </View>
+              <View style={styles.conditionGrid}>
+                {octaveNotes.map(note => (
+                  <TouchableOpacity
+                    key={note}
+                    style={[
+                      styles.conditionChip,
+                      musicalKey && isNoteInKey(note, musicalKey) && styles.conditionChipInKey,
+                      step.note === note && styles.conditionChipSelected
+                    ]}
+                    onPress={() => onStepEdit({ note })}
+                  >
+                    <Text style={[styles.conditionText, step.note === note && styles.conditionTextSelected]}>
+                      {formatNote(note)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {musicalKey && <Text style={styles.value}>{formatKey(musicalKey)}</Text>}
+              <View style={styles.conditionGrid}>
+                {renderOptionChip('-12', false, () => transpose(-12))}
+                {renderOptionChip('-1', false, () => transpose(-1))}
+                {renderOptionChip('+1', false, () => transpose(1))}
+                {renderOptionChip('+12', false, () => transpose(12))}
+                {renderOptionChip('ROOT', step.note === undefined, () => onStepEdit({ note: undefined }))}
+                {renderOptionChip('ACCENT', step.accent === true, () => onStepEdit({ accent: !step.accent }))}
+                {renderOptionChip('SLIDE', step.slide === true, () => onStepEdit({ slide: !step.slide }))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sliderHeader}>
+                <Text style={styles.label}>Gate</Text>
+                <Text style={styles.value}>
+                  {gateLength > 0 ? `${gateLength.toFixed(2)} steps` : 'Full sample'}
+                </Text>
+              </View>
+              <Slider
+                minimumValue={0}
+                maximumValue={MAX_GATE_SLIDER}
+                step={0.05}
+                value={gateLength}
+                onValueChange={setGateLength}
+                onSlidingComplete={value => onStepEdit({
+                  gateLength: value >= MIN_GATE_LENGTH ? value : undefined
+                })}
+                minimumTrackTintColor={colors.vibrantPurple}
+                maximumTrackTintColor={colors.cardBorder}
+                thumbTintColor={colors.textPrimary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Retrig</Text>
+              <View style={styles.conditionGrid}>
+                {Array.from({ length: MAX_RETRIG_COUNT }).map((_, index) =>
+                  renderOptionChip(
+                    index === 0 ? 'OFF' : `${index + 1}x`,
+                    retrigCount === index + 1,
+                    () => onStepEdit({ retrigCount: index + 1 })
+                  )
+                )}
+              </View>
+            </View>
+
+            {retrigCount > 1 && (
+              <View style={styles.section}>
+                <Text style={styles.label}>Retrig Rate (hits per step)</Text>
+                <View style={styles.conditionGrid}>
+                  {renderOptionChip('AUTO', step.retrigRate === undefined, () => onStepEdit({ retrigRate: undefined }))}
+                  {RETRIG_RATES.map(rate =>
+                    renderOptionChip(`1/${rate}`, step.retrigRate === rate, () => onStepEdit({ retrigRate: rate }))
+                  )}
+                </View>
+              </View>
+            )}
+
+            {retrigCount > 1 && (
+              <View style={styles.section}>
+                <View style={styles.sliderHeader}>
+                  <Text style={styles.label}>Retrig Velocity</Text>
+                  <Text style={styles.value}>
+                    {retrigCurve > 0 ? 'Ramp up' : retrigCurve < 0 ? 'Fade out' : 'Flat'}
+                  </Text>
+                </View>
+                <Slider
+                  minimumValue={-1}
+                  maximumValue={1}
+                  step={0.05}
+                  value={retrigCurve}
+                  onValueChange={setRetrigCurve}
+                  onSlidingComplete={value => onStepEdit({ retrigVelocityCurve: value })}
+                  minimumTrackTintColor={colors.vibrantPurple}
+                  maximumTrackTintColor={colors.cardBorder}
+                  thumbTintColor={colors.textPrimary}
+                />
+              </View>
+            )}
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Trig Condition</Text>
+              <View style={styles.conditionGrid}>
+                {renderConditionChip(undefined, 'NONE')}
+                {TRIG_CONDITIONS.map(condition =>
+                  renderConditionChip(condition, formatTrigCondition(condition))
+                )}
+              </View>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '80%',
+    backgroundColor: colors.modalBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    ...globalStyles.heading3,
+    color: colors.textPrimary,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sliderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  value: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+  },
+  conditionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  conditionChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    margin: 2,
+    borderRadius: 8,
+    backgroundColor: colors.cardBackgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+  },
+  conditionChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.activeStep,
+  },
+  conditionChipInKey: {
+    borderColor: colors.vibrantPurple,
+  },
+  conditionText: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    fontSize: 11,
+  },
+  conditionTextSelected: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+});
+
+export default StepInspector;
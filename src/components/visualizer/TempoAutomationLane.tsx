@@ -0,0 +1,222 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../../theme/colors';
+import { globalStyles } from '../../theme/styles';
+import { TempoPoint, TempoRange, clampBpm } from '../../services/audioEngine/tempo';
+import * as Haptics from 'expo-haptics';
+
+// --- Define Interfaces ---
+interface TempoAutomationLaneProps {
+  points: TempoPoint[];
+  bpm: number; // Base tempo, played before the first point
+  currentBpm: number; // Tempo being heard
+  tempoRange: TempoRange;
+  onChange: (points: TempoPoint[]) => void;
+}
+// --- End Interfaces ---
+
+const MAX_TEMPO_BAR = 256;
+
+const TempoAutomationLane = ({
+  points,
+  bpm,
+  currentBpm,
+  tempoRange,
+  onChange
+}: TempoAutomationLaneProps) => {
+  // Add a ramp four bars after the last point
+  const handleAddPoint = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const lastPoint = points[points.length - 1];
+    const bar = lastPoint ? Math.min(MAX_TEMPO_BAR, lastPoint.bar + 4) : 4;
+    if (points.some(point => point.bar === bar)) return;
+
+    onChange([...points, { bar, bpm: lastPoint?.bpm ?? bpm, curve: 'ramp' }]);
+  }, [points, bpm, onChange]);
+
+  // Replace one point, keeping the lane sorted by bar
+  const updatePoint = useCallback((index: number, changes: Partial<TempoPoint>) => {
+    const updated = { ...points[index], ...changes };
+    if (points.some((point, i) => i !== index && point.bar === updated.bar)) return;
+
+    onChange(
+      points
+        .map((point, i) => (i === index ? updated : point))
+        .sort((a, b) => a.bar - b.bar)
+    );
+  }, [points, onChange]);
+
+  // Remove a point
+  const handleRemovePoint = useCallback((index: number) => {
+    onChange(points.filter((_, i) => i !== index));
+  }, [points, onChange]);
+
+  // Render one value with -/+ buttons
+  const renderStepper = (label: string, onDecrement: () => void, onIncrement: () => void) => {
+    return (
+      <View style={styles.stepper}>
+        <TouchableOpacity style={styles.stepperButton} onPress={onDecrement}>
+          <Ionicons name="remove" size={12} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={styles.stepperText}>{label}</Text>
+        <TouchableOpacity style={styles.stepperButton} onPress={onIncrement}>
+          <Ionicons name="add" size={12} color={colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Render the automation points
+  const renderPoints = () => {
+    if (points.length === 0) {
+      return (
+        <Text style={styles.emptyText}>Add points to ramp or step the tempo</Text>
+      );
+    }
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.pointList}
+      >
+        {points.map((point, index) => (
+          <View key={point.bar} style={styles.point}>
+            <View style={styles.pointHeader}>
+              <TouchableOpacity
+                style={[styles.curveButton, point.curve === 'ramp' && styles.curveButtonActive]}
+                onPress={() => updatePoint(index, { curve: point.curve === 'ramp' ? 'step' : 'ramp' })}
+              >
+                <Ionicons
+                  name={point.curve === 'ramp' ? 'trending-up' : 'stats-chart'}
+                  size={12}
+                  color={colors.textPrimary}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleRemovePoint(index)}>
+                <Ionicons name="close" size={14} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+
+            {renderStepper(
+              `Bar ${point.bar + 1}`,
+              () => updatePoint(index, { bar: Math.max(0, point.bar - 1) }),
+              () => updatePoint(index, { bar: Math.min(MAX_TEMPO_BAR, point.bar + 1) })
+            )}
+            {renderStepper(
+              `${point.bpm}`,
+              () => updatePoint(index, { bpm: clampBpm(point.bpm - 1, tempoRange) }),
+              () => updatePoint(index, { bpm: clampBpm(point.bpm + 1, tempoRange) })
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Tempo</Text>
+
+        <View style={styles.headerControls}>
+          <Text style={styles.currentBpm}>{currentBpm.toFixed(1)} BPM</Text>
+          <TouchableOpacity style={styles.addButton} onPress={handleAddPoint}>
+            <Ionicons name="add" size={16} color={colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {renderPoints()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  headerControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  currentBpm: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    marginRight: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  addButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...globalStyles.captionText,
+    color: colors.textMuted,
+  },
+  pointList: {
+    flexDirection: 'row',
+    paddingRight: 16,
+  },
+  point: {
+    width: 88,
+    padding: 6,
+    marginRight: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    backgroundColor: colors.cardBackgroundAlt,
+  },
+  pointHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  curveButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: colors.cardBorder,
+  },
+  curveButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  stepperButton: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: colors.cardBorder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    ...globalStyles.captionText,
+    color: colors.textPrimary,
+    fontSize: 10,
+  },
+});
+
+export default TempoAutomationLane;
@@ -14,6 +14,7 @@ import Button from '../../components/common/Button';
 import BeatVisualizer from '../../components/visualizer/BeatVisualizer';
 import EnhancedPlaybackControls from '../../components/visualizer/EnhancedPlaybackControls';
 import { useEnhancedAudioEngine, Track, EnhancedBeatPattern } from '../../services/audioEngine/enhancedAudioEngine';
+import { MasterMeter } from '../../services/audioEngine/master';
 
 // --- Define Interfaces Locally ---
 // Remove locally defined Instruments if Track type is sufficient
@@ -38,6 +39,9 @@ type VisualizerScreenNavigationProp = StackNavigationProp<VisualizerStackParamLi
 
 const { width, height } = Dimensions.get('window');
 
+// How often the master meters are read while playing (ms)
+const METER_INTERVAL = 100;
+
 const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
   const navigation = useNavigation<VisualizerScreenNavigationProp>();
   const insets = useSafeAreaInsets();
@@ -50,6 +54,8 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [saveResult, setSaveResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [masterMeter, setMasterMeter] = useState<MasterMeter | null>(null);
   
   const audioEngine = useEnhancedAudioEngine();
   const [isLoading, setIsLoading] = useState(true);
@@ -124,6 +130,19 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
     };
   }, [isPlaying, audioEngine]);
   
+  // Read the master gain reduction while playing
+  useEffect(() => {
+    if (!isPlaying || !audioEngine.isDspMixing()) {
+      setMasterMeter(null);
+      return;
+    }
+    
+    const intervalId = setInterval(() => {
+      setMasterMeter(audioEngine.getMasterMeter());
+    }, METER_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [isPlaying, audioEngine]);
+  
   // Toggle play/pause
   const handlePlayPause = () => {
     setIsPlaying(!isPlaying);
@@ -131,6 +150,10 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
   
   // Toggle edit mode
   const handleEditToggle = () => {
+    // Edits made in one go are grouped in the undo history
+    if (!isEditing) {
+      audioEngine.beginEditSession();
+    }
     setIsEditing(!isEditing);
     if (isPlaying) {
       setIsPlaying(false);
@@ -180,16 +203,22 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
     }, 1500);
   };
   
-  // Handle save
-  const handleSave = () => {
+  // Handle save: bounce the beat to a WAV file and report where it went
+  const handleSave = async () => {
     setIsSaving(true);
+    setSaveResult(null);
     
-    // Simulate API call
-    setTimeout(() => {
+    try {
+      const fileName = await audioEngine.bounceToFile({ tail: 2 }, `beat_${Date.now()}.wav`);
+      setSaveResult(fileName
+        ? { success: true, message: `Saved to your downloads as ${fileName}` }
+        : { success: false, message: 'Failed to save the beat. Please try again.' });
+    } catch (error) {
+      console.error('Failed to save beat:', error);
+      setSaveResult({ success: false, message: 'Failed to save the beat. Please try again.' });
+    } finally {
       setIsSaving(false);
-      // Show success message or navigate back
-      console.log('Beat saved successfully');
-    }, 1500);
+    }
   };
   
   return (
@@ -315,8 +344,12 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
               handleEffectsChange('delay', masterEffects.eq?.high || 0);
             }}
             onTempoTap={() => {
-              // Implement tempo tap functionality if needed
+              // The engine writes taps into the tempo automation while it plays
+              audioEngine.tempoTap();
+              setBpm(audioEngine.getBpm());
             }}
+            masterMeter={masterMeter}
+            effectsAvailable={audioEngine.isDspMixing()}
           />
         )}
         
@@ -326,6 +359,7 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
             icon="save-outline"
             onPress={handleSave}
             loading={isSaving}
+            disabled={isLoading || !audioEngine.canBounce()}
             style={styles.actionButton}
           />
           
@@ -339,6 +373,14 @@ const VisualizerScreen = ({ route }: { route: VisualizerScreenRouteProp }) => {
           />
         </View>
         
+        {!isLoading && !audioEngine.canBounce() && (
+          <Text style={styles.saveNotice}>Saving audio is only available in the web app for now</Text>
+        )}
+        
+        {saveResult && (
+          <Text style={[styles.saveNotice, !saveResult.success && styles.saveError]}>{saveResult.message}</Text>
+        )}
+        
         {isEditing && (
           <View style={styles.editingTipsCardContainer}>
             <LinearGradient
@@ -446,6 +488,15 @@ const styles = StyleSheet.create({
     marginHorizontal: 8,
     ...globalStyles.shadow,
   },
+  saveNotice: {
+    ...globalStyles.captionText,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  saveError: {
+    color: colors.error,
+  },
   editingTipsCardContainer: {
     marginTop: 24,
     marginBottom: 16,
@@ -0,0 +1,229 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { EnhancedBeatPattern, Step, Track, TrackEffects } from '../enhancedAudioEngine';
+import { PresetSamples, StemManifest, bounceProject, bounceStems, renderProject, renderStems } from '../bounce';
+import { SampleBuffer, StereoBuffer } from '../mixer';
+
+// A low rate keeps the renders quick
+const SAMPLE_RATE = 22050;
+
+// Rendering is slow inside the test environment
+const RENDER_TIMEOUT = 30000;
+
+// Decaying sine, long enough to overlap the next hit
+const createSample = (frequency: number, seconds: number): SampleBuffer => {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * Math.exp(-i / (SAMPLE_RATE * 0.1));
+  }
+  return { sampleRate: SAMPLE_RATE, channels: [data] };
+};
+
+const createStep = (active: boolean, details: Partial<Step> = {}): Step => ({
+  active,
+  velocity: 0.9,
+  probability: 1,
+  parameterLocks: [],
+  microTiming: 0,
+  ...details
+});
+
+const createEffects = (details: Partial<TrackEffects> = {}): TrackEffects => ({
+  filter: { type: 'lowpass', cutoff: 1, resonance: 0, envelope: 0 },
+  delay: { time: 0, feedback: 0, mix: 0 },
+  reverb: { size: 0, damping: 0.5, mix: 0 },
+  distortion: { amount: 0, tone: 0.5 },
+  ...details
+});
+
+const createTrack = (id: string, name: string, steps: Step[], details: Partial<Track> = {}): Track => ({
+  id,
+  name,
+  presetId: id,
+  steps,
+  mute: false,
+  solo: false,
+  volume: 0.8,
+  pan: 0,
+  effects: createEffects(),
+  ...details
+});
+
+// A kick and a delayed bass line, with probability steps so the seed matters
+const createProject = (seed: number = 42): EnhancedBeatPattern => ({
+  bpm: 140,
+  steps: 16,
+  seed,
+  masterEffects: {
+    limiter: 0.8,
+    compressor: { threshold: 0.7, ratio: 4, attack: 0.01, release: 0.2 },
+    eq: { low: 0, mid: 0, high: 0 }
+  },
+  tracks: [
+    createTrack('kick', 'Kick', Array.from({ length: 16 }, (_, i) => createStep(i % 4 === 0, { probability: 0.7 }))),
+    createTrack('bass', 'Bass', Array.from({ length: 16 }, (_, i) => createStep(i % 4 === 2, { note: 45, gateLength: 1 })), {
+      pan: -0.3,
+      effects: createEffects({
+        filter: { type: 'lowpass', cutoff: 0.4, resonance: 0.6, envelope: 0.5 },
+        delay: { time: 0.5, feedback: 0.5, mix: 0.4 }
+      })
+    })
+  ]
+});
+
+const samples: PresetSamples = {
+  kick: createSample(60, 1),
+  bass: createSample(110, 2)
+};
+
+// Frames of one bar at 140 BPM in 4/4
+const BAR_FRAMES = Math.round(4 * 60 / 140 * SAMPLE_RATE);
+
+const options = { sampleRate: SAMPLE_RATE, bars: 1, tail: 0.5 };
+
+// Master settings that leave the mix as it is, so the stems add up to it
+const NEUTRAL_MASTER = {
+  limiter: 0,
+  compressor: { threshold: 1, ratio: 1, attack: 0.01, release: 0.2 },
+  eq: { low: 0, mid: 0, high: 0 }
+};
+
+// Largest difference between two buffers of the same length
+const maxDifference = (a: StereoBuffer, b: StereoBuffer): number => {
+  let difference = 0;
+  for (let i = 0; i < a.left.length; i++) {
+    difference = Math.max(difference, Math.abs(a.left[i] - b.left[i]), Math.abs(a.right[i] - b.right[i]));
+  }
+  return difference;
+};
+
+// Contents of a stored (uncompressed) entry of a ZIP archive
+const readZipEntry = (zip: Uint8Array, name: string): Uint8Array | null => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    if (new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength)) === name) {
+      return zip.subarray(start, start + size);
+    }
+    offset = start + size;
+  }
+  return null;
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.setTimeout(RENDER_TIMEOUT);
+});
+
+describe('bounceProject', () => {
+  it('renders identical input to byte-identical WAV files', async () => {
+    const first = await bounceProject(createProject(), samples, options);
+    const second = await bounceProject(createProject(), samples, options);
+
+    expect(first.length).toBeGreaterThan(44);
+    expect(Buffer.from(second).equals(Buffer.from(first))).toBe(true);
+  });
+
+  it('follows the project seed for probability steps', async () => {
+    const first = await bounceProject(createProject(1), samples, { ...options, bars: 4, tail: 0 });
+    const second = await bounceProject(createProject(2), samples, { ...options, bars: 4, tail: 0 });
+
+    expect(Buffer.from(second).equals(Buffer.from(first))).toBe(false);
+  });
+
+  it('writes the requested bars and tail at 16 and 24 bits', async () => {
+    const frames = BAR_FRAMES + SAMPLE_RATE / 2;
+    const wav16 = await bounceProject(createProject(), samples, options);
+    const wav24 = await bounceProject(createProject(), samples, { ...options, bitDepth: 24 });
+
+    const view = new DataView(wav24.buffer);
+    expect(String.fromCharCode(...wav24.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint32(24, true)).toBe(SAMPLE_RATE);
+    expect(view.getUint16(34, true)).toBe(24);
+
+    expect(Math.abs((wav16.length - 44) / 4 - frames)).toBeLessThanOrEqual(1);
+    expect(Math.abs((wav24.length - 44) / 6 - frames)).toBeLessThanOrEqual(1);
+  });
+
+  it('leaves the input project untouched', async () => {
+    const project = createProject();
+    const copy = JSON.parse(JSON.stringify(project));
+    await renderProject(project, samples, options);
+
+    expect(project).toEqual(copy);
+  });
+
+  it('rejects invalid options', async () => {
+    await expect(bounceProject(createProject(), samples, { ...options, bars: 0 })).rejects.toThrow('Invalid bounce options');
+  });
+});
+
+describe('renderStems', () => {
+  it('renders sample-aligned stems as long as the mix that add up to it', async () => {
+    const project = { ...createProject(), masterEffects: NEUTRAL_MASTER };
+    project.tracks.forEach(track => { track.volume = 0.3; });
+    const mix = await renderProject(project, samples, options);
+    const { stems } = await renderStems(project, samples, { ...options, source: 'post', masterBus: false });
+
+    expect(stems.map(stem => stem.trackId)).toEqual(['kick', 'bass']);
+    stems.forEach(stem => {
+      expect(stem.audio.left.length).toBe(mix.left.length);
+      expect(stem.audio.right.length).toBe(mix.right.length);
+    });
+
+    const sum: StereoBuffer = { left: new Float32Array(mix.left.length), right: new Float32Array(mix.right.length) };
+    stems.forEach(stem => {
+      for (let i = 0; i < sum.left.length; i++) {
+        sum.left[i] += stem.audio.left[i];
+        sum.right[i] += stem.audio.right[i];
+      }
+    });
+    expect(maxDifference(sum, mix)).toBeLessThan(1e-4);
+  });
+
+  it('takes stems before or after the track effects', async () => {
+    const pre = await renderStems(createProject(), samples, { ...options, source: 'pre' });
+    const post = await renderStems(createProject(), samples, { ...options, source: 'post' });
+    const bass = (result: typeof pre) => result.stems.find(stem => stem.trackId === 'bass')!.audio;
+
+    expect(maxDifference(bass(pre), bass(post))).toBeGreaterThan(1e-3);
+  });
+
+  it('runs stems through the master bus on request', async () => {
+    const dry = await renderStems(createProject(), samples, { ...options, masterBus: false });
+    const mastered = await renderStems(createProject(), samples, { ...options, masterBus: true });
+
+    expect(mastered.stems.length).toBe(dry.stems.length);
+    expect(mastered.stems[0].audio.left.length).toBe(dry.stems[0].audio.left.length);
+    expect(mastered.stems.some((stem, i) => maxDifference(stem.audio, dry.stems[i].audio) > 1e-3)).toBe(true);
+  });
+});
+
+describe('bounceStems', () => {
+  it('writes a WAV per track and a manifest with tempo, key and length', async () => {
+    const project = { ...createProject(), key: { tonic: 9, scale: 'minor' as const } };
+    const zip = await bounceStems(project, samples, { ...options, source: 'pre' });
+    const manifestBytes = readZipEntry(zip, 'manifest.json');
+    expect(manifestBytes).not.toBeNull();
+
+    const manifest: StemManifest = JSON.parse(new TextDecoder().decode(manifestBytes!));
+    expect(manifest.bpm).toBe(140);
+    expect(manifest.key).toBe('A Minor');
+    expect(manifest.bars).toBe(1);
+    expect(Math.abs(manifest.frames - (BAR_FRAMES + SAMPLE_RATE / 2))).toBeLessThanOrEqual(1);
+    expect(manifest.duration).toBeCloseTo(manifest.frames / SAMPLE_RATE, 6);
+    expect(manifest.source).toBe('pre');
+    expect(manifest.stems).toEqual([
+      { file: 'Kick.wav', track: 'Kick', trackId: 'kick' },
+      { file: 'Bass.wav', track: 'Bass', trackId: 'bass' }
+    ]);
+
+    manifest.stems.forEach(stem => {
+      const wav = readZipEntry(zip, stem.file);
+      expect(wav).not.toBeNull();
+      expect((wav!.length - 44) / 4).toBe(manifest.frames);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { CommandHistory, HistoryCommand, COALESCE_WINDOW_MS, MAX_HISTORY_ENTRIES } from '../history';
+
+// A history on a hand-driven clock, editing a single value
+const createHistory = () => {
+  let now = 10000;
+  const state = { value: 0 };
+  const history = new CommandHistory(() => now);
+
+  // Set the value through the history
+  const set = (value: number, coalesceKey?: string): void => {
+    const previous = state.value;
+    history.execute({
+      label: `Set ${value}`,
+      undo: () => { state.value = previous; },
+      redo: () => { state.value = value; },
+      coalesceKey
+    });
+  };
+
+  const advance = (ms: number): void => {
+    now += ms;
+  };
+
+  return { history, state, set, advance };
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('CommandHistory', () => {
+  it('undoes and redoes commands in order', () => {
+    const { history, state, set } = createHistory();
+    set(1);
+    set(2);
+
+    expect(history.undo()).toBe('Set 2');
+    expect(state.value).toBe(1);
+    expect(history.undo()).toBe('Set 1');
+    expect(state.value).toBe(0);
+    expect(history.undo()).toBeNull();
+
+    expect(history.redo()).toBe('Set 1');
+    expect(history.redo()).toBe('Set 2');
+    expect(state.value).toBe(2);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('drops the redo stack on a new edit', () => {
+    const { history, state, set } = createHistory();
+    set(1);
+    history.undo();
+    set(3);
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBeNull();
+    expect(state.value).toBe(3);
+  });
+
+  it('merges quick edits with the same coalesce key into one entry', () => {
+    const { history, state, set, advance } = createHistory();
+    set(1, 'drag');
+    advance(100);
+    set(2, 'drag');
+    advance(100);
+    set(3, 'drag');
+
+    history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+
+    history.redo();
+    expect(state.value).toBe(3);
+  });
+
+  it('keeps edits apart with different keys or outside the coalesce window', () => {
+    const { history, state, set, advance } = createHistory();
+    set(1, 'volume');
+    set(2, 'pan');
+    advance(COALESCE_WINDOW_MS);
+    set(3, 'pan');
+
+    history.undo();
+    expect(state.value).toBe(2);
+    history.undo();
+    expect(state.value).toBe(1);
+    history.undo();
+    expect(state.value).toBe(0);
+  });
+
+  it('never merges a redone entry with the next edit', () => {
+    const { history, state, set } = createHistory();
+    set(1, 'drag');
+    history.undo();
+    history.redo();
+    set(2, 'drag');
+
+    history.undo();
+    expect(state.value).toBe(1);
+  });
+
+  it('undoes and redoes whole editing sessions', () => {
+    const { history, state, set } = createHistory();
+    set(1);
+    history.beginSession();
+    set(2);
+    set(3);
+
+    expect(history.undoSession()).toBe(2);
+    expect(state.value).toBe(1);
+    expect(history.redoSession()).toBe(2);
+    expect(state.value).toBe(3);
+  });
+
+  it('never merges edits across sessions', () => {
+    const { history, state, set } = createHistory();
+    set(1, 'drag');
+    history.beginSession();
+    set(2, 'drag');
+
+    expect(history.undoSession()).toBe(1);
+    expect(state.value).toBe(1);
+  });
+
+  it('keeps the history going when a command fails', () => {
+    const { history, state, set } = createHistory();
+    set(1);
+    const failing: HistoryCommand = {
+      label: 'Broken',
+      undo: () => { throw new Error('undo failed'); },
+      redo: () => {}
+    };
+    history.push(failing);
+
+    expect(history.undo()).toBe('Broken');
+    expect(history.undo()).toBe('Set 1');
+    expect(state.value).toBe(0);
+  });
+
+  it('forgets the oldest entries past the limit', () => {
+    const { history, set } = createHistory();
+    for (let i = 1; i <= MAX_HISTORY_ENTRIES + 5; i++) {
+      set(i);
+    }
+
+    let undone = 0;
+    while (history.undo()) {
+      undone++;
+    }
+    expect(undone).toBe(MAX_HISTORY_ENTRIES);
+  });
+});
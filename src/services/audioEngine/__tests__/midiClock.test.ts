@@ -0,0 +1,225 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import {
+  MidiClockMessage,
+  MidiClockSmoother,
+  MockMidiTransport,
+  PULSES_PER_STEP,
+  encodeMidiClockMessage,
+  decodeMidiClockMessage
+} from '../midiClock';
+import { Sequencer, SequencerEvent } from '../sequencer';
+import { SeededRandom } from '../random';
+
+// Sixteenth notes at 120 BPM
+const STEP_MS = 125;
+
+// An offline sequencer following a mock MIDI port
+// The sequencer plays up to the time of every incoming message before handling it,
+// like a realtime sequencer would have by then.
+const createFollower = () => {
+  const sequencer = new Sequencer({ bpm: 120, totalSteps: 16, offline: true });
+  const transport = new MockMidiTransport();
+  transport.addListener((_, time) => sequencer.runUntil(time));
+  sequencer.setClockSource('follower', transport);
+
+  const events: SequencerEvent[] = [];
+  const heard: { step: number; time: number }[] = [];
+  sequencer.addEventListener(event => {
+    events.push(event);
+    if (event.type === 'step' && event.trackSteps) {
+      heard.push({ step: event.step, time: sequencer.now() });
+    }
+  });
+
+  return { sequencer, transport, events, heard };
+};
+
+// Offline sequencer leading a mock MIDI port
+const createLeader = () => {
+  const sequencer = new Sequencer({ bpm: 120, totalSteps: 16, offline: true });
+  const transport = new MockMidiTransport();
+
+  const heard: { step: number; time: number }[] = [];
+  sequencer.addEventListener(event => {
+    if (event.type === 'step' && event.trackSteps) {
+      heard.push({ step: event.step, time: sequencer.now() });
+    }
+  });
+
+  return { sequencer, transport, heard };
+};
+
+const sentTypes = (transport: MockMidiTransport): MidiClockMessage['type'][] => transport.sent.map(({ message }) => message.type);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('MIDI clock messages', () => {
+  it('encode and decode every clock message', () => {
+    const messages: MidiClockMessage[] = [
+      { type: 'clock' },
+      { type: 'start' },
+      { type: 'continue' },
+      { type: 'stop' },
+      { type: 'songPosition', position: 1000 }
+    ];
+
+    messages.forEach(message => {
+      expect(decodeMidiClockMessage(encodeMidiClockMessage(message))).toEqual(message);
+    });
+    expect(encodeMidiClockMessage({ type: 'songPosition', position: 1000 })).toEqual([0xf2, 0x68, 0x07]);
+  });
+
+  it('ignores other MIDI messages', () => {
+    expect(decodeMidiClockMessage([0x90, 60, 100])).toBeNull();
+    expect(decodeMidiClockMessage([0xf2, 0x01])).toBeNull();
+  });
+});
+
+describe('MidiClockSmoother', () => {
+  it('waits for a step of pulses before estimating the tempo', () => {
+    const smoother = new MidiClockSmoother();
+    for (let pulse = 0; pulse < PULSES_PER_STEP - 1; pulse++) {
+      expect(smoother.addPulse(pulse * 20)).toBeNull();
+    }
+    expect(smoother.addPulse((PULSES_PER_STEP - 1) * 20)).toBe(125);
+  });
+
+  it('converges on the tempo of jittered pulses', () => {
+    const smoother = new MidiClockSmoother();
+    const transport = new MockMidiTransport();
+    const random = new SeededRandom(42);
+    let bpm: number | null = null;
+    transport.addListener((_, time) => {
+      bpm = smoother.addPulse(time);
+    });
+
+    // USB MIDI jitter of a few ms on every pulse
+    transport.receivePulses(123.4, 96, 1000, 3, () => random.next());
+    expect(bpm).not.toBeNull();
+    expect(Math.abs(bpm! - 123.4)).toBeLessThan(0.5);
+  });
+});
+
+describe('Sequencer following MIDI clock', () => {
+  it('plays from step 0 on Start and skips the count-in', () => {
+    const { sequencer, transport, events, heard } = createFollower();
+    sequencer.setCountIn(1);
+    sequencer.seek(5);
+
+    transport.receive({ type: 'start' }, 1000);
+    transport.receivePulses(120, 4 * PULSES_PER_STEP, 1000);
+
+    expect(events.some(event => event.type === 'countIn')).toBe(false);
+    expect(heard.map(({ step }) => step)).toEqual([0, 1, 2, 3]);
+    expect(heard[0].time).toBe(1000);
+    expect(events.find(event => event.type === 'transport')?.playing).toBe(true);
+  });
+
+  it('keeps the position on Stop and resumes from it on Continue', () => {
+    const { sequencer, transport, heard } = createFollower();
+    transport.receive({ type: 'start' }, 1000);
+    const end = transport.receivePulses(120, 5 * PULSES_PER_STEP, 1000);
+    transport.receive({ type: 'stop' }, end - 10);
+
+    expect(sequencer.isPlaybackActive()).toBe(false);
+    expect(sequencer.getCurrentStep()).toBe(4);
+
+    heard.length = 0;
+    transport.receive({ type: 'continue' }, 3000);
+    transport.receivePulses(120, 2 * PULSES_PER_STEP, 3000);
+
+    expect(sequencer.isPlaybackActive()).toBe(true);
+    expect(heard.map(({ step }) => step)).toEqual([5, 6]);
+  });
+
+  it('applies Song Position only while stopped, wrapped to the pattern length', () => {
+    const { sequencer, transport, heard } = createFollower();
+    transport.receive({ type: 'songPosition', position: 20 }, 500);
+    expect(sequencer.getCurrentStep()).toBe(4);
+
+    // Ignored while playing
+    transport.receive({ type: 'start' }, 1000);
+    transport.receivePulses(120, 2 * PULSES_PER_STEP, 1000);
+    transport.receive({ type: 'songPosition', position: 8 }, 1000 + 2 * STEP_MS - 10);
+    expect(sequencer.getCurrentStep()).toBe(1);
+
+    // Applied while stopped by the leading device
+    transport.receive({ type: 'stop' }, 1000 + 2 * STEP_MS - 5);
+    transport.receive({ type: 'songPosition', position: 10 }, 2000);
+    expect(sequencer.getCurrentStep()).toBe(10);
+
+    heard.length = 0;
+    transport.receive({ type: 'continue' }, 3000);
+    transport.receivePulses(120, 2 * PULSES_PER_STEP, 3000);
+    expect(heard.map(({ step }) => step)).toEqual([10, 11]);
+  });
+
+  it('follows the tempo of jittered pulses', () => {
+    const { sequencer, transport, heard } = createFollower();
+    const random = new SeededRandom(7);
+    transport.receive({ type: 'start' }, 1000);
+    transport.receivePulses(100, 16 * PULSES_PER_STEP, 1000, 2, () => random.next());
+
+    // Sixteenth notes at 100 BPM are 150 ms apart
+    expect(Math.abs(sequencer.getCurrentBpm() - 100)).toBeLessThan(0.5);
+    const last = heard[heard.length - 1];
+    const previous = heard[heard.length - 2];
+    expect(Math.abs(last.time - previous.time - 150)).toBeLessThan(2);
+  });
+});
+
+describe('Sequencer leading MIDI clock', () => {
+  it('sends Start and six clock pulses per step', () => {
+    const { sequencer, transport } = createLeader();
+    sequencer.setClockSource('leader', transport);
+    sequencer.play();
+    sequencer.runUntil(1000);
+
+    const types = sentTypes(transport);
+    expect(types[0]).toBe('start');
+    expect(types.slice(1).every(type => type === 'clock')).toBe(true);
+    expect((types.length - 1) % PULSES_PER_STEP).toBe(0);
+
+    const times = transport.sent.slice(1).map(({ time }) => time);
+    times.slice(1).forEach((time, i) => {
+      expect(time - times[i]).toBeCloseTo(STEP_MS / PULSES_PER_STEP, 6);
+    });
+    expect(transport.sent[0].time).toBe(times[0]);
+  });
+
+  it('sends Song Position and Continue when taking the lead mid-song', () => {
+    const { sequencer, transport, heard } = createLeader();
+    sequencer.play();
+    sequencer.runUntil(1000);
+    sequencer.setClockSource('leader', transport);
+    sequencer.runUntil(2000);
+
+    const [position, resume, ...pulses] = transport.sent;
+    expect(position.message.type).toBe('songPosition');
+    expect(resume.message.type).toBe('continue');
+    expect(pulses.length % PULSES_PER_STEP).toBe(0);
+    expect(pulses.every(({ message }) => message.type === 'clock')).toBe(true);
+
+    // The follower picks up on the step heard with the first pulse
+    const firstStep = heard.find(({ time }) => time === resume.time);
+    expect(firstStep).toBeDefined();
+    expect(position.message).toEqual({ type: 'songPosition', position: firstStep!.step });
+    expect(pulses[0].time).toBe(resume.time);
+  });
+
+  it('stops the follower when playback stops', () => {
+    const { sequencer, transport } = createLeader();
+    sequencer.setClockSource('leader', transport);
+    sequencer.play();
+    sequencer.runUntil(500);
+    transport.clearSent();
+    sequencer.stop();
+
+    expect(transport.sent.map(({ message }) => message)).toEqual([
+      { type: 'stop' },
+      { type: 'songPosition', position: 0 }
+    ]);
+  });
+});
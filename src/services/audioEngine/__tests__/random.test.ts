@@ -0,0 +1,137 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { SeededRandom } from '../random';
+import { Sequencer } from '../sequencer';
+import { DspMixer } from '../mixer';
+import { Track } from '../enhancedAudioEngine';
+
+// First values of the reference mulberry32 implementation for seed 42
+const SEED_42_SEQUENCE = [0.6011037519201636, 0.44829055899754167, 0.8524657934904099, 0.6697340414393693];
+
+// Sixteenth notes at 120 BPM
+const STEP_MS = 125;
+
+const take = (random: SeededRandom, count: number): number[] => Array.from({ length: count }, () => random.next());
+
+// A hi-hat with a coin toss on every step of a one-bar pattern
+const createHatTrack = (): Track => ({
+  id: 'hat',
+  name: 'Hat',
+  presetId: 'hat',
+  steps: Array.from({ length: 16 }, () => ({
+    active: true,
+    velocity: 0.8,
+    probability: 0.5,
+    parameterLocks: [],
+    microTiming: 0
+  })),
+  mute: false,
+  solo: false,
+  volume: 0.8,
+  pan: 0,
+  effects: {
+    filter: { type: 'lowpass', cutoff: 1, resonance: 0, envelope: 0 },
+    delay: { time: 0, feedback: 0, mix: 0 },
+    reverb: { size: 0, damping: 0.5, mix: 0 },
+    distortion: { amount: 0, tone: 0.5 }
+  }
+});
+
+// Steps the mixer was asked to play in each loop of the pattern
+// Hits reach the mixer a lookahead early, so the ones past the last loop are left out.
+const playLoops = async (randomLock: boolean, loops: number): Promise<number[][]> => {
+  const sequencer = new Sequencer({ bpm: 120, totalSteps: 16, offline: true }, new SeededRandom(42));
+  const mixer = new DspMixer(22050, () => sequencer.now());
+  const hits: number[][] = Array.from({ length: loops }, () => []);
+  jest.spyOn(mixer, 'trigger').mockImplementation((_, time) => {
+    const step = Math.round(time / STEP_MS);
+    hits[Math.floor(step / 16)]?.push(step % 16);
+  });
+
+  sequencer.setTracks([createHatTrack()]);
+  mixer.setTrackSample('hat', { sampleRate: 22050, channels: [new Float32Array(100)] });
+  await sequencer.setDspMixer(mixer);
+  sequencer.setRandomLock(randomLock);
+
+  sequencer.play(0);
+  sequencer.runUntil(loops * 16 * STEP_MS - 1);
+  sequencer.cleanup();
+  return hits;
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('SeededRandom', () => {
+  it('produces the mulberry32 sequence of its seed', () => {
+    expect(take(new SeededRandom(42), 4)).toEqual(SEED_42_SEQUENCE);
+  });
+
+  it('gives different seeds different sequences', () => {
+    expect(take(new SeededRandom(1), 8)).not.toEqual(take(new SeededRandom(2), 8));
+  });
+
+  it('restarts the sequence on reset', () => {
+    const random = new SeededRandom(42);
+    take(random, 10);
+    random.reset();
+
+    expect(take(random, 4)).toEqual(SEED_42_SEQUENCE);
+  });
+
+  it('switches to a new seed on reset with a seed', () => {
+    const random = new SeededRandom(7);
+    random.reset(42);
+
+    expect(random.getSeed()).toBe(42);
+    expect(take(random, 4)).toEqual(SEED_42_SEQUENCE);
+  });
+
+  it('stores seeds as unsigned 32-bit integers', () => {
+    expect(new SeededRandom(-1).getSeed()).toBe(0xffffffff);
+    expect(new SeededRandom(2 ** 32 + 42).getSeed()).toBe(42);
+  });
+
+  it('keeps integers in range', () => {
+    const random = new SeededRandom(3);
+    const values = Array.from({ length: 1000 }, () => random.nextInt(6));
+
+    expect(values.every(value => Number.isInteger(value) && value >= 0 && value < 6)).toBe(true);
+    expect(new Set(values).size).toBe(6);
+  });
+
+  it('shuffles a copy the same way for the same seed', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const first = new SeededRandom(42).shuffle(items);
+    const second = new SeededRandom(42).shuffle(items);
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(second).toEqual(first);
+    expect([...first].sort()).toEqual(items);
+  });
+});
+
+describe('Sequencer random lock', () => {
+  it('replays the same probability hits every loop when locked', async () => {
+    const loops = await playLoops(true, 3);
+
+    expect(loops[0].length).toBeGreaterThan(0);
+    expect(loops[0].length).toBeLessThan(16);
+    expect(loops[1]).toEqual(loops[0]);
+    expect(loops[2]).toEqual(loops[0]);
+  });
+
+  it('keeps drawing new hits every loop when unlocked', async () => {
+    const loops = await playLoops(false, 3);
+
+    expect(loops[1]).not.toEqual(loops[0]);
+    expect(loops[2]).not.toEqual(loops[1]);
+  });
+
+  it('hears the same first loop from stop either way', async () => {
+    const locked = await playLoops(true, 1);
+    const unlocked = await playLoops(false, 1);
+
+    expect(unlocked[0]).toEqual(locked[0]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals';
+import { Step } from '../enhancedAudioEngine';
+import {
+  RhythmFill,
+  bjorklund,
+  euclidean,
+  grouping,
+  generateRhythm,
+  isValidRhythmPattern,
+  createRhythmSteps,
+  formatRhythmPattern
+} from '../rhythm';
+
+// Hits as "x" and rests as "."
+const toText = (hits: boolean[]): string => hits.map(hit => (hit ? 'x' : '.')).join('');
+
+const createSteps = (length: number): Step[] => Array.from({ length }, () => ({
+  active: false,
+  velocity: 0.8,
+  probability: 1,
+  parameterLocks: [],
+  microTiming: 0
+}));
+
+describe('bjorklund', () => {
+  it('spreads hits like the classic Euclidean rhythms', () => {
+    expect(toText(bjorklund(3, 8))).toBe('x..x..x.');
+    expect(toText(bjorklund(5, 8))).toBe('x.xx.xx.');
+    expect(toText(bjorklund(7, 16))).toBe('x..x.x.x..x.x.x.');
+    expect(toText(bjorklund(4, 12))).toBe('x..x..x..x..');
+  });
+
+  it('handles no hits and all hits', () => {
+    expect(toText(bjorklund(0, 4))).toBe('....');
+    expect(toText(bjorklund(4, 4))).toBe('xxxx');
+  });
+});
+
+describe('euclidean', () => {
+  it('rotates later for positive and earlier for negative rotations', () => {
+    expect(toText(euclidean(3, 8, 1))).toBe('.x..x..x');
+    expect(toText(euclidean(3, 8, -1))).toBe('..x..x.x');
+    expect(toText(euclidean(3, 8, 8))).toBe('x..x..x.');
+  });
+
+  it('swaps hits and rests for the inverse variant', () => {
+    expect(toText(euclidean(3, 8, 0, 'inverse'))).toBe('.xx.xx.x');
+  });
+
+  it('keeps the hit count with the Bresenham variant', () => {
+    const hits = euclidean(5, 16, 0, 'bresenham');
+    expect(hits.length).toBe(16);
+    expect(hits.filter(Boolean).length).toBe(5);
+  });
+});
+
+describe('generateRhythm', () => {
+  it('repeats a cycle over tracks of any length', () => {
+    const pattern = { type: 'euclidean' as const, hits: 3, steps: 8, rotation: 0, variant: 'bjorklund' as const };
+    expect(toText(generateRhythm(pattern, 12))).toBe('x..x..x.x..x');
+  });
+
+  it('places a hit at the start of each group', () => {
+    expect(toText(grouping([3, 3, 2]))).toBe('x..x..x.');
+    expect(toText(generateRhythm({ type: 'grouping', groups: [2, 3], rotation: 1 }, 5))).toBe('.x.x.');
+  });
+
+  it('places a hit on every Nth step from an offset', () => {
+    expect(toText(generateRhythm({ type: 'everyNth', every: 4, offset: 1 }, 8))).toBe('.x...x..');
+    expect(toText(generateRhythm({ type: 'everyNth', every: 3, offset: -1 }, 6))).toBe('..x..x');
+  });
+});
+
+describe('isValidRhythmPattern', () => {
+  it('rejects more hits than steps and empty groups', () => {
+    expect(isValidRhythmPattern({ type: 'euclidean', hits: 9, steps: 8, rotation: 0, variant: 'bjorklund' })).toBe(false);
+    expect(isValidRhythmPattern({ type: 'grouping', groups: [], rotation: 0 })).toBe(false);
+    expect(isValidRhythmPattern({ type: 'everyNth', every: 0, offset: 0 })).toBe(false);
+  });
+});
+
+describe('createRhythmSteps', () => {
+  const fill: RhythmFill = {
+    pattern: { type: 'euclidean', hits: 3, steps: 8, rotation: 0, variant: 'bjorklund' },
+    accent: { type: 'everyNth', every: 8, offset: 0 },
+    velocity: 0.6,
+    mode: 'replace'
+  };
+
+  it('replaces the steps with the rhythm and accents', () => {
+    const steps = createSteps(8);
+    steps[1].active = true;
+    const result = createRhythmSteps(steps, fill);
+
+    expect(toText(result.map(step => step.active))).toBe('x..x..x.');
+    expect(result.filter(step => step.active).map(step => step.velocity)).toEqual([1, 0.6, 0.6]);
+    expect(steps[1].active).toBe(true);
+  });
+
+  it('keeps the existing hits when merging', () => {
+    const steps = createSteps(8);
+    steps[1].active = true;
+    const result = createRhythmSteps(steps, { ...fill, mode: 'merge' });
+
+    expect(toText(result.map(step => step.active))).toBe('xx.x..x.');
+  });
+});
+
+describe('formatRhythmPattern', () => {
+  it('labels patterns the way the generator shows them', () => {
+    expect(formatRhythmPattern({ type: 'euclidean', hits: 3, steps: 8, rotation: 2, variant: 'bjorklund' })).toBe('E(3,8)+2');
+    expect(formatRhythmPattern({ type: 'euclidean', hits: 3, steps: 8, rotation: 0, variant: 'inverse' })).toBe('~E(3,8)');
+    expect(formatRhythmPattern({ type: 'grouping', groups: [3, 3, 2], rotation: 0 })).toBe('3-3-2');
+    expect(formatRhythmPattern({ type: 'everyNth', every: 4, offset: 1 })).toBe('Every 4 +1');
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LookaheadScheduler, TickCallback } from '../scheduler';
+
+// Sixteenth notes at 120 BPM
+const TICK_MS = 125;
+
+describe('LookaheadScheduler', () => {
+  let start = 0;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    start = Date.now();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createScheduler = (onTick: TickCallback, getTickDuration: (tick: number) => number = () => TICK_MS) => {
+    return new LookaheadScheduler(onTick, getTickDuration, { clock: () => Date.now() });
+  };
+
+  it('queues every tick inside the lookahead window with its absolute time', () => {
+    const ticks: number[][] = [];
+    const scheduler = createScheduler((tick, time) => ticks.push([tick, time - start]));
+    scheduler.start(0, start + 50);
+    expect(ticks).toEqual([[0, 50]]);
+
+    jest.advanceTimersByTime(500);
+    scheduler.stop();
+    expect(ticks).toEqual([[0, 50], [1, 175], [2, 300], [3, 425], [4, 550]]);
+  });
+
+  it('asks for the duration of each tick as it is queued', () => {
+    const times: number[] = [];
+    const scheduler = createScheduler((_, time) => times.push(time - start), tick => (tick + 1) * 100);
+    scheduler.start(0, start);
+
+    jest.advanceTimersByTime(600);
+    scheduler.stop();
+    expect(times).toEqual([0, 100, 300, 600]);
+  });
+
+  it('runs events in time order at their own timestamps', () => {
+    const heard: string[] = [];
+    const scheduler = createScheduler((tick, time) => {
+      scheduler.schedule(time + 60, eventTime => heard.push(`late ${tick} ${eventTime - start} ${Date.now() - start}`));
+      scheduler.schedule(time, eventTime => heard.push(`hit ${tick} ${eventTime - start} ${Date.now() - start}`));
+    });
+    scheduler.start(0, start + 50);
+
+    jest.advanceTimersByTime(300);
+    scheduler.stop();
+    expect(heard).toEqual([
+      'hit 0 50 50',
+      'late 0 110 110',
+      'hit 1 175 175',
+      'late 1 235 235',
+      'hit 2 300 300'
+    ]);
+  });
+
+  it('drops queued events on stop', () => {
+    const callback = jest.fn();
+    const scheduler = createScheduler(() => {});
+    scheduler.start(0, start + 1000);
+    scheduler.schedule(start + 50, callback);
+    scheduler.schedule(start + 500, callback);
+    scheduler.stop();
+
+    jest.advanceTimersByTime(1000);
+    expect(callback).not.toHaveBeenCalled();
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it('keeps running when a callback throws', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const ticks: number[] = [];
+    const scheduler = createScheduler(tick => {
+      ticks.push(tick);
+      if (tick === 0) throw new Error('tick failed');
+    });
+    scheduler.start(0, start);
+
+    jest.advanceTimersByTime(200);
+    scheduler.stop();
+    expect(ticks).toEqual([0, 1, 2]);
+  });
+
+  it('moves the ticks that are not queued yet on shift', () => {
+    const times: number[] = [];
+    const scheduler = createScheduler((_, time) => times.push(time - start));
+    scheduler.start(0, start + 50);
+    scheduler.shift(10);
+    expect(scheduler.getNextTickTime() - start).toBe(185);
+
+    jest.advanceTimersByTime(300);
+    scheduler.stop();
+    expect(times).toEqual([50, 185, 310]);
+  });
+});
+
+describe('manual LookaheadScheduler', () => {
+  const createManualScheduler = (onTick: TickCallback) => {
+    return new LookaheadScheduler(onTick, () => TICK_MS, { manual: true });
+  };
+
+  it('queues ticks a lookahead ahead and runs events at their time, in order', () => {
+    const heard: string[] = [];
+    const scheduler = createManualScheduler((tick, time) => {
+      heard.push(`tick ${tick} at ${scheduler.now()}`);
+      scheduler.schedule(time + 60, eventTime => heard.push(`late ${tick} at ${scheduler.now()} for ${eventTime}`));
+      scheduler.schedule(time, eventTime => heard.push(`hit ${tick} at ${scheduler.now()} for ${eventTime}`));
+    });
+    scheduler.start(0, 100);
+    expect(heard).toEqual([]);
+
+    scheduler.runUntil(350);
+    expect(heard).toEqual([
+      'tick 0 at 0',
+      'hit 0 at 100 for 100',
+      'tick 1 at 125',
+      'late 0 at 160 for 160',
+      'hit 1 at 225 for 225',
+      'tick 2 at 250',
+      'late 1 at 285 for 285'
+    ]);
+    expect(scheduler.now()).toBe(350);
+  });
+
+  it('renders the same way in one run or in blocks', () => {
+    const run = (blocks: number[]): number[] => {
+      const times: number[] = [];
+      const scheduler = createManualScheduler((_, time) => {
+        scheduler.schedule(time + 30, eventTime => times.push(eventTime));
+      });
+      scheduler.start(0, 0);
+      blocks.forEach(time => scheduler.runUntil(time));
+      return times;
+    };
+
+    expect(run([1000])).toEqual(run([10, 137, 500, 501, 1000]));
+  });
+
+  it('only runs by hand', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const realtime = new LookaheadScheduler(() => {}, () => TICK_MS);
+    realtime.runUntil(1000);
+
+    expect(console.warn).toHaveBeenCalledWith('runUntil only drives a manual scheduler');
+  });
+});
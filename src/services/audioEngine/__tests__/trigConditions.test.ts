@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  TrigCondition,
+  TrigConditionContext,
+  TRIG_CONDITIONS,
+  evaluateTrigCondition,
+  isValidTrigCondition,
+  formatTrigCondition
+} from '../trigConditions';
+
+const context = (details: Partial<TrigConditionContext> = {}): TrigConditionContext => ({
+  cycle: 0,
+  fill: false,
+  previous: null,
+  neighbor: null,
+  ...details
+});
+
+// Loop cycles (out of the first eight) a condition plays on
+const playedCycles = (condition: TrigCondition): number[] => {
+  return Array.from({ length: 8 }, (_, cycle) => cycle)
+    .filter(cycle => evaluateTrigCondition(condition, context({ cycle })));
+};
+
+describe('evaluateTrigCondition', () => {
+  it('plays ratio conditions on the a-th of every b cycles', () => {
+    expect(playedCycles({ type: 'ratio', a: 1, b: 2 })).toEqual([0, 2, 4, 6]);
+    expect(playedCycles({ type: 'ratio', a: 2, b: 2 })).toEqual([1, 3, 5, 7]);
+    expect(playedCycles({ type: 'ratio', a: 2, b: 4 })).toEqual([1, 5]);
+    expect(playedCycles({ type: 'ratio', a: 3, b: 3 })).toEqual([2, 5]);
+    expect(playedCycles({ type: 'ratio', a: 1, b: 1 })).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('plays FIRST only on the first cycle', () => {
+    expect(playedCycles({ type: 'first' })).toEqual([0]);
+    expect(playedCycles({ type: 'notFirst' })).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('follows the fill state', () => {
+    expect(evaluateTrigCondition({ type: 'fill' }, context({ fill: true }))).toBe(true);
+    expect(evaluateTrigCondition({ type: 'fill' }, context())).toBe(false);
+    expect(evaluateTrigCondition({ type: 'notFill' }, context({ fill: true }))).toBe(false);
+    expect(evaluateTrigCondition({ type: 'notFill' }, context())).toBe(true);
+  });
+
+  it('follows the previous conditional step on the track with PRE', () => {
+    // A 1:2 step followed by a PRE and a !PRE step on the same track
+    const played = Array.from({ length: 4 }, (_, cycle) => {
+      const ratio = evaluateTrigCondition({ type: 'ratio', a: 1, b: 2 }, context({ cycle }));
+      return [
+        ratio,
+        evaluateTrigCondition({ type: 'pre' }, context({ cycle, previous: ratio })),
+        evaluateTrigCondition({ type: 'notPre' }, context({ cycle, previous: ratio }))
+      ];
+    });
+
+    expect(played).toEqual([
+      [true, true, false],
+      [false, false, true],
+      [true, true, false],
+      [false, false, true]
+    ]);
+  });
+
+  it('follows the neighbor track with NEI', () => {
+    // The neighbor plays a 2:3 step; this track follows it with NEI and !NEI
+    const played = Array.from({ length: 6 }, (_, cycle) => {
+      const neighbor = evaluateTrigCondition({ type: 'ratio', a: 2, b: 3 }, context({ cycle }));
+      return [
+        evaluateTrigCondition({ type: 'nei' }, context({ cycle, neighbor })),
+        evaluateTrigCondition({ type: 'notNei' }, context({ cycle, neighbor }))
+      ];
+    });
+
+    expect(played.map(([nei]) => nei)).toEqual([false, true, false, false, true, false]);
+    expect(played.every(([nei, notNei]) => nei !== notNei)).toBe(true);
+  });
+
+  it('treats a missing PRE or NEI result as not played', () => {
+    expect(evaluateTrigCondition({ type: 'pre' }, context())).toBe(false);
+    expect(evaluateTrigCondition({ type: 'notPre' }, context())).toBe(true);
+    expect(evaluateTrigCondition({ type: 'nei' }, context())).toBe(false);
+    expect(evaluateTrigCondition({ type: 'notNei' }, context())).toBe(true);
+  });
+});
+
+describe('isValidTrigCondition', () => {
+  it('accepts ratios from 1:1 to 8:8', () => {
+    expect(isValidTrigCondition({ type: 'ratio', a: 1, b: 1 })).toBe(true);
+    expect(isValidTrigCondition({ type: 'ratio', a: 8, b: 8 })).toBe(true);
+  });
+
+  it('rejects malformed ratios', () => {
+    expect(isValidTrigCondition({ type: 'ratio', a: 0, b: 2 })).toBe(false);
+    expect(isValidTrigCondition({ type: 'ratio', a: 3, b: 2 })).toBe(false);
+    expect(isValidTrigCondition({ type: 'ratio', a: 1, b: 9 })).toBe(false);
+    expect(isValidTrigCondition({ type: 'ratio', a: 1.5, b: 2 })).toBe(false);
+  });
+});
+
+describe('TRIG_CONDITIONS', () => {
+  it('lists every condition once with a distinct label', () => {
+    const labels = TRIG_CONDITIONS.map(formatTrigCondition);
+
+    expect(TRIG_CONDITIONS.every(isValidTrigCondition)).toBe(true);
+    expect(new Set(labels).size).toBe(labels.length);
+    expect(labels).toContain('1:2');
+    expect(labels).toContain('8:8');
+    expect(labels).toContain('!PRE');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { crc32, createZip, textToBytes } from '../zip';
+
+const entries = () => [
+  { name: 'Kick.wav', data: new Uint8Array([1, 2, 3, 4]) },
+  { name: 'Bass ä.wav', data: new Uint8Array(0) },
+  { name: 'manifest.json', data: textToBytes('{"bpm":120}') }
+];
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(textToBytes('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('is zero for no data', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('writes only the end record for an empty archive', () => {
+    const zip = createZip([]);
+    const view = new DataView(zip.buffer);
+
+    expect(zip.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+    expect(view.getUint16(10, true)).toBe(0);
+  });
+
+  it('stores every entry with its name, size and CRC', () => {
+    const zip = createZip(entries());
+    const view = new DataView(zip.buffer);
+    let offset = 0;
+
+    entries().forEach(entry => {
+      const name = textToBytes(entry.name);
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      expect(view.getUint16(offset + 6, true)).toBe(0x0800);
+      expect(view.getUint16(offset + 8, true)).toBe(0);
+      expect(view.getUint32(offset + 14, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(offset + 18, true)).toBe(entry.data.length);
+      expect(view.getUint16(offset + 26, true)).toBe(name.length);
+      expect(Array.from(zip.subarray(offset + 30, offset + 30 + name.length))).toEqual(Array.from(name));
+
+      const start = offset + 30 + name.length;
+      expect(Array.from(zip.subarray(start, start + entry.data.length))).toEqual(Array.from(entry.data));
+      offset = start + entry.data.length;
+    });
+
+    // The central directory lists the entries and the end record points at it
+    const end = zip.length - 22;
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(3);
+    expect(view.getUint32(end + 12, true)).toBe(end - offset);
+    expect(view.getUint32(end + 16, true)).toBe(offset);
+  });
+
+  it('packs the same files to the same bytes', () => {
+    expect(Buffer.from(createZip(entries())).equals(Buffer.from(createZip(entries())))).toBe(true);
+  });
+});
@@ -0,0 +1,221 @@
+import { Track, TrackEffects, ParameterLock } from './enhancedAudioEngine';
+
+// Parameter automation lanes
+// A lane automates one track effect parameter with breakpoints placed on track
+// steps (fractional steps sit between two steps). Each point sets the shape of the
+// segment towards the next point, and the last segment wraps around to the first
+// point so the lane loops with the track. Parameter locks on active steps override
+// the lane for their step: a sliding lock glides into its value over the step, and
+// a latched lane holds the last locked value until the next lock instead of
+// returning to the lane.
+
+type AutomationParameter =
+  | 'filter.cutoff'
+  | 'filter.resonance'
+  | 'filter.envelope'
+  | 'delay.time'
+  | 'delay.feedback'
+  | 'delay.mix'
+  | 'reverb.size'
+  | 'reverb.damping'
+  | 'reverb.mix'
+  | 'distortion.amount'
+  | 'distortion.tone';
+
+type AutomationCurve = 'linear' | 'exponential' | 'hold';
+
+interface AutomationPoint {
+  step: number; // Track step, fractional values fall between steps
+  value: number; // 0-1
+  curve: AutomationCurve; // Shape of the segment towards the next point
+}
+
+interface AutomationLane {
+  parameter: AutomationParameter;
+  points: AutomationPoint[];
+  latch: boolean; // Hold locked values until the next lock
+}
+
+// Automatable parameters with their display labels
+const AUTOMATION_PARAMETERS: { id: AutomationParameter; label: string }[] = [
+  { id: 'filter.cutoff', label: 'Cutoff' },
+  { id: 'filter.resonance', label: 'Resonance' },
+  { id: 'filter.envelope', label: 'Env Amount' },
+  { id: 'delay.time', label: 'Delay Time' },
+  { id: 'delay.feedback', label: 'Feedback' },
+  { id: 'delay.mix', label: 'Delay Mix' },
+  { id: 'reverb.size', label: 'Reverb Size' },
+  { id: 'reverb.damping', label: 'Damping' },
+  { id: 'reverb.mix', label: 'Reverb Mix' },
+  { id: 'distortion.amount', label: 'Drive' },
+  { id: 'distortion.tone', label: 'Tone' }
+];
+
+// Older parameter lock ids that address a whole effect
+const PARAMETER_ALIASES: { [parameterId: string]: AutomationParameter } = {
+  filter: 'filter.cutoff',
+  delay: 'delay.mix'
+};
+
+// Automation updates per track step
+const AUTOMATION_RESOLUTION = 4;
+
+// Steepness of exponential segments (higher = slower start, faster finish)
+const EXPONENTIAL_CURVE = 4;
+
+// Map a parameter lock id onto an automatable parameter
+const resolveParameterId = (parameterId: string): AutomationParameter | null => {
+  if (PARAMETER_ALIASES[parameterId]) {
+    return PARAMETER_ALIASES[parameterId];
+  }
+  return AUTOMATION_PARAMETERS.some(parameter => parameter.id === parameterId)
+    ? parameterId as AutomationParameter
+    : null;
+};
+
+// Read a parameter from track effects
+const getEffectValue = (effects: TrackEffects, parameter: AutomationParameter): number => {
+  const [effect, key] = parameter.split('.') as [keyof TrackEffects, string];
+  return (effects[effect] as unknown as { [key: string]: number })[key];
+};
+
+// Copy track effects with one parameter replaced
+const setEffectValue = (effects: TrackEffects, parameter: AutomationParameter, value: number): TrackEffects => {
+  const [effect, key] = parameter.split('.') as [keyof TrackEffects, string];
+  return {
+    ...effects,
+    [effect]: { ...effects[effect], [key]: value }
+  };
+};
+
+const clampValue = (value: number): number => {
+  return Math.max(0, Math.min(1, value));
+};
+
+// Progress through a segment after applying its curve
+const shapeProgress = (curve: AutomationCurve, progress: number): number => {
+  switch (curve) {
+    case 'hold':
+      return 0;
+    case 'exponential':
+      return (Math.exp(EXPONENTIAL_CURVE * progress) - 1) / (Math.exp(EXPONENTIAL_CURVE) - 1);
+    default:
+      return progress;
+  }
+};
+
+// Check that a point fits a track of the given length
+const isValidAutomationPoint = (point: AutomationPoint, length: number): boolean => {
+  return Number.isFinite(point.step) &&
+    point.step >= 0 &&
+    point.step < length &&
+    Number.isFinite(point.value) &&
+    point.value >= 0 &&
+    point.value <= 1 &&
+    (point.curve === 'linear' || point.curve === 'exponential' || point.curve === 'hold');
+};
+
+// Check that a lane is usable on a track of the given length
+const isValidAutomationLane = (lane: AutomationLane, length: number): boolean => {
+  return resolveParameterId(lane.parameter) === lane.parameter &&
+    typeof lane.latch === 'boolean' &&
+    lane.points.every(point => isValidAutomationPoint(point, length));
+};
+
+// Sort points by step, keeping only the last point written to each step
+const normalizeAutomationPoints = (points: AutomationPoint[]): AutomationPoint[] => {
+  const byStep = new Map<number, AutomationPoint>();
+  points.forEach(point => byStep.set(point.step, { ...point }));
+  return Array.from(byStep.values()).sort((a, b) => a.step - b.step);
+};
+
+// Value of a lane at a track position, looping over the track length
+const getLaneValue = (points: AutomationPoint[], position: number, length: number, fallback: number): number => {
+  if (points.length === 0) return fallback;
+  if (points.length === 1) return points[0].value;
+
+  let index = -1;
+  points.forEach((point, i) => {
+    if (point.step <= position) index = i;
+  });
+
+  // Before the first point the segment from the last point wraps around
+  const last = points[points.length - 1];
+  const from = index === -1 ? last : points[index];
+  const fromStep = index === -1 ? last.step - length : from.step;
+  const next = index + 1 < points.length ? index + 1 : 0;
+  const to = points[next];
+  const toStep = next === 0 && index !== -1 ? to.step + length : to.step;
+
+  const span = toStep - fromStep;
+  const progress = span > 0 ? (position - fromStep) / span : 0;
+  return from.value + (to.value - from.value) * shapeProgress(from.curve, progress);
+};
+
+// Locks of one parameter on the active steps of a track
+const getParameterLocks = (track: Track, parameter: AutomationParameter): { step: number; lock: ParameterLock }[] => {
+  const locks: { step: number; lock: ParameterLock }[] = [];
+  track.steps.forEach((step, index) => {
+    if (!step.active) return;
+    const lock = step.parameterLocks.find(l => resolveParameterId(l.parameterId) === parameter);
+    if (lock) locks.push({ step: index, lock });
+  });
+  return locks;
+};
+
+// Parameters of a track driven by a lane or a parameter lock
+const getAutomatedParameters = (track: Track): AutomationParameter[] => {
+  const parameters = new Set<AutomationParameter>();
+  track.automation?.forEach(lane => parameters.add(lane.parameter));
+  track.steps.forEach(step => {
+    if (!step.active) return;
+    step.parameterLocks.forEach(lock => {
+      const parameter = resolveParameterId(lock.parameterId);
+      if (parameter) parameters.add(parameter);
+    });
+  });
+  return Array.from(parameters);
+};
+
+// Value of a parameter at a fractional track position, including locks
+const getAutomationValue = (track: Track, parameter: AutomationParameter, position: number): number => {
+  const length = track.steps.length;
+  const lane = track.automation?.find(l => l.parameter === parameter);
+  const base = getEffectValue(track.effects, parameter);
+  const laneValue = lane ? getLaneValue(lane.points, position, length, base) : base;
+
+  const locks = getParameterLocks(track, parameter);
+  if (locks.length === 0) return clampValue(laneValue);
+
+  const stepIndex = Math.floor(position);
+  const current = locks.find(l => l.step === stepIndex);
+
+  // Last lock before this step, wrapping around the loop
+  const earlier = locks.filter(l => l.step < stepIndex);
+  const previous = earlier.length > 0 ? earlier[earlier.length - 1] : locks[locks.length - 1];
+  const heldValue = lane?.latch && previous !== current ? previous.lock.value : laneValue;
+
+  if (!current) return clampValue(heldValue);
+  if (!current.lock.slide) return clampValue(current.lock.value);
+
+  const progress = position - stepIndex;
+  return clampValue(heldValue + (current.lock.value - heldValue) * progress);
+};
+
+export {
+  AutomationParameter,
+  AutomationCurve,
+  AutomationPoint,
+  AutomationLane,
+  AUTOMATION_PARAMETERS,
+  AUTOMATION_RESOLUTION,
+  resolveParameterId,
+  getEffectValue,
+  setEffectValue,
+  isValidAutomationPoint,
+  isValidAutomationLane,
+  normalizeAutomationPoints,
+  getLaneValue,
+  getAutomatedParameters,
+  getAutomationValue
+};
@@ -0,0 +1,372 @@
+import { EnhancedBeatPattern } from './enhancedAudioEngine';
+import { Sequencer, SequencerEvent } from './sequencer';
+import { SeededRandom } from './random';
+import { DspMixer, SampleBuffer, StereoBuffer, StemSource } from './mixer';
+import { DEFAULT_SAMPLE_RATE } from './dsp';
+import { WavBitDepth, isValidBitDepth, encodeWav, sanitizeFileName } from './wav';
+import { SampleDecoder } from './pcmOutput';
+import { usePresetLoader } from './presetLoader';
+import { TimeSignature, DEFAULT_TIME_SIGNATURE, getStepsPerBar, formatTimeSignature } from './timeSignature';
+import { formatKey } from './scales';
+import { createZip, textToBytes } from './zip';
+
+// Offline bounce
+// A bounce plays a copy of the project through its own sequencer and mixer on a
+// manual clock: no timers and no platform players, and time only moves as fast
+// as the mixer renders, which is much faster than real time. Probability steps
+// follow the project seed, so the same project and samples always render to the
+// same audio and the same file bytes.
+// Stems come from the same pass as the mix: every track is captured to its own
+// buffer, so stems line up sample for sample and chokes between tracks hold.
+
+interface BounceOptions {
+  bars?: number; // Bars to render; the whole arrangement, or one pattern loop without one, when missing
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  tail: number; // Seconds rendered after the end so delays and reverbs ring out
+}
+
+interface StemOptions extends BounceOptions {
+  source: StemSource; // Stems before or after the track effects
+  masterBus: boolean; // Run every stem through the master processing
+}
+
+// Rendered audio of one track
+interface Stem {
+  trackId: string;
+  name: string;
+  audio: StereoBuffer;
+}
+
+// Description of a stem archive, stored next to the stems
+interface StemManifest {
+  bpm: number;
+  key: string | null;
+  timeSignature: string;
+  bars: number;
+  frames: number;
+  duration: number; // Seconds, tail included
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  source: StemSource;
+  masterBus: boolean;
+  stems: { file: string; track: string; trackId: string }[];
+}
+
+// Result of an offline render
+interface RenderResult {
+  project: EnhancedBeatPattern; // The copy that was played
+  frames: number;
+  latency: number; // Frames the mix trails the blocks' start (the master bus lookahead)
+  steps: number; // Steps heard before the end
+}
+
+// Decoded samples by preset ID
+interface PresetSamples {
+  [presetId: string]: SampleBuffer;
+}
+
+const DEFAULT_BOUNCE_OPTIONS: BounceOptions = {
+  sampleRate: DEFAULT_SAMPLE_RATE,
+  bitDepth: 16,
+  tail: 0
+};
+
+// Limits that keep a bounce inside memory
+const MAX_BOUNCE_BARS = 256;
+const MAX_BOUNCE_SECONDS = 15 * 60;
+const MAX_TAIL_SECONDS = 10;
+
+const DEFAULT_STEM_OPTIONS: StemOptions = {
+  ...DEFAULT_BOUNCE_OPTIONS,
+  source: 'post',
+  masterBus: false
+};
+
+// Name of the manifest inside a stem archive
+const STEM_MANIFEST_FILE = 'manifest.json';
+
+// Frames rendered per block, and blocks between yields to the UI
+const BOUNCE_BLOCK_FRAMES = 4096;
+const BLOCKS_PER_YIELD = 16;
+
+// Let the UI breathe between batches of blocks
+const yieldToUi = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+// Check the options of a bounce
+const isValidBounceOptions = (options: BounceOptions): boolean => {
+  return (options.bars === undefined ||
+      (Number.isInteger(options.bars) && options.bars >= 1 && options.bars <= MAX_BOUNCE_BARS)) &&
+    Number.isInteger(options.sampleRate) &&
+    options.sampleRate >= 8000 &&
+    options.sampleRate <= 192000 &&
+    isValidBitDepth(options.bitDepth) &&
+    options.tail >= 0 &&
+    options.tail <= MAX_TAIL_SECONDS;
+};
+
+// Offline sequencer playing a project
+const createBounceSequencer = (project: EnhancedBeatPattern, songMode: boolean): Sequencer => {
+  const sequencer = new Sequencer({
+    bpm: project.bpm,
+    totalSteps: project.steps,
+    tempoRange: project.tempoRange,
+    timeSignature: project.timeSignature,
+    offline: true
+  }, new SeededRandom(project.seed ?? 0));
+
+  if (project.tempoAutomation) {
+    sequencer.setTempoAutomation(project.tempoAutomation);
+  }
+  sequencer.setTracks(project.tracks);
+  if (project.patterns) {
+    sequencer.loadPatterns(project.patterns);
+  }
+  if (project.arrangement) {
+    sequencer.setArrangement(project.arrangement);
+  }
+  sequencer.setSongMode(songMode);
+  sequencer.setRandomLock(project.randomLock ?? false);
+  if (project.groove) {
+    sequencer.setGroove(project.groove);
+  }
+  if (project.key) {
+    sequencer.setKey(project.key);
+  }
+
+  return sequencer;
+};
+
+// Join rendered blocks into one buffer of a given length, dropping frames at the start
+const joinBlocks = (blocks: StereoBuffer[], frames: number, skip: number = 0): StereoBuffer => {
+  const audio: StereoBuffer = { left: new Float32Array(frames), right: new Float32Array(frames) };
+  let offset = -skip;
+  for (const block of blocks) {
+    if (offset >= frames) break;
+    const start = Math.max(0, -offset);
+    const end = Math.min(block.left.length, frames - offset);
+    if (start < end) {
+      audio.left.set(block.left.subarray(start, end), offset + start);
+      audio.right.set(block.right.subarray(start, end), offset + start);
+    }
+    offset += block.left.length;
+  }
+  return audio;
+};
+
+// Play a copy of a project offline and hand every rendered block to a callback
+// Blocks run past the end of the bounce by up to a block plus the master bus
+// latency; the result has the length and the latency.
+const renderBlocks = async (
+  input: EnhancedBeatPattern,
+  samples: PresetSamples,
+  options: BounceOptions,
+  onBlock: (block: StereoBuffer, mixer: DspMixer) => void,
+  stemSource: StemSource | null = null,
+  stemsThroughMaster: boolean = false
+): Promise<RenderResult> => {
+  if (!isValidBounceOptions(options)) {
+    throw new Error('Invalid bounce options');
+  }
+
+  // Playback writes into tracks and pattern slots, so the bounce works on a copy
+  const project: EnhancedBeatPattern = JSON.parse(JSON.stringify(input));
+  const songMode = options.bars === undefined && (project.arrangement?.length ?? 0) > 0;
+  const sequencer = createBounceSequencer(project, songMode);
+
+  const mixer = new DspMixer(options.sampleRate, () => sequencer.now());
+  mixer.setStemCapture(stemSource, stemsThroughMaster);
+  project.tracks.forEach(track => {
+    const sample = samples[track.presetId];
+    if (sample) {
+      mixer.setTrackSample(track.id, sample);
+    } else {
+      console.warn(`No sample for preset ${track.presetId}, track ${track.name} stays silent`);
+    }
+  });
+  await sequencer.setDspMixer(mixer);
+  sequencer.setMasterEffects(project.masterEffects);
+
+  // Stop once the requested steps have been heard (songs stop by themselves)
+  const stepsToPlay = options.bars !== undefined
+    ? options.bars * sequencer.getStepsPerBar()
+    : songMode ? Infinity : sequencer.getTotalSteps();
+  let stepsHeard = 0;
+  let endTime: number | null = null;
+  sequencer.addEventListener((event: SequencerEvent) => {
+    if (endTime !== null) return;
+
+    if (event.type === 'step' && ++stepsHeard > stepsToPlay) {
+      stepsHeard--;
+      endTime = sequencer.now();
+      sequencer.stop();
+    } else if (event.type === 'arrangement' && event.block === -1) {
+      endTime = sequencer.now();
+    }
+  });
+
+  const blockTime = BOUNCE_BLOCK_FRAMES / options.sampleRate * 1000;
+  const maxFrames = MAX_BOUNCE_SECONDS * options.sampleRate;
+  const latency = mixer.getLatency();
+  let totalFrames = maxFrames;
+  let renderedFrames = 0;
+  let blockCount = 0;
+
+  sequencer.play(0);
+  while (renderedFrames < totalFrames + latency) {
+    const startTime = renderedFrames / options.sampleRate * 1000;
+    sequencer.runUntil(startTime + blockTime);
+
+    onBlock(mixer.renderAt(startTime, BOUNCE_BLOCK_FRAMES), mixer);
+    renderedFrames += BOUNCE_BLOCK_FRAMES;
+
+    if (endTime !== null) {
+      totalFrames = Math.min(maxFrames, Math.round((endTime + options.tail * 1000) * options.sampleRate / 1000));
+    }
+    if (++blockCount % BLOCKS_PER_YIELD === 0) {
+      await yieldToUi();
+    }
+  }
+
+  sequencer.cleanup();
+  return { project, frames: totalFrames, latency, steps: stepsHeard };
+};
+
+// Render a project to stereo PCM
+const renderProject = async (
+  input: EnhancedBeatPattern,
+  samples: PresetSamples,
+  bounceOptions: Partial<BounceOptions> = {}
+): Promise<StereoBuffer> => {
+  const options = { ...DEFAULT_BOUNCE_OPTIONS, ...bounceOptions };
+  const blocks: StereoBuffer[] = [];
+  const { frames, latency } = await renderBlocks(input, samples, options, block => {
+    blocks.push({ left: block.left.slice(), right: block.right.slice() });
+  });
+  return joinBlocks(blocks, frames, latency);
+};
+
+// Render every track of a project to its own stem
+// Tracks that stay silent (muted, soloed out or without hits) are left out.
+const renderStems = async (
+  input: EnhancedBeatPattern,
+  samples: PresetSamples,
+  stemOptions: Partial<StemOptions> = {}
+): Promise<{ stems: Stem[]; result: RenderResult }> => {
+  const options = { ...DEFAULT_STEM_OPTIONS, ...stemOptions };
+  if (options.source !== 'pre' && options.source !== 'post') {
+    throw new Error('Invalid stem source');
+  }
+
+  const blocks = new Map<string, StereoBuffer[]>(input.tracks.map(track => [track.id, []]));
+  const audible = new Set<string>();
+  const result = await renderBlocks(input, samples, options, (_block, mixer) => {
+    blocks.forEach((trackBlocks, trackId) => {
+      const stem = mixer.getStem(trackId);
+      if (!stem) return;
+
+      trackBlocks.push({ left: stem.left.slice(), right: stem.right.slice() });
+      if (!audible.has(trackId) && (stem.left.some(value => value !== 0) || stem.right.some(value => value !== 0))) {
+        audible.add(trackId);
+      }
+    });
+  }, options.source, options.masterBus);
+
+  const stems = result.project.tracks
+    .filter(track => audible.has(track.id))
+    .map(track => ({
+      trackId: track.id,
+      name: track.name,
+      audio: joinBlocks(blocks.get(track.id) ?? [], result.frames, options.masterBus ? result.latency : 0)
+    }));
+  return { stems, result };
+};
+
+// File names of stems after their track names, numbered when names repeat
+const getStemFileNames = (stems: Stem[]): string[] => {
+  const used = new Set<string>([STEM_MANIFEST_FILE]);
+  return stems.map(stem => {
+    const base = sanitizeFileName(stem.name);
+    let fileName = `${base}.wav`;
+    for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+      fileName = `${base} ${n}.wav`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+  });
+};
+
+// Render a project to a WAV file
+const bounceProject = async (
+  project: EnhancedBeatPattern,
+  samples: PresetSamples,
+  options: Partial<BounceOptions> = {}
+): Promise<Uint8Array> => {
+  const sampleRate = options.sampleRate ?? DEFAULT_BOUNCE_OPTIONS.sampleRate;
+  const audio = await renderProject(project, samples, options);
+  return encodeWav(audio, sampleRate, options.bitDepth ?? DEFAULT_BOUNCE_OPTIONS.bitDepth);
+};
+
+// Render the stems of a project to a ZIP archive of WAV files and a manifest
+const bounceStems = async (
+  project: EnhancedBeatPattern,
+  samples: PresetSamples,
+  stemOptions: Partial<StemOptions> = {}
+): Promise<Uint8Array> => {
+  const options = { ...DEFAULT_STEM_OPTIONS, ...stemOptions };
+  const { stems, result } = await renderStems(project, samples, options);
+  const fileNames = getStemFileNames(stems);
+  const timeSignature: TimeSignature = result.project.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+
+  const manifest: StemManifest = {
+    bpm: result.project.bpm,
+    key: result.project.key ? formatKey(result.project.key) : null,
+    timeSignature: formatTimeSignature(timeSignature),
+    bars: options.bars ?? result.steps / getStepsPerBar(timeSignature),
+    frames: result.frames,
+    duration: result.frames / options.sampleRate,
+    sampleRate: options.sampleRate,
+    bitDepth: options.bitDepth,
+    source: options.source,
+    masterBus: options.masterBus,
+    stems: stems.map((stem, i) => ({ file: fileNames[i], track: stem.name, trackId: stem.trackId }))
+  };
+
+  return createZip([
+    ...stems.map((stem, i) => ({ name: fileNames[i], data: encodeWav(stem.audio, options.sampleRate, options.bitDepth) })),
+    { name: STEM_MANIFEST_FILE, data: textToBytes(JSON.stringify(manifest, null, 2)) }
+  ]);
+};
+
+// Decode the samples of every preset a project uses
+// Presets that fail to decode are left out (their tracks render silent).
+const loadProjectSamples = async (project: EnhancedBeatPattern, decoder: SampleDecoder): Promise<PresetSamples> => {
+  const presetLoader = usePresetLoader();
+  const samples: PresetSamples = {};
+
+  for (const presetId of new Set(project.tracks.map(track => track.presetId))) {
+    try {
+      samples[presetId] = await presetLoader.loadPresetSample(presetId, decoder);
+    } catch (error) {
+      console.error(`Error decoding sample for preset ${presetId}:`, error);
+    }
+  }
+
+  return samples;
+};
+
+export {
+  BounceOptions,
+  StemOptions,
+  Stem,
+  StemManifest,
+  PresetSamples,
+  DEFAULT_BOUNCE_OPTIONS,
+  DEFAULT_STEM_OPTIONS,
+  MAX_BOUNCE_BARS,
+  renderProject,
+  renderStems,
+  bounceProject,
+  bounceStems,
+  loadProjectSamples
+};
@@ -0,0 +1,522 @@
+import { TrackEffects, Sidechain } from './enhancedAudioEngine';
+
+// Track effect processing
+// Every track runs its samples through a chain of PCM processors before it is
+// mixed: distortion -> filter -> delay -> reverb. Effect values are the 0-1 knob
+// values of TrackEffects and are mapped to musical ranges here. Coefficients are
+// updated every CONTROL_BLOCK frames, which is also how often the filter envelope
+// moves the cutoff. Sidechain ducking comes after the chain; the mixer drives it
+// because it needs the signal or the hits of another track.
+
+const DEFAULT_SAMPLE_RATE = 44100;
+
+// Frames between parameter updates
+const CONTROL_BLOCK = 64;
+
+// Filter cutoff range (Hz), mapped exponentially from the 0-1 knob
+const MIN_CUTOFF = 20;
+const MAX_CUTOFF = 20000;
+
+// Resonance range as filter Q
+const MIN_Q = 0.707;
+const MAX_Q = 12;
+
+// The filter envelope opens the cutoff by up to this much (0-1 knob units) and decays with this time constant (ms)
+const ENVELOPE_RANGE = 0.5;
+const ENVELOPE_DECAY = 150;
+
+// Delay times in beats: 1/32, 1/16, dotted 1/16, 1/8, dotted 1/8, 1/4, dotted 1/4, 1/2
+const DELAY_DIVISIONS = [0.125, 0.25, 0.375, 0.5, 0.75, 1, 1.5, 2];
+const MAX_DELAY_FEEDBACK = 0.95;
+const MAX_DELAY_TIME = 4; // Seconds of delay memory, enough for a half note at 30 BPM
+
+// Freeverb tunings at 44.1 kHz (the right channel is spread by a few samples)
+const COMB_TUNINGS = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617];
+const ALLPASS_TUNINGS = [556, 441, 341, 225];
+const STEREO_SPREAD = 23;
+const REVERB_INPUT_GAIN = 0.015;
+const REVERB_WET_GAIN = 3;
+
+// Deepest ducking reported by a meter (dB)
+const MAX_DUCK_REDUCTION = 60;
+
+// Distortion drive range and the cutoff range of its tone filter (Hz)
+const MAX_DRIVE = 25;
+const MIN_TONE = 500;
+const MAX_TONE = 20000;
+
+type FilterType = TrackEffects['filter']['type'];
+
+// Equalizer band shapes
+type EqBandType = 'lowshelf' | 'peaking' | 'highshelf';
+
+// Cutoff frequency of a 0-1 knob value, kept below Nyquist
+const getCutoffFrequency = (cutoff: number, sampleRate: number): number => {
+  const value = Math.max(0, Math.min(1, cutoff));
+  return Math.min(MIN_CUTOFF * Math.pow(MAX_CUTOFF / MIN_CUTOFF, value), sampleRate * 0.45);
+};
+
+// Filter Q of a 0-1 resonance value
+const getFilterQ = (resonance: number): number => {
+  const value = Math.max(0, Math.min(1, resonance));
+  return MIN_Q * Math.pow(MAX_Q / MIN_Q, value);
+};
+
+// Delay time in seconds of a 0-1 knob value at a tempo
+const getDelaySeconds = (time: number, bpm: number): number => {
+  const index = Math.round(Math.max(0, Math.min(1, time)) * (DELAY_DIVISIONS.length - 1));
+  return Math.min(DELAY_DIVISIONS[index] * 60 / bpm, MAX_DELAY_TIME);
+};
+
+// Second order filter (RBJ cookbook), one channel
+class Biquad {
+  private b0: number = 1;
+  private b1: number = 0;
+  private b2: number = 0;
+  private a1: number = 0;
+  private a2: number = 0;
+  private x1: number = 0;
+  private x2: number = 0;
+  private y1: number = 0;
+  private y2: number = 0;
+
+  // Recalculate the coefficients
+  setParameters(type: FilterType, frequency: number, q: number, sampleRate: number): void {
+    const omega = 2 * Math.PI * frequency / sampleRate;
+    const cos = Math.cos(omega);
+    const alpha = Math.sin(omega) / (2 * q);
+    const a0 = 1 + alpha;
+
+    let b0: number;
+    let b1: number;
+    let b2: number;
+    switch (type) {
+      case 'highpass':
+        b0 = (1 + cos) / 2;
+        b1 = -(1 + cos);
+        b2 = (1 + cos) / 2;
+        break;
+      case 'bandpass':
+        b0 = alpha;
+        b1 = 0;
+        b2 = -alpha;
+        break;
+      case 'notch':
+        b0 = 1;
+        b1 = -2 * cos;
+        b2 = 1;
+        break;
+      default:
+        b0 = (1 - cos) / 2;
+        b1 = 1 - cos;
+        b2 = (1 - cos) / 2;
+    }
+
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = -2 * cos / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  // Recalculate the coefficients for an equalizer band boosting or cutting by a gain in dB
+  setEqParameters(type: EqBandType, frequency: number, gain: number, q: number, sampleRate: number): void {
+    const amplitude = Math.pow(10, gain / 40);
+    const omega = 2 * Math.PI * frequency / sampleRate;
+    const cos = Math.cos(omega);
+    const alpha = Math.sin(omega) / (2 * q);
+    const shelf = 2 * Math.sqrt(amplitude) * alpha;
+
+    let b0: number;
+    let b1: number;
+    let b2: number;
+    let a0: number;
+    let a1: number;
+    let a2: number;
+    switch (type) {
+      case 'lowshelf':
+        b0 = amplitude * ((amplitude + 1) - (amplitude - 1) * cos + shelf);
+        b1 = 2 * amplitude * ((amplitude - 1) - (amplitude + 1) * cos);
+        b2 = amplitude * ((amplitude + 1) - (amplitude - 1) * cos - shelf);
+        a0 = (amplitude + 1) + (amplitude - 1) * cos + shelf;
+        a1 = -2 * ((amplitude - 1) + (amplitude + 1) * cos);
+        a2 = (amplitude + 1) + (amplitude - 1) * cos - shelf;
+        break;
+      case 'highshelf':
+        b0 = amplitude * ((amplitude + 1) + (amplitude - 1) * cos + shelf);
+        b1 = -2 * amplitude * ((amplitude - 1) + (amplitude + 1) * cos);
+        b2 = amplitude * ((amplitude + 1) + (amplitude - 1) * cos - shelf);
+        a0 = (amplitude + 1) - (amplitude - 1) * cos + shelf;
+        a1 = 2 * ((amplitude - 1) - (amplitude + 1) * cos);
+        a2 = (amplitude + 1) - (amplitude - 1) * cos - shelf;
+        break;
+      default:
+        b0 = 1 + alpha * amplitude;
+        b1 = -2 * cos;
+        b2 = 1 - alpha * amplitude;
+        a0 = 1 + alpha / amplitude;
+        a1 = -2 * cos;
+        a2 = 1 - alpha / amplitude;
+    }
+
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = a1 / a0;
+    this.a2 = a2 / a0;
+  }
+
+  process(buffer: Float32Array, offset: number, frames: number): void {
+    for (let i = offset; i < offset + frames; i++) {
+      const x = buffer[i];
+      const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+      this.x2 = this.x1;
+      this.x1 = x;
+      this.y2 = this.y1;
+      this.y1 = y;
+      buffer[i] = y;
+    }
+  }
+
+  reset(): void {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+}
+
+// Feedback delay line, one channel; echoes are added on top of the dry signal
+class DelayLine {
+  private memory: Float32Array;
+  private position: number = 0;
+
+  constructor(sampleRate: number) {
+    this.memory = new Float32Array(Math.ceil(MAX_DELAY_TIME * sampleRate) + 1);
+  }
+
+  process(buffer: Float32Array, offset: number, frames: number, delayFrames: number, feedback: number, mix: number): void {
+    const length = this.memory.length;
+    const delay = Math.max(1, Math.min(length - 1, Math.round(delayFrames)));
+
+    for (let i = offset; i < offset + frames; i++) {
+      const echo = this.memory[(this.position - delay + length) % length];
+      this.memory[this.position] = buffer[i] + echo * feedback;
+      this.position = (this.position + 1) % length;
+      buffer[i] += echo * mix;
+    }
+  }
+
+  reset(): void {
+    this.memory.fill(0);
+  }
+}
+
+// Lowpass-damped comb filter of the reverb
+class CombFilter {
+  private memory: Float32Array;
+  private position: number = 0;
+  private store: number = 0;
+
+  constructor(length: number) {
+    this.memory = new Float32Array(length);
+  }
+
+  process(input: number, feedback: number, damping: number): number {
+    const output = this.memory[this.position];
+    this.store = output * (1 - damping) + this.store * damping;
+    this.memory[this.position] = input + this.store * feedback;
+    this.position = (this.position + 1) % this.memory.length;
+    return output;
+  }
+
+  reset(): void {
+    this.memory.fill(0);
+    this.store = 0;
+  }
+}
+
+// Allpass diffuser of the reverb
+class AllpassFilter {
+  private memory: Float32Array;
+  private position: number = 0;
+
+  constructor(length: number) {
+    this.memory = new Float32Array(length);
+  }
+
+  process(input: number): number {
+    const delayed = this.memory[this.position];
+    this.memory[this.position] = input + delayed * 0.5;
+    this.position = (this.position + 1) % this.memory.length;
+    return delayed - input;
+  }
+
+  reset(): void {
+    this.memory.fill(0);
+  }
+}
+
+// Freeverb-style reverb, one channel; mix crossfades from dry to wet
+class Reverb {
+  private combs: CombFilter[];
+  private allpasses: AllpassFilter[];
+
+  constructor(sampleRate: number, spread: number = 0) {
+    const scale = sampleRate / DEFAULT_SAMPLE_RATE;
+    this.combs = COMB_TUNINGS.map(tuning => new CombFilter(Math.round((tuning + spread) * scale)));
+    this.allpasses = ALLPASS_TUNINGS.map(tuning => new AllpassFilter(Math.round((tuning + spread) * scale)));
+  }
+
+  process(buffer: Float32Array, offset: number, frames: number, size: number, damping: number, mix: number): void {
+    const feedback = 0.7 + Math.max(0, Math.min(1, size)) * 0.28;
+    const damp = Math.max(0, Math.min(1, damping)) * 0.4;
+
+    for (let i = offset; i < offset + frames; i++) {
+      const input = buffer[i] * REVERB_INPUT_GAIN;
+      let wet = 0;
+      for (const comb of this.combs) {
+        wet += comb.process(input, feedback, damp);
+      }
+      for (const allpass of this.allpasses) {
+        wet = allpass.process(wet);
+      }
+      buffer[i] += (wet * REVERB_WET_GAIN - buffer[i]) * mix;
+    }
+  }
+
+  reset(): void {
+    this.combs.forEach(comb => comb.reset());
+    this.allpasses.forEach(allpass => allpass.reset());
+  }
+}
+
+// Soft-clipping distortion with a lowpass tone control, one channel
+class Distortion {
+  private toneState: number = 0;
+
+  process(buffer: Float32Array, offset: number, frames: number, amount: number, tone: number, sampleRate: number): void {
+    const drive = 1 + Math.max(0, Math.min(1, amount)) * (MAX_DRIVE - 1);
+    const normalize = 1 / Math.tanh(drive);
+    const toneValue = Math.max(0, Math.min(1, tone));
+    const toneFrequency = Math.min(MIN_TONE * Math.pow(MAX_TONE / MIN_TONE, toneValue), sampleRate * 0.45);
+    const toneCoefficient = 1 - Math.exp(-2 * Math.PI * toneFrequency / sampleRate);
+
+    for (let i = offset; i < offset + frames; i++) {
+      const shaped = Math.tanh(buffer[i] * drive) * normalize;
+      this.toneState += (shaped - this.toneState) * toneCoefficient;
+      buffer[i] = this.toneState;
+    }
+  }
+
+  reset(): void {
+    this.toneState = 0;
+  }
+}
+
+// Effect chain of one stereo track
+class TrackChain {
+  private sampleRate: number;
+  private effects: TrackEffects;
+  private bpm: number = 140;
+  private envelope: number = 0; // Filter envelope level, restarted by each trigger
+  private filters: Biquad[] = [new Biquad(), new Biquad()];
+  private delays: DelayLine[];
+  private reverbs: Reverb[];
+  private distortions: Distortion[] = [new Distortion(), new Distortion()];
+
+  constructor(effects: TrackEffects, sampleRate: number = DEFAULT_SAMPLE_RATE) {
+    this.sampleRate = sampleRate;
+    this.effects = effects;
+    this.delays = [new DelayLine(sampleRate), new DelayLine(sampleRate)];
+    this.reverbs = [new Reverb(sampleRate), new Reverb(sampleRate, STEREO_SPREAD)];
+  }
+
+  // Effect values to use from the next block on
+  setEffects(effects: TrackEffects): void {
+    this.effects = effects;
+  }
+
+  // Tempo the delay follows
+  setTempo(bpm: number): void {
+    this.bpm = bpm;
+  }
+
+  // Restart the filter envelope (called on every hit)
+  trigger(): void {
+    this.envelope = 1;
+  }
+
+  // Process a stereo block in place
+  process(left: Float32Array, right: Float32Array, frames: number): void {
+    const { filter, delay, reverb, distortion } = this.effects;
+    const channels = [left, right];
+    const envelopeDecay = Math.exp(-CONTROL_BLOCK / (ENVELOPE_DECAY * this.sampleRate / 1000));
+    const delayFrames = getDelaySeconds(delay.time, this.bpm) * this.sampleRate;
+    const feedback = Math.max(0, Math.min(MAX_DELAY_FEEDBACK, delay.feedback));
+
+    for (let offset = 0; offset < frames; offset += CONTROL_BLOCK) {
+      const blockFrames = Math.min(CONTROL_BLOCK, frames - offset);
+
+      // The envelope opens the filter above its programmed cutoff
+      const cutoff = filter.cutoff + this.envelope * filter.envelope * ENVELOPE_RANGE;
+      const frequency = getCutoffFrequency(cutoff, this.sampleRate);
+      const q = getFilterQ(filter.resonance);
+      this.envelope *= envelopeDecay;
+
+      channels.forEach((buffer, channel) => {
+        if (distortion.amount > 0) {
+          this.distortions[channel].process(buffer, offset, blockFrames, distortion.amount, distortion.tone, this.sampleRate);
+        }
+
+        this.filters[channel].setParameters(filter.type, frequency, q, this.sampleRate);
+        this.filters[channel].process(buffer, offset, blockFrames);
+
+        // Keep running while the feedback rings out, even after the mix is turned down
+        this.delays[channel].process(buffer, offset, blockFrames, delayFrames, feedback, delay.mix);
+
+        if (reverb.mix > 0) {
+          this.reverbs[channel].process(buffer, offset, blockFrames, reverb.size, reverb.damping, reverb.mix);
+        }
+      });
+    }
+  }
+
+  // Clear every tail (e.g. on stop)
+  reset(): void {
+    this.envelope = 0;
+    this.filters.forEach(filter => filter.reset());
+    this.delays.forEach(delay => delay.reset());
+    this.reverbs.forEach(reverb => reverb.reset());
+    this.distortions.forEach(distortion => distortion.reset());
+  }
+}
+
+// Sidechain ducking: gains for a track from the level or the hits of its source
+class Ducker {
+  private sampleRate: number;
+  private sidechain: Sidechain | null = null;
+  private level: number = 0; // Follow mode: smoothed source level
+  private depth: number = 0; // Envelope mode: current ducking depth, 0-1
+  private stage: 'attack' | 'hold' | 'release' | 'idle' = 'idle';
+  private stageFrame: number = 0; // Frames into the current stage
+  private stageStart: number = 0; // Envelope mode: depth when the attack started
+  private holdRemaining: number = 0; // Follow mode: frames the level is held
+  private peakReduction: number = 0; // Deepest ducking since the meter was read (dB)
+
+  constructor(sampleRate: number = DEFAULT_SAMPLE_RATE) {
+    this.sampleRate = sampleRate;
+  }
+
+  // Sidechain settings, or null to stop ducking
+  setSidechain(sidechain: Sidechain | null): void {
+    if (sidechain?.mode !== this.sidechain?.mode) {
+      this.reset();
+    }
+    this.sidechain = sidechain;
+  }
+
+  // Source track of the ducking, if any
+  getSource(): string | null {
+    return this.sidechain?.source ?? null;
+  }
+
+  // Write the gains of a block; follow mode reads the source signal, envelope mode the source hits (frames)
+  process(gains: Float32Array, frames: number, source: { left: Float32Array; right: Float32Array } | null, hits: number[]): void {
+    const sidechain = this.sidechain;
+    if (!sidechain || sidechain.amount <= 0) {
+      gains.fill(1, 0, frames);
+      return;
+    }
+
+    const amount = Math.min(1, sidechain.amount);
+    const toFrames = (ms: number) => Math.max(1, Math.round(Math.max(0, ms) * this.sampleRate / 1000));
+    const attackFrames = toFrames(sidechain.attack);
+    const holdFrames = Math.max(0, Math.round(Math.max(0, sidechain.hold) * this.sampleRate / 1000));
+    const releaseFrames = toFrames(sidechain.release);
+    let deepest = 1;
+
+    if (sidechain.mode === 'follow') {
+      const attack = Math.exp(-1 / attackFrames);
+      const release = Math.exp(-1 / releaseFrames);
+      for (let i = 0; i < frames; i++) {
+        const input = source ? Math.max(Math.abs(source.left[i]), Math.abs(source.right[i])) : 0;
+        if (input >= this.level) {
+          this.level = input + (this.level - input) * attack;
+          this.holdRemaining = holdFrames;
+        } else if (this.holdRemaining > 0) {
+          this.holdRemaining--;
+        } else {
+          this.level = input + (this.level - input) * release;
+        }
+        gains[i] = 1 - amount * Math.min(1, this.level);
+        deepest = Math.min(deepest, gains[i]);
+      }
+    } else {
+      const exponent = 1 + Math.max(0, Math.min(1, sidechain.curve)) * 4;
+      let hitIndex = 0;
+      for (let i = 0; i < frames; i++) {
+        while (hitIndex < hits.length && hits[hitIndex] <= i) {
+          this.stage = 'attack';
+          this.stageFrame = 0;
+          this.stageStart = this.depth;
+          hitIndex++;
+        }
+
+        if (this.stage === 'attack') {
+          this.depth = this.stageStart + (1 - this.stageStart) * Math.min(1, ++this.stageFrame / attackFrames);
+          if (this.stageFrame >= attackFrames) {
+            this.stage = holdFrames > 0 ? 'hold' : 'release';
+            this.stageFrame = 0;
+          }
+        } else if (this.stage === 'hold') {
+          if (++this.stageFrame >= holdFrames) {
+            this.stage = 'release';
+            this.stageFrame = 0;
+          }
+        } else if (this.stage === 'release') {
+          this.depth = Math.pow(1 - Math.min(1, ++this.stageFrame / releaseFrames), exponent);
+          if (this.stageFrame >= releaseFrames) {
+            this.stage = 'idle';
+            this.depth = 0;
+          }
+        }
+        gains[i] = 1 - amount * this.depth;
+        deepest = Math.min(deepest, gains[i]);
+      }
+    }
+
+    const reduction = deepest > 0 ? Math.min(MAX_DUCK_REDUCTION, -20 * Math.log10(deepest)) : MAX_DUCK_REDUCTION;
+    this.peakReduction = Math.max(this.peakReduction, reduction);
+  }
+
+  // Deepest ducking since the last read (dB), then starts over
+  readMeter(): number {
+    const reduction = this.peakReduction;
+    this.peakReduction = 0;
+    return reduction;
+  }
+
+  reset(): void {
+    this.level = 0;
+    this.depth = 0;
+    this.stage = 'idle';
+    this.stageFrame = 0;
+    this.holdRemaining = 0;
+  }
+}
+
+export {
+  FilterType,
+  EqBandType,
+  DEFAULT_SAMPLE_RATE,
+  CONTROL_BLOCK,
+  DELAY_DIVISIONS,
+  MAX_DUCK_REDUCTION,
+  getCutoffFrequency,
+  getFilterQ,
+  getDelaySeconds,
+  Biquad,
+  DelayLine,
+  Reverb,
+  Distortion,
+  TrackChain,
+  Ducker
+};
@@ -2,14 +2,54 @@ import { Audio } from 'expo-av';
 import { Sound } from 'expo-av/build/Audio';
 import { usePresetLoader, Preset, PresetParameter } from './presetLoader';
 import AudioErrorHandler, { AudioErrorType, ErrorSeverity } from './errorHandler';
-import { Sequencer, SequencerEvent } from './sequencer';
+import { Sequencer, SequencerEvent, RecordOptions, LoopRegion, MetronomeSettings } from './sequencer';
+import { StoredPattern, ArrangementBlock } from './patternBank';
+import { TrigCondition, isValidTrigCondition } from './trigConditions';
+import { isValidRetrig } from './retrig';
+import { isValidNoteStep } from './notes';
+import { Groove, GrooveTemplate, extractGroove } from './groove';
+import { TempoPoint, TempoRange, clampBpm } from './tempo';
+import { TimeSignature, DEFAULT_TIME_SIGNATURE, getStepsPerBar, getBeatSteps } from './timeSignature';
+import { CommandHistory } from './history';
+import { AutomationLane, AutomationParameter, isValidAutomationLane, normalizeAutomationPoints } from './automation';
+import { RhythmFill, isValidRhythmFill, createRhythmSteps, formatRhythmPattern } from './rhythm';
+import { ClockSource, MidiTransport } from './midiClock';
+import { MusicalKey } from './scales';
+import { getMuteGroupTracks, getDefaultChokeGroup } from './voiceGroups';
+import {
+  Mix,
+  MixerScene,
+  Crossfader,
+  MAX_SCENES,
+  captureMix,
+  blendMixes,
+  applyMix,
+  isValidScene
+} from './scenes';
+import { DspMixer } from './mixer';
+import { MasterMeter } from './master';
+import { isValidSidechain } from './sidechain';
+import { PcmBackend, createPcmBackend } from './pcmOutput';
+import { BounceOptions, StemOptions, bounceProject, bounceStems, loadProjectSamples } from './bounce';
+import { downloadFile } from './wav';
 
 // CORRECT: Export enhanced interfaces
 export interface EnhancedBeatPattern {
   bpm: number;
-  steps: number; // 16, 32, or 64 steps
+  steps: number; // Pattern length, 1-64 steps
   tracks: Track[];
   masterEffects: MasterEffects;
+  patterns?: (StoredPattern | null)[]; // Pattern bank slots A01-D16
+  arrangement?: ArrangementBlock[]; // Song mode block list
+  seed?: number; // Seed for probability steps, so playback is reproducible
+  randomLock?: boolean; // Replay the same random sequence every loop cycle
+  groove?: Groove | null; // Groove template and depth
+  tempoRange?: TempoRange; // Allowed BPM range
+  tempoAutomation?: TempoPoint[]; // Tempo ramps and steps per bar
+  timeSignature?: TimeSignature; // Meter, 4/4 when missing
+  key?: MusicalKey | null; // Project key melodic steps are quantized to
+  scenes?: MixerScene[]; // Mixer snapshots
+  crossfader?: Crossfader; // Scenes on the crossfader and its position
 }
 
 export interface Track {
@@ -22,23 +62,38 @@ export interface Track {
   volume: number;
   pan: number;
   effects: TrackEffects;
+  clockMultiplier?: number; // Track steps per sequencer step (0.5 = half speed, 1.5 = triplets)
+  grooveAmount?: number; // 0-1, how strongly the project groove affects this track
+  automation?: AutomationLane[]; // Effect automation lanes, one per parameter
+  transpose?: number; // Semitones added to every note of the track
+  chokeGroup?: number; // 1-8, a trigger cuts the tails of other tracks in the group
+  muteGroup?: number; // 1-8, unmuting the track mutes the rest of the group
 }
 
 // Interfaces below are likely internal or defined elsewhere, keep as is
-interface Step {
+export interface Step {
   active: boolean;
   velocity: number; // 0-1
   probability: number; // 0-1, chance this step will trigger
   parameterLocks: ParameterLock[];
   microTiming: number; // -0.5 to 0.5, timing offset in steps
+  condition?: TrigCondition; // Conditional trig, evaluated before probability
+  retrigCount?: number; // 1-8, number of hits fired inside the step
+  retrigRate?: number; // Hits per step (2, 3, 4, 6 or 8), defaults to retrigCount
+  retrigVelocityCurve?: number; // -1 to 1, negative fades out, positive ramps up
+  note?: number; // MIDI note (0-127), plays the preset's root note when missing
+  gateLength?: number; // Steps until the sample is cut, plays to its end when missing
+  accent?: boolean; // Louder hit
+  slide?: boolean; // Tie into the next step, which glides to its note without retriggering
 }
 
-interface ParameterLock {
+export interface ParameterLock {
   parameterId: string;
   value: number;
+  slide?: boolean; // Glide from the previous value over the step instead of jumping
 }
 
-interface TrackEffects {
+export interface TrackEffects {
   filter: {
     type: 'lowpass' | 'highpass' | 'bandpass' | 'notch';
     cutoff: number;
@@ -59,9 +114,20 @@ interface TrackEffects {
     amount: number;
     tone: number;
   };
+  sidechain?: Sidechain; // Ducking by another track, none when missing
 }
 
-interface MasterEffects {
+export interface Sidechain {
+  source: string; // ID of the track that ducks this one
+  mode: 'follow' | 'envelope'; // Duck with the level of the source, or play a volume shape on each of its hits
+  amount: number; // 0-1, depth of the ducking
+  attack: number; // ms
+  hold: number; // ms
+  release: number; // ms
+  curve: number; // 0-1, shape of the envelope release from linear to steep (envelope mode)
+}
+
+export interface MasterEffects {
   limiter: number;
   compressor: {
     threshold: number;
@@ -79,6 +145,7 @@ interface MasterEffects {
 class EnhancedAudioEngine {
   private bpm: number = 140; // Default Hard Techno tempo
   private steps: number = 64; // 64-step sequencer
+  private timeSignature: TimeSignature = { ...DEFAULT_TIME_SIGNATURE };
   private tracks: Track[] = [];
   private masterEffects: MasterEffects = {
     limiter: 0.8,
@@ -100,10 +167,20 @@ class EnhancedAudioEngine {
   private isInitialized: boolean = false;
   private isPlaying: boolean = false;
   private currentStep: number = 0;
+  private trackPositions: { [trackId: string]: number } = {};
+  private currentPattern: number = 0;
+  private songBlock: number = -1;
+  private countInBeats: number = 0;
+  private currentBpm: number = 140; // Tempo being heard, including automation
+  private scenes: MixerScene[] = [];
+  private queuedScene: string | null = null; // Recalled on the next bar
+  private crossfader: Crossfader = { sceneA: null, sceneB: null, position: 0 };
   private stepCallback: ((step: number) => void) | null = null;
   
   private sequencer: Sequencer | null = null;
+  private pcmBackend: PcmBackend | null = null; // Set while the tracks are mixed through the DSP graph
   private listeners: Set<(step: number) => void> = new Set();
+  private history: CommandHistory = new CommandHistory();
   
   // Initialize audio engine
   async initialize(): Promise<void> {
@@ -116,9 +193,12 @@ class EnhancedAudioEngine {
         totalSteps: this.steps,
         swing: 0,
         quantize: true,
+        timeSignature: this.timeSignature,
       });
       await this.sequencer.initialize();
-      this.sequencer.registerEventCallback(this.handleSequencerEvent.bind(this));
+      this.sequencer.setTracks(this.tracks);
+      this.sequencer.addEventListener(this.handleSequencerEvent.bind(this));
+      await this.startDspMixing();
       
       this.isInitialized = true;
       console.log('Enhanced audio engine initialized successfully');
@@ -128,6 +208,53 @@ class EnhancedAudioEngine {
     }
   }
   
+  // Mix the tracks through the DSP graph where the platform can play PCM
+  // Elsewhere the sequencer keeps firing the platform sample players, and effects are not heard.
+  private async startDspMixing(): Promise<void> {
+    const backend = createPcmBackend();
+    if (!backend || !this.sequencer) {
+      console.warn('No PCM output on this platform, track and master effects are not processed');
+      return;
+    }
+    
+    try {
+      const mixer = new DspMixer(backend.output.sampleRate);
+      await this.sequencer.setDspMixer(mixer, backend.decoder);
+      await backend.output.start(frames => mixer.render(frames));
+      this.pcmBackend = backend;
+    } catch (error) {
+      console.error('Failed to start the DSP mixer:', error);
+      backend.output.stop();
+      await this.sequencer.setDspMixer(null);
+    }
+  }
+  
+  /**
+   * Checks whether the tracks are mixed through the DSP graph
+   * Only platforms with Web Audio can (the native apps have no PCM output yet);
+   * elsewhere the sample players apply volume and pitch, but no effects.
+   * @returns True when effects are processed and heard
+   */
+  isDspMixing(): boolean {
+    return this.pcmBackend !== null;
+  }
+  
+  /**
+   * Reads the gain reduction of the master compressor and limiter
+   * @returns Peak reduction in dB of each stage since the last call, or null when effects are simulated
+   */
+  getMasterMeter(): MasterMeter | null {
+    return this.sequencer?.getMasterMeter() ?? null;
+  }
+  
+  /**
+   * Reads the sidechain ducking of every ducked track
+   * @returns Deepest gain reduction in dB per track ID since the last call, or null when effects are simulated
+   */
+  getSidechainMeter(): { [trackId: string]: number } | null {
+    return this.sequencer?.getSidechainMeter() ?? null;
+  }
+  
   // Create default tracks with presets from each category
   private async createDefaultTracks(): Promise<void> {
     try {
@@ -149,7 +276,8 @@ class EnhancedAudioEngine {
             solo: false,
             volume: 0.8,
             pan: 0,
-            effects: this.createDefaultTrackEffects()
+            effects: this.createDefaultTrackEffects(),
+            chokeGroup: getDefaultChokeGroup(category.id)
           };
           
           // Add track to tracks array
@@ -221,35 +349,36 @@ class EnhancedAudioEngine {
     const hatTrack = this.tracks.find(track => track.id.includes('hats'));
     const fxTrack = this.tracks.find(track => track.id.includes('fx'));
     
-    // Create kick pattern (on every quarter note)
-    if (kickTrack) {
-      for (let i = 0; i < this.steps; i += 16) {
-        kickTrack.steps[i].active = true;
-      }
-    }
+    const stepsPerBar = getStepsPerBar(this.timeSignature);
+    const beatSteps = getBeatSteps(this.timeSignature);
     
-    // Create bass pattern
-    if (bassTrack) {
-      for (let i = 0; i < this.steps; i += 32) {
-        bassTrack.steps[i].active = true;
-        if (i + 24 < this.steps) {
-          bassTrack.steps[i + 24].active = true;
+    for (let barStart = 0; barStart < this.steps; barStart += stepsPerBar) {
+      const bar = barStart / stepsPerBar;
+      
+      beatSteps.forEach((offset, beat) => {
+        const i = barStart + offset;
+        if (i >= this.steps) return;
+        
+        // Create kick pattern (on every beat)
+        if (kickTrack) {
+          kickTrack.steps[i].active = true;
         }
-      }
-    }
-    
-    // Create hat pattern (on every 8th note)
-    if (hatTrack) {
-      for (let i = 0; i < this.steps; i += 8) {
-        hatTrack.steps[i].active = true;
-      }
-    }
-    
-    // Create FX pattern (occasional hits)
-    if (fxTrack) {
-      for (let i = 0; i < this.steps; i += 48) {
-        if (i + 32 < this.steps) {
-          fxTrack.steps[i + 32].active = true;
+        
+        // Create bass pattern (on the 8th after every beat)
+        if (bassTrack && i + 2 < this.steps) {
+          bassTrack.steps[i + 2].active = true;
+        }
+        
+        // Create FX pattern (last beat of every second bar)
+        if (fxTrack && bar % 2 === 1 && beat === beatSteps.length - 1) {
+          fxTrack.steps[i].active = true;
+        }
+      });
+      
+      // Create hat pattern (on every 8th note)
+      if (hatTrack) {
+        for (let i = barStart; i < Math.min(barStart + stepsPerBar, this.steps); i += 2) {
+          hatTrack.steps[i].active = true;
         }
       }
     }
@@ -275,11 +404,13 @@ class EnhancedAudioEngine {
    */
   setBpm(newBpm: number): void {
     if (!this.isInitialized || !this.sequencer) return;
-    if (newBpm < 60) newBpm = 60;
-    if (newBpm > 200) newBpm = 200;
+    newBpm = clampBpm(newBpm, this.sequencer.getTempoRange());
     
     this.bpm = newBpm;
     this.sequencer.setBpm(newBpm);
+    if (!this.isPlaying) {
+      this.currentBpm = this.sequencer.getCurrentBpm();
+    }
     console.log(`Audio engine BPM set to ${newBpm}`);
   }
 
@@ -291,6 +422,96 @@ class EnhancedAudioEngine {
     return this.bpm;
   }
 
+  /**
+   * Gets the tempo being heard, following tempo automation
+   * @returns The BPM of the current step
+   */
+  getCurrentBpm(): number {
+    return this.currentBpm;
+  }
+
+  /**
+   * Sets the allowed BPM range; the tempo is pulled into the new range
+   * @param range - Lowest and highest BPM
+   */
+  setTempoRange(range: TempoRange): void {
+    if (!this.sequencer) return;
+    
+    this.sequencer.setTempoRange(range);
+    this.bpm = this.sequencer.getBpm();
+  }
+
+  /**
+   * Gets the allowed BPM range
+   * @returns Lowest and highest BPM, or undefined before initialization
+   */
+  getTempoRange(): TempoRange | undefined {
+    return this.sequencer?.getTempoRange();
+  }
+
+  /**
+   * Replaces the tempo automation lane
+   * @param points - Tempo points on the playback timeline (empty = base tempo only)
+   */
+  setTempoAutomation(points: TempoPoint[]): void {
+    this.sequencer?.setTempoAutomation(points);
+  }
+
+  /**
+   * Gets the tempo automation lane
+   * @returns Tempo points sorted by bar
+   */
+  getTempoAutomation(): TempoPoint[] {
+    return this.sequencer?.getTempoAutomation() ?? [];
+  }
+
+  /**
+   * Adds a tempo automation point, replacing any point on the same bar
+   * @param point - Bar, tempo and whether the tempo steps or ramps there
+   */
+  setTempoPoint(point: TempoPoint): void {
+    this.sequencer?.setTempoPoint(point);
+  }
+
+  /**
+   * Removes the tempo automation point on a bar
+   * @param bar - Bar of the point
+   */
+  removeTempoPoint(bar: number): void {
+    this.sequencer?.removeTempoPoint(bar);
+  }
+
+  /**
+   * Registers a tempo tap
+   * Sets the tempo, or writes an automation point on the current bar while
+   * automation is playing.
+   * @returns The tapped BPM
+   */
+  tempoTap(): number {
+    if (!this.sequencer) return this.bpm;
+    
+    const tappedBpm = this.sequencer.tempoTap();
+    this.bpm = this.sequencer.getBpm();
+    return tappedBpm;
+  }
+
+  /**
+   * Chooses whether the sequencer runs on its own clock, leads MIDI clock or follows it
+   * @param source - 'internal', 'leader' or 'follower'
+   * @param transport - MIDI port to send or receive clock on (kept when omitted)
+   */
+  setClockSource(source: ClockSource, transport?: MidiTransport): void {
+    this.sequencer?.setClockSource(source, transport);
+  }
+
+  /**
+   * Gets where the sequencer clock comes from
+   * @returns The clock source
+   */
+  getClockSource(): ClockSource {
+    return this.sequencer?.getClockSource() ?? 'internal';
+  }
+
   /**
    * Sets the mute state for a specific track
    * @param trackId - The ID of the track to mute/unmute
@@ -303,6 +524,13 @@ class EnhancedAudioEngine {
     // Update track mute state
     this.tracks[trackIndex].mute = mute;
     
+    // Unmuting a track mutes the rest of its mute group
+    if (!mute) {
+      getMuteGroupTracks(this.tracks, this.tracks[trackIndex]).forEach(track => {
+        track.mute = true;
+      });
+    }
+    
     // Update sequencer if initialized
     if (this.sequencer) {
       this.sequencer.setTrackMute(trackId, mute);
@@ -342,6 +570,38 @@ class EnhancedAudioEngine {
     this.notifyListeners(trackId, solo);
   }
 
+  /**
+   * Puts a track in a choke group; a hit on any track of the group cuts the others
+   * @param trackId - The ID of the track
+   * @param group - Choke group (1-8), or null to remove the track from its group
+   */
+  setTrackChokeGroup(trackId: string, group: number | null): void {
+    this.sequencer?.setTrackChokeGroup(trackId, group);
+  }
+
+  /**
+   * Lets another track duck a track
+   * @param trackId - The ID of the ducked track
+   * @param sidechain - Source track and ducking settings, or null to stop ducking
+   */
+  setTrackSidechain(trackId: string, sidechain: Sidechain | null): void {
+    if (sidechain && !isValidSidechain(sidechain, trackId, this.tracks)) {
+      console.warn(`Invalid sidechain for track ${trackId}`);
+      return;
+    }
+    
+    this.updateTrackEffects(trackId, { sidechain: sidechain ?? undefined });
+  }
+
+  /**
+   * Puts a track in a mute group; unmuting a track of the group mutes the others
+   * @param trackId - The ID of the track
+   * @param group - Mute group (1-8), or null to remove the track from its group
+   */
+  setTrackMuteGroup(trackId: string, group: number | null): void {
+    this.sequencer?.setTrackMuteGroup(trackId, group);
+  }
+
   /**
    * Gets the steps for a specific track
    * @param trackId - The ID of the track to get steps for
@@ -364,79 +624,176 @@ class EnhancedAudioEngine {
   updateBeatPattern(pattern: Partial<EnhancedBeatPattern>): void {
     if (!this.isInitialized) return;
     console.log('Updating beat pattern (basic implementation)');
+    if (pattern.tempoRange) {
+      this.setTempoRange(pattern.tempoRange);
+    }
+    if (pattern.timeSignature) {
+      this.setTimeSignature(pattern.timeSignature);
+    }
     if (pattern.bpm) {
       this.setBpm(pattern.bpm);
     }
+    if (pattern.tempoAutomation) {
+      this.sequencer?.setTempoAutomation(pattern.tempoAutomation);
+    }
     if (pattern.tracks) {
       console.log(`Received ${pattern.tracks.length} tracks to update.`);
     }
+    if (pattern.patterns) {
+      this.sequencer?.loadPatterns(pattern.patterns);
+    }
+    if (pattern.arrangement) {
+      this.sequencer?.setArrangement(pattern.arrangement);
+    }
+    if (pattern.seed !== undefined) {
+      this.sequencer?.setRandomSeed(pattern.seed);
+    }
+    if (pattern.randomLock !== undefined) {
+      this.sequencer?.setRandomLock(pattern.randomLock);
+    }
+    if (pattern.groove !== undefined) {
+      this.sequencer?.setGroove(pattern.groove);
+    }
+    if (pattern.key !== undefined) {
+      this.sequencer?.setKey(pattern.key);
+    }
+    if (pattern.scenes) {
+      this.scenes = pattern.scenes.filter(isValidScene).slice(0, MAX_SCENES);
+    }
+    if (pattern.crossfader) {
+      this.crossfader = { ...pattern.crossfader };
+    }
   }
   
-  // Apply audio effects to all tracks
-  private async applyEffects(): Promise<void> {
-    if (!this.isInitialized) return;
+  // Get the current project, e.g. for saving or sharing
+  getBeatPattern(): EnhancedBeatPattern {
+    return {
+      bpm: this.bpm,
+      steps: this.sequencer?.getTotalSteps() ?? this.steps,
+      tracks: this.tracks,
+      masterEffects: this.masterEffects,
+      patterns: this.sequencer?.getPatterns(),
+      arrangement: this.sequencer?.getArrangement(),
+      seed: this.sequencer?.getRandomSeed(),
+      randomLock: this.sequencer?.isRandomLocked(),
+      groove: this.sequencer?.getGroove(),
+      tempoRange: this.sequencer?.getTempoRange(),
+      tempoAutomation: this.sequencer?.getTempoAutomation(),
+      timeSignature: this.timeSignature,
+      key: this.sequencer?.getKey(),
+      scenes: this.scenes,
+      crossfader: { ...this.crossfader }
+    };
+  }
+  
+  /**
+   * Checks whether the project can be rendered to audio files
+   * Rendering decodes the samples with Web Audio, which the native apps do not have yet.
+   * @returns True when bounceToFile and exportStems can render
+   */
+  canBounce(): boolean {
+    return this.pcmBackend !== null;
+  }
+  
+  /**
+   * Renders the project offline and downloads it as a WAV file (web only, see canBounce)
+   * @param options - Bars, sample rate, bit depth and tail of the bounce
+   * @param fileName - Name of the WAV file
+   * @returns Name of the downloaded file, or null if the bounce failed or the platform cannot decode samples
+   */
+  async bounceToFile(options: Partial<BounceOptions> = {}, fileName: string = 'bounce.wav'): Promise<string | null> {
+    if (!this.isInitialized) return null;
+    if (!this.pcmBackend) {
+      console.warn('Bouncing needs a sample decoder, which this platform does not provide (see canBounce)');
+      return null;
+    }
     
     try {
-      // Apply effects to each track
-      for (const track of this.tracks) {
-        const sound = this.loadedSounds.get(track.presetId);
-        if (!sound) continue;
-        
-        // Apply volume
-        await sound.setVolumeAsync(track.mute ? 0 : track.volume);
-        
-        // In a real implementation, we would apply other effects here
-        // For now, we'll simulate with volume and rate adjustments
-        
-        // Apply filter effect (simulated with rate adjustment)
-        const filterEffect = track.effects.filter.cutoff;
-        await sound.setRateAsync(1.0 + (filterEffect - 0.5) * 0.1, true);
-      }
+      const project = this.getBeatPattern();
+      const samples = await loadProjectSamples(project, this.pcmBackend.decoder);
+      const wav = await bounceProject(project, samples, options);
+      return downloadFile(wav, fileName);
+    } catch (error) {
+      console.error('Failed to bounce project:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Renders every track offline to its own WAV stem and downloads them as a ZIP archive
+   * with a manifest of tempo, key and length (web only, see canBounce)
+   * @param options - Bars, sample rate, bit depth, tail, stem source and master processing
+   * @param fileName - Name of the ZIP file
+   * @returns Name of the downloaded file, or null if the export failed or the platform cannot decode samples
+   */
+  async exportStems(options: Partial<StemOptions> = {}, fileName: string = 'stems.zip'): Promise<string | null> {
+    if (!this.isInitialized) return null;
+    if (!this.pcmBackend) {
+      console.warn('Exporting stems needs a sample decoder, which this platform does not provide (see canBounce)');
+      return null;
+    }
+    
+    try {
+      const project = this.getBeatPattern();
+      const samples = await loadProjectSamples(project, this.pcmBackend.decoder);
+      const archive = await bounceStems(project, samples, options);
+      return downloadFile(archive, fileName);
     } catch (error) {
-      console.error('Failed to apply effects:', error);
+      console.error('Failed to export stems:', error);
+      return null;
     }
   }
   
-  // CORRECT: Sequencer event handler (was tick handler)
+  // Apply audio effects to all tracks
+  // The sequencer owns the playing sounds, so it sets their volume and rate, or
+  // hands the mix to the DSP graph.
+  private async applyEffects(): Promise<void> {
+    if (!this.isInitialized) return;
+    
+    this.sequencer?.setMasterEffects(this.masterEffects);
+  }
+  
+  // Sequencer event handler
+  // The sequencer schedules and triggers the sounds itself, so the engine only
+  // has to follow the playhead.
   private handleSequencerEvent(event: SequencerEvent): void {
     if (event.type === 'step') {
+      this.countInBeats = 0;
       this.currentStep = event.step;
-      this.triggerStepSounds(event.step);
+      this.currentBpm = event.bpm ?? this.currentBpm;
+      this.trackPositions = event.trackSteps ?? {};
       this.notifyListeners(event.step);
     } else if (event.type === 'bar') {
-      // Handle bar changes if needed
+      // Queued scenes are recalled on the downbeat
+      if (this.queuedScene) {
+        this.recallQueuedScene();
+      }
     } else if (event.type === 'pattern') {
-      // Handle pattern changes if needed
-    }
-  }
-
-  // triggerStepSounds (adjustments might be needed based on how mute/solo is handled)
-  private triggerStepSounds(step: number): void {
-    if (!this.isPlaying) return;
-    this.tracks.forEach(track => {
-      // Check mute/solo logic - Sequencer doesn't handle this directly
-      const isSoloActive = this.tracks.some(t => t.solo && !t.mute);
-      const shouldPlay = !track.mute && (!isSoloActive || track.solo);
-
-      if (shouldPlay) {
-        const stepData = track.steps[step % track.steps.length];
-        if (stepData?.active && Math.random() < (stepData.probability ?? 1.0)) {
-          const sound = this.loadedSounds.get(track.presetId);
-          if (sound) {
-            sound.replayAsync().catch(e => console.error(`Error replaying sound ${track.presetId}:`, e));
-            sound.setVolumeAsync(stepData.velocity ?? track.volume ?? 0.8);
-          } else {
-            console.warn(`Sound not loaded for preset ${track.presetId} on step ${step}`);
-          }
-        }
+      this.currentPattern = event.pattern;
+    } else if (event.type === 'transport') {
+      // An external clock started or stopped playback
+      this.isPlaying = event.playing ?? this.isPlaying;
+      this.notifyListeners(this.currentStep);
+    } else if (event.type === 'countIn') {
+      this.countInBeats = event.countIn ?? 0;
+      this.notifyListeners(this.currentStep);
+    } else if (event.type === 'arrangement') {
+      this.currentPattern = event.pattern;
+      this.songBlock = event.block ?? -1;
+      
+      // The sequencer stops by itself at the end of the song
+      if (this.songBlock === -1) {
+        this.isPlaying = false;
       }
-    });
+    }
   }
 
   // CORRECT: Playback control methods using Sequencer's play/stop
   play(callback: (step: number) => void): void { 
     if (!this.isInitialized || !this.sequencer) return;
     this.registerStepListener(callback); 
+    this.songBlock = -1;
+    this.pcmBackend?.output.resume().catch(error => console.error('Failed to resume audio output:', error));
     this.sequencer.play(); // Use play()
     this.isPlaying = true;
     console.log('Audio engine playing');
@@ -446,7 +803,11 @@ class EnhancedAudioEngine {
     if (!this.isInitialized || !this.sequencer) return;
     this.sequencer.stop(); // Use stop()
     this.isPlaying = false;
+    if (this.queuedScene) {
+      this.recallQueuedScene();
+    }
     this.currentStep = 0;
+    this.countInBeats = 0;
     this.notifyListeners(this.currentStep); 
     console.log('Audio engine stopped');
   }
@@ -493,14 +854,22 @@ class EnhancedAudioEngine {
         solo: false,
         volume: 0.8,
         pan: 0,
-        effects: this.createDefaultTrackEffects()
+        effects: this.createDefaultTrackEffects(),
+        chokeGroup: getDefaultChokeGroup(preset.category)
       };
       
       // Load track sound
       await this.loadTrackSound(track);
       
       // Add track to tracks array
-      this.tracks.push(track);
+      const index = this.tracks.length;
+      this.attachTrack(track, index);
+      
+      this.history.push({
+        label: 'Add track',
+        undo: () => this.detachTrack(track.id),
+        redo: () => this.attachTrack(track, index)
+      });
       
       return track;
     } catch (error) {
@@ -509,11 +878,34 @@ class EnhancedAudioEngine {
     }
   }
   
-  // Remove a track
+  // Remove a track (the track is kept in the history so it can be restored)
   removeTrack(trackId: string): void {
     const index = this.tracks.findIndex(track => track.id === trackId);
     if (index === -1) return;
     
+    const track = this.tracks[index];
+    this.history.execute({
+      label: 'Remove track',
+      undo: () => this.attachTrack(track, index),
+      redo: () => this.detachTrack(trackId)
+    });
+  }
+  
+  // Insert a track at a position and load its sound
+  private attachTrack(track: Track, index: number): void {
+    this.tracks.splice(Math.min(index, this.tracks.length), 0, track);
+    this.sequencer?.setTracks(this.tracks);
+    
+    if (!this.loadedSounds.has(track.presetId)) {
+      this.loadTrackSound(track);
+    }
+  }
+  
+  // Take a track out of the project and unload its sound
+  private detachTrack(trackId: string): void {
+    const index = this.tracks.findIndex(track => track.id === trackId);
+    if (index === -1) return;
+    
     // Get sound
     const sound = this.loadedSounds.get(trackId);
     if (sound) {
@@ -524,6 +916,7 @@ class EnhancedAudioEngine {
     
     // Remove track
     this.tracks.splice(index, 1);
+    this.sequencer?.setTracks(this.tracks);
   }
   
   // Update track preset
@@ -533,61 +926,983 @@ class EnhancedAudioEngine {
       throw new Error(`Track not found: ${trackId}`);
     }
     
+    const previousPresetId = track.presetId;
+    await this.applyTrackPreset(track, presetId);
+    
+    this.history.push({
+      label: 'Change sound',
+      undo: () => {
+        this.applyTrackPreset(track, previousPresetId).catch(error => console.error('Failed to undo sound change:', error));
+      },
+      redo: () => {
+        this.applyTrackPreset(track, presetId).catch(error => console.error('Failed to redo sound change:', error));
+      }
+    });
+  }
+  
+  // Switch the preset of a track and reload its sound here and in the sequencer
+  private async applyTrackPreset(track: Track, presetId: string): Promise<void> {
     // Update preset ID
     track.presetId = presetId;
     
     // Unload old sound
-    const oldSound = this.loadedSounds.get(trackId);
+    const oldSound = this.loadedSounds.get(track.id);
     if (oldSound) {
       await oldSound.unloadAsync();
-      this.loadedSounds.delete(trackId);
+      this.loadedSounds.delete(track.id);
     }
     
     // Load new sound
     await this.loadTrackSound(track);
+    await this.sequencer?.reloadTrackSound(track.id);
   }
   
   // Update track step
+  // Repeated edits of the same step properties (a slider drag) become one undo entry.
   updateTrackStep(trackId: string, stepIndex: number, step: Partial<Step>): void {
     const track = this.getTrackById(trackId);
     if (!track || stepIndex < 0 || stepIndex >= track.steps.length) return;
     
-    // Update step properties
-    track.steps[stepIndex] = {
-      ...track.steps[stepIndex],
-      ...step
-    };
+    if (step.condition && !isValidTrigCondition(step.condition)) {
+      console.warn('Invalid trig condition:', step.condition);
+      return;
+    }
+    
+    if (!isValidRetrig(step)) {
+      console.warn('Invalid retrig settings:', step);
+      return;
+    }
+    
+    if (!isValidNoteStep(step)) {
+      console.warn('Invalid note settings:', step);
+      return;
+    }
+    
+    const before = { ...track.steps[stepIndex] };
+    const after = { ...before, ...step };
+    const patternIndex = this.getLivePattern();
+    
+    this.history.execute({
+      label: 'Edit step',
+      coalesceKey: `step:${patternIndex}:${trackId}:${stepIndex}:${Object.keys(step).sort().join(',')}`,
+      undo: () => this.applyTrackStep(track, patternIndex, stepIndex, before),
+      redo: () => this.applyTrackStep(track, patternIndex, stepIndex, after)
+    });
   }
   
-  // Update track effects
-  updateTrackEffects(trackId: string, effects: Partial<TrackEffects>): void {
+  /**
+   * Toggles a step on or off
+   * @param trackId - The ID of the track
+   * @param stepIndex - Step index in the track
+   */
+  toggleTrackStep(trackId: string, stepIndex: number): void {
     const track = this.getTrackById(trackId);
-    if (!track) return;
+    if (!track || stepIndex < 0 || stepIndex >= track.steps.length) return;
     
-    // Update effects
-    track.effects = {
-      ...track.effects,
-      ...effects
-    };
+    const before = { ...track.steps[stepIndex] };
+    const after = { ...before, active: !before.active };
+    const patternIndex = this.getLivePattern();
     
-    // Apply effects
-    this.applyEffects();
+    this.history.execute({
+      label: after.active ? 'Add step' : 'Clear step',
+      undo: () => this.applyTrackStep(track, patternIndex, stepIndex, before),
+      redo: () => this.applyTrackStep(track, patternIndex, stepIndex, after)
+    });
   }
   
-  // Update master effects
-  updateMasterEffects(effects: Partial<MasterEffects>): void {
-    this.masterEffects = {
-      ...this.masterEffects,
-      ...effects
-    };
-    
-    // Apply effects
-    this.applyEffects();
+  /**
+   * Generates the steps a rhythm fill would produce without changing the track
+   * @param trackId - The ID of the track
+   * @param fill - Rhythm algorithm, accents, velocity and fill mode
+   * @returns Preview steps, or null when the track or fill is invalid
+   */
+  previewRhythm(trackId: string, fill: RhythmFill): Step[] | null {
+    const track = this.getTrackById(trackId);
+    if (!track) return null;
+
+    if (!isValidRhythmFill(fill)) {
+      console.warn('Invalid rhythm fill:', fill);
+      return null;
+    }
+
+    return createRhythmSteps(track.steps, fill);
+  }
+
+  /**
+   * Fills a track's steps from a rhythm algorithm as one undoable edit
+   * @param trackId - The ID of the track
+   * @param fill - Rhythm algorithm, accents, velocity and fill mode
+   */
+  applyRhythm(trackId: string, fill: RhythmFill): void {
+    const track = this.getTrackById(trackId);
+    const after = this.previewRhythm(trackId, fill);
+    if (!track || !after) return;
+
+    const before = track.steps.map(step => ({ ...step }));
+    const patternIndex = this.getLivePattern();
+
+    this.history.execute({
+      label: `Fill ${formatRhythmPattern(fill.pattern)}`,
+      undo: () => this.applyTrackSteps(track, patternIndex, before),
+      redo: () => this.applyTrackSteps(track, patternIndex, after)
+    });
+  }
+
+  // Replace all steps of a track in a pattern slot, keeping its length
+  private applyTrackSteps(track: Track, patternIndex: number, steps: Step[]): void {
+    steps.forEach((step, stepIndex) => this.applyTrackStep(track, patternIndex, stepIndex, step));
+  }
+
+  // Write a step into a track in a pattern slot
+  // Undoing an edit after the pattern changed writes into the stored slot, not the live steps.
+  private applyTrackStep(track: Track, patternIndex: number, stepIndex: number, step: Step): void {
+    const steps = this.sequencer ? this.sequencer.getPatternSteps(patternIndex, track.id) : track.steps;
+    if (!steps || stepIndex >= steps.length) return;
+    steps[stepIndex] = { ...step };
+  }
+
+  // Pattern slot the live track steps belong to
+  private getLivePattern(): number {
+    return this.sequencer?.getCurrentPattern() ?? this.currentPattern;
+  }
+  
+  /**
+   * Sets the length of a track independently of the pattern length
+   * @param trackId - The ID of the track
+   * @param length - Number of steps (1-64)
+   */
+  setTrackLength(trackId: string, length: number): void {
+    this.sequencer?.setTrackLength(trackId, length);
+  }
+
+  /**
+   * Sets how fast a track runs relative to the sequencer clock
+   * @param trackId - The ID of the track
+   * @param multiplier - One of CLOCK_MULTIPLIERS (e.g. 0.5, 1.5, 2)
+   */
+  setTrackClockMultiplier(trackId: string, multiplier: number): void {
+    this.sequencer?.setTrackClockMultiplier(trackId, multiplier);
+  }
+
+  /**
+   * Realigns all tracks every N bars (0 lets them run freely)
+   * @param bars - Number of bars between resets
+   */
+  setTrackResetBars(bars: number): void {
+    this.sequencer?.setTrackResetBars(bars);
+  }
+
+  /**
+   * Realigns all tracks on the next bar
+   */
+  resetTrackPhases(): void {
+    this.sequencer?.resetTrackPhases();
+  }
+
+  /**
+   * Gets the step each track is currently playing
+   * @returns Map of track ID to step index
+   */
+  getTrackPositions(): { [trackId: string]: number } {
+    return this.trackPositions;
+  }
+
+  /**
+   * Moves the playhead to a step (while playing, paused or stopped)
+   * @param step - Step index in the current pattern
+   */
+  seek(step: number): void {
+    this.sequencer?.seek(step);
+  }
+
+  /**
+   * Moves the playhead to the start of a bar
+   * @param bar - Bar index (0-based)
+   */
+  seekToBar(bar: number): void {
+    this.sequencer?.seekToBar(bar);
+  }
+
+  /**
+   * Loops a region of the pattern; can be changed during playback
+   * @param start - First step of the loop
+   * @param end - Step after the last step of the loop
+   */
+  setLoopRegion(start: number, end: number): void {
+    this.sequencer?.setLoopRegion(start, end);
+  }
+
+  /**
+   * Removes the loop region
+   */
+  clearLoopRegion(): void {
+    this.sequencer?.clearLoopRegion();
+  }
+
+  /**
+   * Gets the loop region
+   * @returns Loop start and (exclusive) end, or null
+   */
+  getLoopRegion(): LoopRegion | null {
+    return this.sequencer?.getLoopRegion() ?? null;
+  }
+
+  /**
+   * Sets the count-in for playback from stop
+   * @param bars - Bars to count in (0 = off)
+   */
+  setCountIn(bars: number): void {
+    this.sequencer?.setCountIn(bars);
+  }
+
+  /**
+   * Gets the count-in length for playback from stop
+   * @returns Bars counted in
+   */
+  getCountInBars(): number {
+    return this.sequencer?.getCountIn() ?? 0;
+  }
+
+  /**
+   * Updates the metronome
+   * @param settings - Whether the click plays during playback and its volume
+   */
+  setMetronome(settings: Partial<MetronomeSettings>): void {
+    this.sequencer?.setMetronome(settings);
+  }
+
+  /**
+   * Gets the metronome settings
+   * @returns Metronome settings
+   */
+  getMetronome(): MetronomeSettings | undefined {
+    return this.sequencer?.getMetronome();
+  }
+
+  /**
+   * Sets the time signature; bars, beats, count-ins and the metronome follow it
+   * @param signature - Meter such as 3/4, 7/8 or 6/8
+   */
+  setTimeSignature(signature: TimeSignature): void {
+    if (!this.sequencer) return;
+    
+    this.sequencer.setTimeSignature(signature);
+    this.timeSignature = this.sequencer.getTimeSignature();
+  }
+
+  /**
+   * Gets the time signature
+   * @returns The current meter
+   */
+  getTimeSignature(): TimeSignature {
+    return { ...this.timeSignature };
+  }
+
+  /**
+   * Gets the number of steps in one bar of the current meter
+   * @returns Steps per bar (16th notes)
+   */
+  getStepsPerBar(): number {
+    return getStepsPerBar(this.timeSignature);
+  }
+
+  /**
+   * Sets the project groove
+   * @param groove - Groove template and depth, or null for no groove
+   */
+  setGroove(groove: Groove | null): void {
+    this.sequencer?.setGroove(groove);
+  }
+
+  /**
+   * Gets the project groove
+   * @returns Groove template and depth, or null
+   */
+  getGroove(): Groove | null {
+    return this.sequencer?.getGroove() ?? null;
+  }
+
+  /**
+   * Sets how strongly the groove affects a track
+   * @param trackId - The ID of the track
+   * @param amount - Groove depth for the track (0-1)
+   */
+  setTrackGrooveAmount(trackId: string, amount: number): void {
+    this.sequencer?.setTrackGrooveAmount(trackId, amount);
+  }
+
+  /**
+   * Extracts a groove from a track's micro-timing and velocities
+   * @param trackId - The ID of the track to extract from
+   * @param length - Steps in one groove cycle (e.g. 2, 4 or 16)
+   * @param name - Name of the new groove
+   * @returns The extracted groove template, or null if the track does not exist
+   */
+  extractGroove(trackId: string, length: number, name: string): GrooveTemplate | null {
+    const track = this.getTrackById(trackId);
+    if (!track || !Number.isInteger(length) || length < 1) {
+      console.warn(`Cannot extract groove from track ${trackId}`);
+      return null;
+    }
+    return extractGroove(track.steps, length, name);
+  }
+
+  /**
+   * Sets the project key; notes of melodic steps play quantized to it
+   * @param key - Tonic and scale, or null to play notes as written
+   */
+  setKey(key: MusicalKey | null): void {
+    this.sequencer?.setKey(key);
+  }
+
+  /**
+   * Gets the project key
+   * @returns Tonic and scale, or null when notes are not quantized
+   */
+  getKey(): MusicalKey | null {
+    return this.sequencer?.getKey() ?? null;
+  }
+
+  /**
+   * Transposes every note of a track
+   * @param trackId - The ID of the track
+   * @param semitones - Transposition in semitones (-24 to 24)
+   */
+  setTrackTranspose(trackId: string, semitones: number): void {
+    this.sequencer?.setTrackTranspose(trackId, semitones);
+  }
+
+  /**
+   * Transposes the melodic steps of the active pattern; stored with the pattern
+   * @param semitones - Transposition in semitones (-24 to 24)
+   */
+  setPatternTranspose(semitones: number): void {
+    this.sequencer?.setPatternTranspose(semitones);
+  }
+
+  /**
+   * Gets the transposition of the active pattern
+   * @returns Transposition in semitones
+   */
+  getPatternTranspose(): number {
+    return this.sequencer?.getPatternTranspose() ?? 0;
+  }
+
+  /**
+   * Arms live recording; when stopped, playback starts after the count-in
+   * @param options - Armed track, overdub/replace mode, input quantize and count-in
+   */
+  startRecording(options?: Partial<RecordOptions>): void {
+    if (!this.isInitialized || !this.sequencer) return;
+    this.sequencer.startRecording(options);
+    this.isPlaying = this.sequencer.isPlaybackActive();
+  }
+
+  /**
+   * Disarms live recording without stopping playback
+   */
+  stopRecording(): void {
+    this.sequencer?.stopRecording();
+  }
+
+  /**
+   * Checks whether live recording is armed
+   * @returns True if hits are being recorded
+   */
+  isRecording(): boolean {
+    return this.sequencer?.isRecordingActive() ?? false;
+  }
+
+  /**
+   * Updates the live recording options
+   * @param options - Options to change
+   */
+  setRecordOptions(options: Partial<RecordOptions>): void {
+    this.sequencer?.setRecordOptions(options);
+  }
+
+  /**
+   * Gets the live recording options
+   * @returns Current recording options
+   */
+  getRecordOptions(): RecordOptions | undefined {
+    return this.sequencer?.getRecordOptions();
+  }
+
+  /**
+   * Plays a track's sound and records it into the track while recording is armed
+   * @param trackId - The ID of the track
+   * @param velocity - Hit strength (0-1), e.g. from touch pressure or position
+   */
+  recordHit(trackId: string, velocity: number): void {
+    this.sequencer?.recordHit(trackId, velocity);
+  }
+
+  /**
+   * Gets the beats left in the count-in
+   * @returns Beats left, 0 when not counting in
+   */
+  getCountIn(): number {
+    return this.countInBeats;
+  }
+
+  /**
+   * Sets the seed for probability steps (same seed, same playback on every device)
+   * @param seed - 32-bit seed
+   */
+  setRandomSeed(seed: number): void {
+    this.sequencer?.setRandomSeed(seed);
+  }
+
+  /**
+   * Gets the seed for probability steps
+   * @returns 32-bit seed
+   */
+  getRandomSeed(): number | undefined {
+    return this.sequencer?.getRandomSeed();
+  }
+
+  /**
+   * Replays the same random sequence on every loop cycle
+   * @param locked - Whether the sequence is locked
+   */
+  setRandomLock(locked: boolean): void {
+    this.sequencer?.setRandomLock(locked);
+  }
+
+  /**
+   * Enables or disables fill mode: FILL / NOT FILL conditional trigs follow it and
+   * tracks with a fill variant play it instead of their steps
+   * Hold it momentarily; releasing returns to the main pattern in phase.
+   * @param active - Whether fill mode is active
+   */
+  setFillActive(active: boolean): void {
+    this.sequencer?.setFillActive(active);
+    this.notifyListeners(this.currentStep);
+  }
+
+  /**
+   * Checks whether fill mode is held
+   * @returns True while fill mode is active
+   */
+  isFillActive(): boolean {
+    return this.sequencer?.isFillActive() ?? false;
+  }
+
+  /**
+   * Sets the fill variant of a track in the active pattern as one undoable edit
+   * @param trackId - The ID of the track
+   * @param steps - Fill steps (1-64, repeated over the track), or null to remove the fill
+   */
+  setTrackFill(trackId: string, steps: Step[] | null): void {
+    const track = this.getTrackById(trackId);
+    if (!track || !this.sequencer) return;
+
+    const isValid = (step: Step) =>
+      isValidRetrig(step) && isValidNoteStep(step) && (!step.condition || isValidTrigCondition(step.condition));
+    if (steps && !steps.every(isValid)) {
+      console.warn('Invalid fill steps:', steps);
+      return;
+    }
+
+    const before = this.sequencer.getFillSteps(trackId);
+    const after = steps ? steps.map(step => ({ ...step, parameterLocks: [...step.parameterLocks] })) : null;
+    const patternIndex = this.getLivePattern();
+
+    this.history.execute({
+      label: after ? 'Set fill' : 'Remove fill',
+      undo: () => this.applyTrackFill(trackId, patternIndex, before),
+      redo: () => this.applyTrackFill(trackId, patternIndex, after)
+    });
+  }
+
+  /**
+   * Edits one step of a track's fill variant
+   * Repeated edits of the same step properties become one undo entry.
+   * @param trackId - The ID of the track
+   * @param stepIndex - Step index in the fill
+   * @param step - Step properties to change
+   */
+  updateFillStep(trackId: string, stepIndex: number, step: Partial<Step>): void {
+    const fill = this.sequencer?.getFillSteps(trackId);
+    if (!fill || stepIndex < 0 || stepIndex >= fill.length) return;
+
+    if ((step.condition && !isValidTrigCondition(step.condition)) || !isValidRetrig(step) || !isValidNoteStep(step)) {
+      console.warn('Invalid fill step settings:', step);
+      return;
+    }
+
+    const before = fill;
+    const after = fill.map((s, i) => (i === stepIndex ? { ...s, ...step } : s));
+    const patternIndex = this.getLivePattern();
+
+    this.history.execute({
+      label: 'Edit fill step',
+      coalesceKey: `fillStep:${patternIndex}:${trackId}:${stepIndex}:${Object.keys(step).sort().join(',')}`,
+      undo: () => this.applyTrackFill(trackId, patternIndex, before),
+      redo: () => this.applyTrackFill(trackId, patternIndex, after)
+    });
+  }
+
+  /**
+   * Gets the fill variant of a track in the active pattern
+   * @param trackId - The ID of the track
+   * @returns Fill steps, or null when the track plays its own steps during fills
+   */
+  getTrackFill(trackId: string): Step[] | null {
+    return this.sequencer?.getFillSteps(trackId) ?? null;
+  }
+
+  /**
+   * Checks whether the active pattern has a fill variant on any track
+   * @returns True when at least one track has fill steps
+   */
+  hasFill(): boolean {
+    return this.sequencer?.hasFill() ?? false;
+  }
+
+  // Replace the fill variant of a track in a pattern slot
+  private applyTrackFill(trackId: string, patternIndex: number, steps: Step[] | null): void {
+    this.sequencer?.setFillSteps(trackId, steps, patternIndex);
+    this.notifyListeners(this.currentStep);
+  }
+
+  /**
+   * Queues a pattern slot to start on the next bar (immediately when stopped)
+   * @param patternIndex - Pattern slot (0-63, bank * 16 + slot)
+   */
+  queuePattern(patternIndex: number): void {
+    this.sequencer?.queuePattern(patternIndex);
+    if (!this.isPlaying) {
+      this.currentPattern = this.sequencer?.getCurrentPattern() ?? this.currentPattern;
+    }
+  }
+
+  /**
+   * Gets the pattern slot waiting to start on the next bar
+   * @returns Pattern slot, or null if nothing is queued
+   */
+  getQueuedPattern(): number | null {
+    return this.sequencer?.getQueuedPattern() ?? null;
+  }
+
+  /**
+   * Gets the pattern slot that is currently playing
+   * @returns Pattern slot (0-63)
+   */
+  getCurrentPattern(): number {
+    return this.currentPattern;
+  }
+
+  /**
+   * Copies a pattern slot into another slot
+   * @param fromIndex - Source pattern slot
+   * @param toIndex - Destination pattern slot
+   */
+  copyPattern(fromIndex: number, toIndex: number): void {
+    this.sequencer?.copyPattern(fromIndex, toIndex);
+  }
+
+  /**
+   * Clears a pattern slot (and the live steps when it is the current one)
+   * @param patternIndex - Pattern slot to clear
+   */
+  clearPattern(patternIndex: number): void {
+    this.sequencer?.clearPattern(patternIndex);
+    this.notifyListeners(this.currentStep);
+  }
+
+  /**
+   * Gets every pattern slot, including the live edits of the current one
+   * @returns Array of 64 slots (null when empty)
+   */
+  getPatterns(): (StoredPattern | null)[] {
+    return this.sequencer?.getPatterns() ?? [];
+  }
+
+  /**
+   * Sets the song arrangement
+   * @param blocks - Ordered pattern blocks with repeat counts
+   */
+  setArrangement(blocks: ArrangementBlock[]): void {
+    this.sequencer?.setArrangement(blocks);
+  }
+
+  /**
+   * Gets the song arrangement
+   * @returns Ordered pattern blocks
+   */
+  getArrangement(): ArrangementBlock[] {
+    return this.sequencer?.getArrangement() ?? [];
+  }
+
+  /**
+   * Enables song mode, which plays the arrangement from the first block and stops at its end
+   * @param enabled - Whether song mode is on
+   */
+  setSongMode(enabled: boolean): void {
+    this.sequencer?.setSongMode(enabled);
+  }
+
+  /**
+   * Checks whether song mode is enabled
+   * @returns True if song mode is on
+   */
+  isSongMode(): boolean {
+    return this.sequencer?.isSongMode() ?? false;
+  }
+
+  /**
+   * Gets the arrangement block that is currently playing
+   * @returns Block index, or -1 when the song is not playing
+   */
+  getSongBlock(): number {
+    return this.isPlaying ? this.songBlock : -1;
+  }
+
+  // Update track effects
+  updateTrackEffects(trackId: string, effects: Partial<TrackEffects>): void {
+    const track = this.getTrackById(trackId);
+    if (!track) return;
+    
+    const before = track.effects;
+    const after = {
+      ...track.effects,
+      ...effects
+    };
+    
+    this.history.execute({
+      label: 'Edit track effects',
+      coalesceKey: `trackEffects:${trackId}:${Object.keys(effects).sort().join(',')}`,
+      undo: () => this.applyTrackEffects(track, before),
+      redo: () => this.applyTrackEffects(track, after)
+    });
+  }
+  
+  // Replace the effects of a track
+  private applyTrackEffects(track: Track, effects: TrackEffects): void {
+    track.effects = effects;
+    
+    // Apply effects
+    this.applyEffects();
+  }
+  
+  /**
+   * Adds or replaces the automation lane of a track effect parameter
+   * Repeated edits of the same lane (dragging a point) become one undo entry.
+   * @param trackId - The ID of the track
+   * @param lane - Lane with its breakpoints, curves and latch mode
+   */
+  setTrackAutomation(trackId: string, lane: AutomationLane): void {
+    const track = this.getTrackById(trackId);
+    if (!track) return;
+
+    if (!isValidAutomationLane(lane, track.steps.length)) {
+      console.warn('Invalid automation lane:', lane);
+      return;
+    }
+
+    const before = track.automation;
+    const normalized = { ...lane, points: normalizeAutomationPoints(lane.points) };
+    const after = [
+      ...(before ?? []).filter(l => l.parameter !== lane.parameter),
+      normalized
+    ];
+
+    this.history.execute({
+      label: 'Edit automation',
+      coalesceKey: `automation:${trackId}:${lane.parameter}`,
+      undo: () => this.applyTrackAutomation(track, before),
+      redo: () => this.applyTrackAutomation(track, after)
+    });
+  }
+
+  /**
+   * Removes the automation lane of a track effect parameter
+   * @param trackId - The ID of the track
+   * @param parameter - Automated parameter, e.g. 'filter.cutoff'
+   */
+  removeTrackAutomation(trackId: string, parameter: AutomationParameter): void {
+    const track = this.getTrackById(trackId);
+    if (!track?.automation?.some(l => l.parameter === parameter)) return;
+
+    const before = track.automation;
+    const after = before.filter(l => l.parameter !== parameter);
+
+    this.history.execute({
+      label: 'Remove automation',
+      undo: () => this.applyTrackAutomation(track, before),
+      redo: () => this.applyTrackAutomation(track, after)
+    });
+  }
+
+  /**
+   * Gets the automation lanes of a track
+   * @param trackId - The ID of the track
+   * @returns Lanes, empty when the track has no automation
+   */
+  getTrackAutomation(trackId: string): AutomationLane[] {
+    return this.getTrackById(trackId)?.automation ?? [];
+  }
+
+  /**
+   * Gets the effect values automation and parameter locks are currently applying
+   * @param trackId - The ID of the track
+   * @returns Effects as heard, or the programmed effects when nothing is automated
+   */
+  getAutomatedEffects(trackId: string): TrackEffects | undefined {
+    return this.sequencer?.getAutomatedEffects(trackId);
+  }
+
+  // Replace the automation lanes of a track
+  private applyTrackAutomation(track: Track, lanes: AutomationLane[] | undefined): void {
+    track.automation = lanes;
+  }
+
+  // Update master effects
+  updateMasterEffects(effects: Partial<MasterEffects>): void {
+    const before = this.masterEffects;
+    const after = {
+      ...this.masterEffects,
+      ...effects
+    };
+    
+    this.history.execute({
+      label: 'Edit master effects',
+      coalesceKey: `masterEffects:${Object.keys(effects).sort().join(',')}`,
+      undo: () => this.applyMasterEffects(before),
+      redo: () => this.applyMasterEffects(after)
+    });
+  }
+  
+  // Replace the master effects
+  private applyMasterEffects(effects: MasterEffects): void {
+    this.masterEffects = effects;
+    
+    // Apply effects
+    this.applyEffects();
+  }
+
+  /**
+   * Stores the current mix as a new scene
+   * @param name - Scene name, numbered automatically when missing
+   * @returns The new scene, or null when all scene slots are used
+   */
+  storeScene(name?: string): MixerScene | null {
+    if (this.scenes.length >= MAX_SCENES) {
+      console.warn(`Cannot store more than ${MAX_SCENES} scenes`);
+      return null;
+    }
+
+    const scene: MixerScene = {
+      id: `scene_${Date.now()}`,
+      name: name ?? `Scene ${this.scenes.length + 1}`,
+      ...captureMix(this.tracks, this.masterEffects)
+    };
+    this.scenes = [...this.scenes, scene];
+    return scene;
+  }
+
+  /**
+   * Overwrites a scene with the current mix
+   * @param sceneId - The ID of the scene
+   */
+  updateScene(sceneId: string): void {
+    this.scenes = this.scenes.map(scene =>
+      scene.id === sceneId ? { ...scene, ...captureMix(this.tracks, this.masterEffects) } : scene
+    );
+  }
+
+  /**
+   * Renames a scene
+   * @param sceneId - The ID of the scene
+   * @param name - New name
+   */
+  renameScene(sceneId: string, name: string): void {
+    this.scenes = this.scenes.map(scene => scene.id === sceneId ? { ...scene, name } : scene);
+  }
+
+  /**
+   * Deletes a scene, taking it off the crossfader
+   * @param sceneId - The ID of the scene
+   */
+  deleteScene(sceneId: string): void {
+    this.scenes = this.scenes.filter(scene => scene.id !== sceneId);
+    if (this.queuedScene === sceneId) this.queuedScene = null;
+    if (this.crossfader.sceneA === sceneId) this.crossfader = { ...this.crossfader, sceneA: null };
+    if (this.crossfader.sceneB === sceneId) this.crossfader = { ...this.crossfader, sceneB: null };
+  }
+
+  /**
+   * Gets all scenes
+   * @returns Scenes in the order they were stored
+   */
+  getScenes(): MixerScene[] {
+    return this.scenes;
+  }
+
+  /**
+   * Recalls a scene; while playing the recall waits for the next bar
+   * Recalls are performance moves and do not enter the undo history.
+   * @param sceneId - The ID of the scene
+   * @param quantize - Wait for the next bar (default), or recall right away
+   */
+  recallScene(sceneId: string, quantize: boolean = true): void {
+    const scene = this.scenes.find(s => s.id === sceneId);
+    if (!scene) {
+      console.warn(`Scene not found: ${sceneId}`);
+      return;
+    }
+
+    if (quantize && this.isPlaying) {
+      this.queuedScene = sceneId;
+      this.notifyListeners(this.currentStep);
+      return;
+    }
+
+    this.queuedScene = null;
+    this.applySceneMix(scene);
+  }
+
+  /**
+   * Gets the scene waiting for the next bar
+   * @returns Scene ID, or null when no recall is queued
+   */
+  getQueuedScene(): string | null {
+    return this.queuedScene;
+  }
+
+  /**
+   * Puts two scenes on the ends of the crossfader
+   * @param sceneA - Scene at position 0, or null
+   * @param sceneB - Scene at position 1, or null
+   */
+  setCrossfaderScenes(sceneA: string | null, sceneB: string | null): void {
+    this.crossfader = { ...this.crossfader, sceneA, sceneB };
+  }
+
+  /**
+   * Moves the crossfader, morphing the mix between its two scenes
+   * @param position - 0 plays scene A, 1 plays scene B
+   */
+  setCrossfader(position: number): void {
+    if (!Number.isFinite(position) || position < 0 || position > 1) {
+      console.warn('Crossfader position out of range (0-1):', position);
+      return;
+    }
+
+    this.crossfader = { ...this.crossfader, position };
+
+    const sceneA = this.scenes.find(scene => scene.id === this.crossfader.sceneA);
+    const sceneB = this.scenes.find(scene => scene.id === this.crossfader.sceneB);
+    if (!sceneA || !sceneB) return;
+
+    // Moving the fader takes over from a pending recall
+    this.queuedScene = null;
+    this.applySceneMix(blendMixes(sceneA, sceneB, position));
+  }
+
+  /**
+   * Gets the crossfader scenes and position
+   * @returns Crossfader state
+   */
+  getCrossfader(): Crossfader {
+    return { ...this.crossfader };
+  }
+
+  // Recall the scene waiting for the bar
+  private recallQueuedScene(): void {
+    const scene = this.scenes.find(s => s.id === this.queuedScene);
+    this.queuedScene = null;
+    if (scene) {
+      this.applySceneMix(scene);
+    }
+  }
+
+  // Write a mix into the tracks and master bus
+  private applySceneMix(mix: Mix): void {
+    this.masterEffects = applyMix(mix, this.tracks);
+    this.sequencer?.setMasterEffects(this.masterEffects);
+    this.applyEffects();
+    this.notifyListeners(this.currentStep);
+  }
+
+  /**
+   * Undoes the last edit
+   * @returns Label of the undone edit, or null when there is nothing to undo
+   */
+  undo(): string | null {
+    const label = this.history.undo();
+    if (label) this.notifyListeners(this.currentStep);
+    return label;
+  }
+
+  /**
+   * Redoes the last undone edit
+   * @returns Label of the redone edit, or null when there is nothing to redo
+   */
+  redo(): string | null {
+    const label = this.history.redo();
+    if (label) this.notifyListeners(this.currentStep);
+    return label;
+  }
+
+  /**
+   * Checks whether there is an edit to undo
+   * @returns True if undo is available
+   */
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Checks whether there is an edit to redo
+   * @returns True if redo is available
+   */
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Gets the labels of the edits undo and redo would apply
+   * @returns Undo and redo labels (null when unavailable)
+   */
+  getHistoryLabels(): { undo: string | null; redo: string | null } {
+    return { undo: this.history.getUndoLabel(), redo: this.history.getRedoLabel() };
+  }
+
+  /**
+   * Starts a new editing session; its edits are grouped in the history
+   */
+  beginEditSession(): void {
+    this.history.beginSession();
+  }
+
+  /**
+   * Undoes every edit of the most recent editing session
+   * @returns Number of edits undone
+   */
+  undoEditSession(): number {
+    const count = this.history.undoSession();
+    if (count > 0) this.notifyListeners(this.currentStep);
+    return count;
+  }
+
+  /**
+   * Redoes every edit of the next undone editing session
+   * @returns Number of edits redone
+   */
+  redoEditSession(): number {
+    const count = this.history.redoSession();
+    if (count > 0) this.notifyListeners(this.currentStep);
+    return count;
   }
   
   // Clean up resources
   async cleanup(): Promise<void> {
     this.stop();
+    this.pcmBackend?.output.stop();
+    this.pcmBackend = null;
     
     // Unload all sounds
     for (const sound of this.loadedSounds.values()) {
@@ -0,0 +1,145 @@
+import { Step } from './enhancedAudioEngine';
+
+// Groove templates: a repeating map of timing offsets and velocity accents
+// applied on top of the programmed steps.
+
+interface GrooveTemplate {
+  id: string;
+  name: string;
+  length: number; // Steps in one groove cycle (2 = 16th pairs, 4 = 8th pairs)
+  timing: number[]; // Offset per position, in steps (positive = late)
+  velocity: number[]; // Velocity multiplier per position (1 = unchanged)
+}
+
+// Groove applied to a project
+interface Groove {
+  template: GrooveTemplate;
+  amount: number; // 0-1, global groove depth
+}
+
+// Convert an MPC swing percentage into a groove template
+// 50% is straight, 66% is a triplet feel. At 8th resolution the swung note is the
+// offbeat 8th, at 16th resolution every second 16th.
+const createSwingTemplate = (
+  id: string,
+  name: string,
+  swingPercent: number,
+  resolution: '8th' | '16th',
+  velocity?: number[]
+): GrooveTemplate => {
+  const pairLength = resolution === '8th' ? 4 : 2;
+  const offset = ((swingPercent - 50) / 50) * pairLength / 2;
+
+  const timing = new Array(pairLength).fill(0);
+  timing[pairLength / 2] = offset;
+
+  return {
+    id,
+    name,
+    length: pairLength,
+    timing,
+    velocity: velocity ?? new Array(pairLength).fill(1)
+  };
+};
+
+// Built-in grooves
+const GROOVE_TEMPLATES: GrooveTemplate[] = [
+  createSwingTemplate('mpc_16_54', 'MPC 54% (16th)', 54, '16th'),
+  createSwingTemplate('mpc_16_58', 'MPC 58% (16th)', 58, '16th'),
+  createSwingTemplate('mpc_16_62', 'MPC 62% (16th)', 62, '16th'),
+  createSwingTemplate('mpc_16_66', 'MPC 66% (16th)', 66, '16th'),
+  createSwingTemplate('mpc_8_54', 'MPC 54% (8th)', 54, '8th'),
+  createSwingTemplate('mpc_8_58', 'MPC 58% (8th)', 58, '8th'),
+  createSwingTemplate('mpc_8_62', 'MPC 62% (8th)', 62, '8th'),
+  createSwingTemplate('mpc_8_66', 'MPC 66% (8th)', 66, '8th'),
+  // 909 shuffle pushes every second 16th and softens it
+  createSwingTemplate('909_shuffle_2', '909 Shuffle 2', 56, '16th', [1, 0.85]),
+  createSwingTemplate('909_shuffle_4', '909 Shuffle 4', 62, '16th', [1, 0.8]),
+  createSwingTemplate('909_shuffle_6', '909 Shuffle 6', 68, '16th', [1, 0.75]),
+  {
+    id: 'accent_4',
+    name: 'Quarter Accents',
+    length: 4,
+    timing: [0, 0, 0, 0],
+    velocity: [1, 0.75, 0.85, 0.75]
+  },
+  {
+    id: 'accent_16',
+    name: 'Bar Accents',
+    length: 16,
+    timing: new Array(16).fill(0),
+    velocity: [1, 0.7, 0.8, 0.7, 0.9, 0.7, 0.8, 0.7, 0.95, 0.7, 0.8, 0.7, 0.9, 0.7, 0.8, 0.75]
+  }
+];
+
+// Find a built-in groove
+const getGrooveTemplate = (id: string): GrooveTemplate | undefined => {
+  return GROOVE_TEMPLATES.find(template => template.id === id);
+};
+
+// Timing offset of a track step in steps, scaled by the groove amount
+const getGrooveTimingOffset = (groove: Groove, trackStep: number, trackAmount: number): number => {
+  const { template } = groove;
+  const position = trackStep % template.length;
+  return (template.timing[position] ?? 0) * groove.amount * trackAmount;
+};
+
+// Velocity multiplier of a track step, scaled by the groove amount
+const getGrooveVelocityScale = (groove: Groove, trackStep: number, trackAmount: number): number => {
+  const { template } = groove;
+  const position = trackStep % template.length;
+  const accent = template.velocity[position] ?? 1;
+  return 1 + (accent - 1) * groove.amount * trackAmount;
+};
+
+// Extract a groove from the micro-timing and velocity of existing steps
+// Every position of the cycle averages the active steps that fall on it; accents
+// are normalized so the loudest position stays at full velocity.
+const extractGroove = (steps: Step[], length: number, name: string): GrooveTemplate => {
+  const timing: number[] = [];
+  const velocity: number[] = [];
+
+  for (let position = 0; position < length; position++) {
+    const hits = steps.filter((step, index) => step.active && index % length === position);
+
+    if (hits.length === 0) {
+      timing.push(0);
+      velocity.push(1);
+      continue;
+    }
+
+    timing.push(hits.reduce((sum, step) => sum + step.microTiming, 0) / hits.length);
+    velocity.push(hits.reduce((sum, step) => sum + step.velocity, 0) / hits.length);
+  }
+
+  const loudest = Math.max(...velocity);
+  const normalizedVelocity = velocity.map(value => (loudest > 0 ? value / loudest : 1));
+
+  return {
+    id: `groove_${Date.now()}`,
+    name,
+    length,
+    timing,
+    velocity: normalizedVelocity
+  };
+};
+
+// Check that a groove template is usable
+const isValidGrooveTemplate = (template: GrooveTemplate): boolean => {
+  return Number.isInteger(template.length) &&
+    template.length > 0 &&
+    template.timing.length === template.length &&
+    template.velocity.length === template.length;
+};
+
+export {
+  GrooveTemplate,
+  Groove,
+  GROOVE_TEMPLATES,
+  createSwingTemplate,
+  getGrooveTemplate,
+  getGrooveTimingOffset,
+  getGrooveVelocityScale,
+  extractGroove,
+  isValidGrooveTemplate
+};
@@ -0,0 +1,152 @@
+// Command history for undo/redo
+// Every edit is recorded as a command that knows how to undo and redo itself.
+// Consecutive edits with the same coalesce key (e.g. one slider drag) merge into
+// a single entry, and entries are grouped by editing session so a whole session
+// can be rolled back at once.
+
+interface HistoryCommand {
+  label: string; // Shown next to the undo/redo buttons, e.g. "Edit step"
+  undo: () => void;
+  redo: () => void;
+  coalesceKey?: string; // Edits with the same key in quick succession become one entry
+}
+
+interface HistoryEntry extends HistoryCommand {
+  session: number;
+  time: number; // Time of the last edit merged into this entry
+}
+
+const MAX_HISTORY_ENTRIES = 200;
+
+// Edits further apart than this never merge, even with the same key
+const COALESCE_WINDOW_MS = 1000;
+
+class CommandHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private session: number = 0;
+  private clock: () => number;
+
+  constructor(clock: () => number = Date.now) {
+    this.clock = clock;
+  }
+
+  // Apply a command and record it
+  execute(command: HistoryCommand): void {
+    command.redo();
+    this.push(command);
+  }
+
+  // Record a command that has already been applied
+  push(command: HistoryCommand): void {
+    const now = this.clock();
+    const last = this.undoStack[this.undoStack.length - 1];
+    this.redoStack = [];
+
+    // Merge into the previous entry: keep its undo, take the newest redo
+    if (command.coalesceKey &&
+      last &&
+      last.coalesceKey === command.coalesceKey &&
+      last.session === this.session &&
+      now - last.time < COALESCE_WINDOW_MS) {
+      last.redo = command.redo;
+      last.time = now;
+      return;
+    }
+
+    this.undoStack.push({ ...command, session: this.session, time: now });
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) {
+      this.undoStack.shift();
+    }
+  }
+
+  // Undo the last entry, returning its label
+  undo(): string | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    try {
+      entry.undo();
+    } catch (error) {
+      console.error(`Error undoing "${entry.label}":`, error);
+    }
+
+    this.redoStack.push(entry);
+    return entry.label;
+  }
+
+  // Redo the last undone entry, returning its label
+  redo(): string | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    try {
+      entry.redo();
+    } catch (error) {
+      console.error(`Error redoing "${entry.label}":`, error);
+    }
+
+    // Redone entries never merge with later edits
+    this.undoStack.push({ ...entry, time: 0 });
+    return entry.label;
+  }
+
+  // Undo every entry of the most recent session, returning how many were undone
+  undoSession(): number {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (!last) return 0;
+
+    let count = 0;
+    while (this.undoStack.length > 0 && this.undoStack[this.undoStack.length - 1].session === last.session) {
+      this.undo();
+      count++;
+    }
+    return count;
+  }
+
+  // Redo every entry of the next undone session, returning how many were redone
+  redoSession(): number {
+    const next = this.redoStack[this.redoStack.length - 1];
+    if (!next) return 0;
+
+    let count = 0;
+    while (this.redoStack.length > 0 && this.redoStack[this.redoStack.length - 1].session === next.session) {
+      this.redo();
+      count++;
+    }
+    return count;
+  }
+
+  // Start a new editing session; later edits never merge with earlier ones
+  beginSession(): void {
+    this.session++;
+  }
+
+  // Check whether there is anything to undo
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  // Check whether there is anything to redo
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Label of the entry undo would revert
+  getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  // Label of the entry redo would reapply
+  getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  // Forget all history (e.g. after loading another project)
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+export { CommandHistory, HistoryCommand, MAX_HISTORY_ENTRIES, COALESCE_WINDOW_MS };
@@ -0,0 +1,313 @@
+import { MasterEffects } from './enhancedAudioEngine';
+import { Biquad } from './dsp';
+import { StereoBuffer } from './mixer';
+
+// Master bus
+// The summed mix runs through EQ -> compressor -> limiter. The EQ is a low shelf,
+// a mid bell and a high shelf. The compressor is feed-forward with a soft knee,
+// linked across both channels, with makeup gain that restores half the reduction
+// of a full-scale peak. The limiter drives the signal into a brickwall ceiling
+// and looks ahead far enough to catch peaks between samples (estimated at 4x
+// oversampling), so the mix plays back without overs. Both dynamics stages
+// report the peak gain reduction since the meter was last read.
+
+// Gain reduction in dB (0 when nothing is reduced)
+interface MasterMeter {
+  compressor: number;
+  limiter: number;
+}
+
+// EQ band frequencies (Hz), and the boost or cut of a full knob (dB)
+const EQ_LOW_FREQUENCY = 100;
+const EQ_MID_FREQUENCY = 1000;
+const EQ_HIGH_FREQUENCY = 8000;
+const EQ_Q = 0.707;
+const MAX_EQ_GAIN = 12;
+
+// The threshold knob is a linear level; this is where its bottom end sits (dB)
+const MIN_THRESHOLD = -60;
+const COMPRESSOR_KNEE = 6; // dB
+const MAX_RATIO = 20;
+const MIN_ENVELOPE_TIME = 0.0001; // Seconds, keeps envelope coefficients finite
+
+// Input gain of a full limiter knob (dB), the ceiling (dBTP), lookahead and release (s)
+const MAX_LIMITER_DRIVE = 6;
+const LIMITER_CEILING = -0.3;
+const LIMITER_LOOKAHEAD = 0.0015;
+const LIMITER_RELEASE = 0.08;
+
+// True-peak estimation: samples either side of the interpolated points, and their positions between two samples
+const TRUE_PEAK_RADIUS = 4;
+const TRUE_PEAK_PHASES = [0.25, 0.5, 0.75];
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+const gainToDb = (gain: number): number => 20 * Math.log10(gain);
+
+// Coefficient of a one-pole envelope with a time constant in seconds
+const getEnvelopeCoefficient = (time: number, sampleRate: number): number => {
+  return Math.exp(-1 / (Math.max(MIN_ENVELOPE_TIME, time) * sampleRate));
+};
+
+// Windowed-sinc interpolation filters, one per phase (taps for samples -3 to +4)
+const TRUE_PEAK_FILTERS = TRUE_PEAK_PHASES.map(phase => {
+  const taps: number[] = [];
+  for (let k = 1 - TRUE_PEAK_RADIUS; k <= TRUE_PEAK_RADIUS; k++) {
+    const t = k - phase;
+    const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 * (1 + Math.cos(Math.PI * t / TRUE_PEAK_RADIUS));
+    taps.push(sinc * window);
+  }
+  const sum = taps.reduce((total, tap) => total + tap, 0);
+  return taps.map(tap => tap / sum);
+});
+
+// Low shelf, mid bell and high shelf on both channels
+class Equalizer {
+  private bands: Biquad[][] = [[new Biquad(), new Biquad(), new Biquad()], [new Biquad(), new Biquad(), new Biquad()]];
+  private sampleRate: number;
+  private active: boolean = false;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  setEffects(eq: MasterEffects['eq']): void {
+    const gains = [eq.low, eq.mid, eq.high].map(value => Math.max(-1, Math.min(1, value)) * MAX_EQ_GAIN);
+    const active = gains.some(gain => gain !== 0);
+    if (active && !this.active) {
+      this.reset();
+    }
+    this.active = active;
+
+    this.bands.forEach(([low, mid, high]) => {
+      low.setEqParameters('lowshelf', EQ_LOW_FREQUENCY, gains[0], EQ_Q, this.sampleRate);
+      mid.setEqParameters('peaking', EQ_MID_FREQUENCY, gains[1], EQ_Q, this.sampleRate);
+      high.setEqParameters('highshelf', Math.min(EQ_HIGH_FREQUENCY, this.sampleRate * 0.45), gains[2], EQ_Q, this.sampleRate);
+    });
+  }
+
+  process(buffer: StereoBuffer, frames: number): void {
+    if (!this.active) return;
+
+    [buffer.left, buffer.right].forEach((channel, i) => {
+      this.bands[i].forEach(band => band.process(channel, 0, frames));
+    });
+  }
+
+  reset(): void {
+    this.bands.forEach(channel => channel.forEach(band => band.reset()));
+  }
+}
+
+// Feed-forward compressor, stereo linked
+class Compressor {
+  private sampleRate: number;
+  private threshold: number = 0; // dB
+  private ratio: number = 1;
+  private attack: number = 0;
+  private release: number = 0;
+  private makeup: number = 0; // dB
+  private reduction: number = 0; // Current gain reduction (dB)
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  setEffects(compressor: MasterEffects['compressor']): void {
+    const level = Math.max(0, Math.min(1, compressor.threshold));
+    this.threshold = level > 0 ? Math.max(MIN_THRESHOLD, gainToDb(level)) : MIN_THRESHOLD;
+    this.ratio = Math.max(1, Math.min(MAX_RATIO, compressor.ratio));
+    this.attack = getEnvelopeCoefficient(compressor.attack, this.sampleRate);
+    this.release = getEnvelopeCoefficient(compressor.release, this.sampleRate);
+    this.makeup = this.getReduction(0) / 2;
+  }
+
+  // Gain reduction (dB) the static curve applies to a level (dB)
+  private getReduction(level: number): number {
+    const over = level - this.threshold;
+    const slope = 1 - 1 / this.ratio;
+    if (2 * over <= -COMPRESSOR_KNEE) return 0;
+    if (2 * over < COMPRESSOR_KNEE) return slope * Math.pow(over + COMPRESSOR_KNEE / 2, 2) / (2 * COMPRESSOR_KNEE);
+    return slope * over;
+  }
+
+  // Compress a block and return its peak gain reduction (dB)
+  process(buffer: StereoBuffer, frames: number): number {
+    if (this.ratio === 1 && this.reduction === 0) return 0;
+
+    const { left, right } = buffer;
+    let peak = 0;
+    for (let i = 0; i < frames; i++) {
+      const level = Math.max(Math.abs(left[i]), Math.abs(right[i]));
+      const target = level > 0 ? this.getReduction(gainToDb(level)) : 0;
+      const coefficient = target > this.reduction ? this.attack : this.release;
+      this.reduction = target + (this.reduction - target) * coefficient;
+
+      const gain = dbToGain(this.makeup - this.reduction);
+      left[i] *= gain;
+      right[i] *= gain;
+      peak = Math.max(peak, this.reduction);
+    }
+    return peak;
+  }
+
+  reset(): void {
+    this.reduction = 0;
+  }
+}
+
+// Lookahead brickwall limiter against a true-peak ceiling, stereo linked
+// The gain for each sample is the lowest any peak in the lookahead window needs;
+// averaging it over the window ramps the gain down before the peak arrives.
+class Limiter {
+  private drive: number = 1;
+  private ceiling: number = dbToGain(LIMITER_CEILING);
+  private release: number;
+  private lookahead: number; // Frames
+  private history: Float32Array[]; // Latest inputs for the true-peak estimate
+  private delay: Float32Array[]; // Inputs waiting for their gain
+  private required: Float32Array; // Gain each detected peak needs
+  private smoothing: Float32Array; // Gains averaged over the lookahead
+  private smoothingSum: number = 0;
+  private envelope: number = 1;
+  private position: number = 0; // Frames processed
+
+  constructor(sampleRate: number) {
+    this.release = getEnvelopeCoefficient(LIMITER_RELEASE, sampleRate);
+    this.lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+    this.history = [new Float32Array(2 * TRUE_PEAK_RADIUS), new Float32Array(2 * TRUE_PEAK_RADIUS)];
+    this.delay = [new Float32Array(this.getLatency() + 1), new Float32Array(this.getLatency() + 1)];
+    this.required = new Float32Array(this.lookahead + 2);
+    this.smoothing = new Float32Array(this.lookahead);
+    this.reset();
+  }
+
+  // Frames the output trails the input
+  getLatency(): number {
+    return this.lookahead + TRUE_PEAK_RADIUS;
+  }
+
+  setEffects(limiter: number): void {
+    this.drive = dbToGain(Math.max(0, Math.min(1, limiter)) * MAX_LIMITER_DRIVE);
+  }
+
+  // Highest level between the oldest samples of the true-peak history (including the first of them)
+  private getTruePeak(history: Float32Array): number {
+    let peak = Math.abs(history[TRUE_PEAK_RADIUS - 1]);
+    for (const filter of TRUE_PEAK_FILTERS) {
+      let value = 0;
+      for (let j = 0; j < filter.length; j++) {
+        value += filter[j] * history[j];
+      }
+      peak = Math.max(peak, Math.abs(value));
+    }
+    return peak;
+  }
+
+  // Limit a block and return its peak gain reduction (dB)
+  process(buffer: StereoBuffer, frames: number): number {
+    const channels = [buffer.left, buffer.right];
+    let lowestGain = 1;
+
+    // The running sum drifts over long runs, so it starts every block afresh
+    this.smoothingSum = this.smoothing.reduce((total, value) => total + value, 0);
+
+    for (let i = 0; i < frames; i++) {
+      const position = this.position++;
+      const writeIndex = position % this.delay[0].length;
+      const readIndex = (position + 1) % this.delay[0].length;
+
+      // Detect the true peak of the newest complete stretch of input
+      let peak = 0;
+      for (let channel = 0; channel < 2; channel++) {
+        const history = this.history[channel];
+        const input = channels[channel][i] * this.drive;
+        history.copyWithin(0, 1);
+        history[history.length - 1] = input;
+        this.delay[channel][writeIndex] = input;
+        peak = Math.max(peak, this.getTruePeak(history));
+      }
+      this.required[position % this.required.length] = peak > this.ceiling ? this.ceiling / peak : 1;
+
+      // Hold the lowest gain of the window, release slowly, then ramp over the lookahead
+      let target = 1;
+      for (let j = 0; j < this.required.length; j++) {
+        target = Math.min(target, this.required[j]);
+      }
+      this.envelope = target < this.envelope ? target : target - (target - this.envelope) * this.release;
+
+      const smoothingIndex = position % this.smoothing.length;
+      this.smoothingSum += this.envelope - this.smoothing[smoothingIndex];
+      this.smoothing[smoothingIndex] = this.envelope;
+      const gain = Math.min(1, this.smoothingSum / this.lookahead);
+
+      for (let channel = 0; channel < 2; channel++) {
+        channels[channel][i] = this.delay[channel][readIndex] * gain;
+      }
+      lowestGain = Math.min(lowestGain, gain);
+    }
+
+    return lowestGain < 1 ? -gainToDb(lowestGain) : 0;
+  }
+
+  reset(): void {
+    this.history.forEach(history => history.fill(0));
+    this.delay.forEach(delay => delay.fill(0));
+    this.required.fill(1);
+    this.smoothing.fill(1);
+    this.smoothingSum = this.lookahead;
+    this.envelope = 1;
+    this.position = 0;
+  }
+}
+
+// EQ, compressor and limiter of the master output
+class MasterBus {
+  private equalizer: Equalizer;
+  private compressor: Compressor;
+  private limiter: Limiter;
+  private meter: MasterMeter = { compressor: 0, limiter: 0 };
+
+  constructor(sampleRate: number) {
+    this.equalizer = new Equalizer(sampleRate);
+    this.compressor = new Compressor(sampleRate);
+    this.limiter = new Limiter(sampleRate);
+  }
+
+  setEffects(effects: MasterEffects): void {
+    this.equalizer.setEffects(effects.eq);
+    this.compressor.setEffects(effects.compressor);
+    this.limiter.setEffects(effects.limiter);
+  }
+
+  // Frames the output trails the input (the limiter lookahead)
+  getLatency(): number {
+    return this.limiter.getLatency();
+  }
+
+  process(buffer: StereoBuffer, frames: number): void {
+    this.equalizer.process(buffer, frames);
+    this.meter.compressor = Math.max(this.meter.compressor, this.compressor.process(buffer, frames));
+    this.meter.limiter = Math.max(this.meter.limiter, this.limiter.process(buffer, frames));
+  }
+
+  // Peak gain reduction since the last read
+  readMeter(): MasterMeter {
+    const meter = this.meter;
+    this.meter = { compressor: 0, limiter: 0 };
+    return meter;
+  }
+
+  reset(): void {
+    this.equalizer.reset();
+    this.compressor.reset();
+    this.limiter.reset();
+    this.meter = { compressor: 0, limiter: 0 };
+  }
+}
+
+export {
+  MasterMeter,
+  LIMITER_CEILING,
+  MasterBus
+};
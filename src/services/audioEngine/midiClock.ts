@@ -0,0 +1,189 @@
+import { roundBpm } from './tempo';
+
+// MIDI clock sync
+// MIDI clock sends 24 pulses per quarter note (6 per 16th step) plus Start,
+// Continue, Stop and Song Position messages. Song positions count MIDI beats,
+// which are 16th notes, so they map directly onto sequencer steps. The transport
+// interface hides the actual MIDI backend so the sequencer can lead or follow any
+// device, and MockMidiTransport stands in for hardware in tests and demos.
+
+// Where the sequencer clock comes from
+// internal: own tempo, no MIDI; leader: own tempo, sends MIDI clock;
+// follower: tempo and start/stop come from incoming MIDI clock
+type ClockSource = 'internal' | 'leader' | 'follower';
+
+type MidiClockMessage =
+  | { type: 'clock' }
+  | { type: 'start' }
+  | { type: 'continue' }
+  | { type: 'stop' }
+  | { type: 'songPosition'; position: number }; // MIDI beats (16th notes) since song start
+
+type MidiMessageListener = (message: MidiClockMessage, time: number) => void;
+
+// Connection to a MIDI port
+interface MidiTransport {
+  send(message: MidiClockMessage, time: number): void; // Time is an absolute clock time in ms, possibly in the future
+  addListener(listener: MidiMessageListener): () => void; // Returns a function that removes the listener
+}
+
+const PULSES_PER_QUARTER = 24;
+const PULSES_PER_STEP = PULSES_PER_QUARTER / 4;
+
+// Song position pointers are 14-bit values
+const MAX_SONG_POSITION = 0x3fff;
+
+// Pulses the tempo estimate looks back over (two quarter notes)
+const CLOCK_SMOOTHING_WINDOW = 48;
+
+// Encode a message as MIDI bytes
+const encodeMidiClockMessage = (message: MidiClockMessage): number[] => {
+  switch (message.type) {
+    case 'clock':
+      return [0xf8];
+    case 'start':
+      return [0xfa];
+    case 'continue':
+      return [0xfb];
+    case 'stop':
+      return [0xfc];
+    case 'songPosition': {
+      const position = Math.max(0, Math.min(MAX_SONG_POSITION, Math.floor(message.position)));
+      return [0xf2, position & 0x7f, (position >> 7) & 0x7f];
+    }
+  }
+};
+
+// Decode MIDI bytes, ignoring anything that is not a clock message
+const decodeMidiClockMessage = (bytes: number[]): MidiClockMessage | null => {
+  switch (bytes[0]) {
+    case 0xf8:
+      return { type: 'clock' };
+    case 0xfa:
+      return { type: 'start' };
+    case 0xfb:
+      return { type: 'continue' };
+    case 0xfc:
+      return { type: 'stop' };
+    case 0xf2:
+      if (bytes.length < 3) return null;
+      return { type: 'songPosition', position: (bytes[1] & 0x7f) | ((bytes[2] & 0x7f) << 7) };
+    default:
+      return null;
+  }
+};
+
+// Tempo estimate from incoming clock pulses
+// A least-squares line through the recent pulse times averages out the jitter of
+// individual pulses (USB and BLE MIDI easily jitter by a few ms per pulse).
+class MidiClockSmoother {
+  private times: number[] = [];
+  private windowSize: number;
+
+  constructor(windowSize: number = CLOCK_SMOOTHING_WINDOW) {
+    this.windowSize = windowSize;
+  }
+
+  // Add a pulse and return the smoothed tempo, or null until enough pulses arrived
+  addPulse(time: number): number | null {
+    this.times.push(time);
+    if (this.times.length > this.windowSize) {
+      this.times.shift();
+    }
+    return this.getBpm();
+  }
+
+  // Smoothed tempo, or null until enough pulses arrived
+  getBpm(): number | null {
+    const count = this.times.length;
+    if (count < PULSES_PER_STEP) return null;
+
+    // Slope of pulse time over pulse index is the pulse interval
+    const meanIndex = (count - 1) / 2;
+    const meanTime = this.times.reduce((sum, time) => sum + time, 0) / count;
+    let covariance = 0;
+    let variance = 0;
+    this.times.forEach((time, index) => {
+      covariance += (index - meanIndex) * (time - meanTime);
+      variance += (index - meanIndex) * (index - meanIndex);
+    });
+
+    const interval = covariance / variance;
+    if (!(interval > 0)) return null;
+
+    return roundBpm(60000 / (interval * PULSES_PER_QUARTER));
+  }
+
+  // Forget all pulses (after a dropout or a tempo jump)
+  reset(): void {
+    this.times = [];
+  }
+}
+
+// In-memory MIDI port for tests and demos without hardware
+// Sent messages are recorded, received messages are injected by hand, and two
+// mock transports can be linked so a leader drives a follower.
+class MockMidiTransport implements MidiTransport {
+  private listeners: Set<MidiMessageListener> = new Set();
+  private linked: MockMidiTransport | null = null;
+  readonly sent: { message: MidiClockMessage; time: number }[] = [];
+
+  // Record an outgoing message and pass it on to a linked transport
+  send(message: MidiClockMessage, time: number): void {
+    this.sent.push({ message, time });
+    this.linked?.receive(message, time);
+  }
+
+  // Listen for incoming messages
+  addListener(listener: MidiMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Deliver an incoming message to every listener
+  receive(message: MidiClockMessage, time: number): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(message, time);
+      } catch (error) {
+        console.error('Error in MIDI listener:', error);
+      }
+    });
+  }
+
+  // Deliver clock pulses at a tempo, with optional random jitter in ms
+  receivePulses(bpm: number, count: number, startTime: number, jitterMs: number = 0, random: () => number = Math.random): number {
+    const interval = 60000 / bpm / PULSES_PER_QUARTER;
+    for (let pulse = 0; pulse < count; pulse++) {
+      const jitter = jitterMs > 0 ? (random() * 2 - 1) * jitterMs : 0;
+      this.receive({ type: 'clock' }, startTime + pulse * interval + jitter);
+    }
+    return startTime + count * interval;
+  }
+
+  // Send everything this transport sends to another transport
+  link(other: MockMidiTransport | null): void {
+    this.linked = other;
+  }
+
+  // Forget recorded messages
+  clearSent(): void {
+    this.sent.length = 0;
+  }
+}
+
+export {
+  ClockSource,
+  MidiClockMessage,
+  MidiMessageListener,
+  MidiTransport,
+  PULSES_PER_QUARTER,
+  PULSES_PER_STEP,
+  MAX_SONG_POSITION,
+  encodeMidiClockMessage,
+  decodeMidiClockMessage,
+  MidiClockSmoother,
+  MockMidiTransport
+};
@@ -0,0 +1,504 @@
+import { TrackEffects, MasterEffects } from './enhancedAudioEngine';
+import { TrackChain, Ducker, DEFAULT_SAMPLE_RATE } from './dsp';
+import { MasterBus, MasterMeter } from './master';
+import { Clock, monotonicClock } from './scheduler';
+
+// Engine-side mixer
+// Instead of firing one platform player per track, the sequencer hands its
+// triggers to the mixer, which plays the decoded samples, runs every track
+// through its effect chain and sums the tracks into one stereo stream. An output
+// pulls blocks from render(). Events are timestamped on the scheduler clock and
+// the sequencer hands them over as it queues them, ahead of time, so every hit
+// lands on its exact frame whatever the timers do; the mix trails the clock by
+// one block. Each track plays one voice at a time like the sample players it
+// replaces: a new hit cuts the previous one with a short declick fade, and takes
+// over the gate of the hit before it.
+// A track can be ducked by another track (sidechain), so all tracks are rendered
+// through their effects before any is mixed. The sum runs through the master
+// bus, which delays it by the limiter lookahead.
+// While stems are captured, every track is also written to its own buffer,
+// tapped before or after its effects and with its volume and pan applied.
+
+// Decoded PCM, one array per channel (mono or stereo)
+interface SampleBuffer {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+interface StereoBuffer {
+  left: Float32Array;
+  right: Float32Array;
+}
+
+// Mix settings of one track as heard
+interface TrackMixState {
+  volume: number;
+  pan: number; // -1 (left) to 1 (right)
+  audible: boolean; // False while muted or silenced by a solo
+  effects: TrackEffects;
+}
+
+// Where stems are tapped: the dry voices or the output of the track effects
+type StemSource = 'pre' | 'post';
+
+interface TriggerOptions {
+  gain: number; // Hit level before the track volume
+  rate: number; // Playback rate, transposes the sample
+}
+
+type MixerEvent =
+  | { type: 'trigger'; trackId: string; time: number; options: TriggerOptions }
+  | { type: 'release'; trackId: string; time: number; fade: number; gate: boolean }
+  | { type: 'rate'; trackId: string; time: number; rate: number };
+
+interface Voice {
+  sample: SampleBuffer;
+  position: number; // Read position in sample frames
+  rate: number;
+  gain: number;
+  fadeLength: number; // Frames of the release fade, 0 until released
+  fadeRemaining: number;
+}
+
+interface MixerTrack {
+  chain: TrackChain;
+  sample: SampleBuffer | null;
+  mix: TrackMixState | null;
+  voices: Voice[];
+  gainLeft: number; // Pan and volume of the last block, ramped to avoid zipper noise
+  gainRight: number;
+  idleFrames: number; // Frames since the last voice ended
+  rendered: boolean; // Whether the track was rendered in the current block (idle tracks are skipped)
+  left: Float32Array;
+  right: Float32Array;
+  ducker: Ducker;
+  duck: Float32Array; // Sidechain gains of the current block
+  stem: StereoBuffer | null; // Allocated while stems are captured
+  stemMaster: MasterBus | null; // Master processing of the stem, when asked for
+}
+
+// Fade of a voice cut by the next hit on its track (ms)
+const DECLICK_TIME = 3;
+
+// Effect tails keep being processed this long after the last voice ends (s)
+const TAIL_TIME = 6;
+
+// Largest block an output may ask for
+const MAX_BLOCK_FRAMES = 8192;
+
+// Blocks the render clock may fall behind the scheduler clock before it resyncs
+const MAX_RENDER_DRIFT = 4;
+
+// Clip a block to full scale
+const hardClip = (buffer: StereoBuffer, frames: number): void => {
+  for (let i = 0; i < frames; i++) {
+    buffer.left[i] = Math.max(-1, Math.min(1, buffer.left[i]));
+    buffer.right[i] = Math.max(-1, Math.min(1, buffer.right[i]));
+  }
+};
+
+// Pan law: the center keeps full level on both sides
+const getPanGains = (pan: number, volume: number): [number, number] => {
+  const value = Math.max(-1, Math.min(1, pan));
+  return [Math.min(1, 1 - value) * volume, Math.min(1, 1 + value) * volume];
+};
+
+// Stereo buffer for one block
+const createBlockBuffer = (): StereoBuffer => ({
+  left: new Float32Array(MAX_BLOCK_FRAMES),
+  right: new Float32Array(MAX_BLOCK_FRAMES)
+});
+
+// Effect settings that leave the signal untouched (until a track's mix arrives)
+const createBypassEffects = (): TrackEffects => ({
+  filter: { type: 'lowpass', cutoff: 1, resonance: 0, envelope: 0 },
+  delay: { time: 0, feedback: 0, mix: 0 },
+  reverb: { size: 0, damping: 0.5, mix: 0 },
+  distortion: { amount: 0, tone: 0.5 }
+});
+
+class DspMixer {
+  private sampleRate: number;
+  private clock: Clock;
+  private tracks: Map<string, MixerTrack> = new Map();
+  private events: MixerEvent[] = [];
+  private renderTime: number | null = null; // Scheduler time of the next frame rendered
+  private bpm: number = 140;
+  private output: StereoBuffer;
+  private master: MasterBus;
+  private masterEffects: MasterEffects | null = null;
+  private stemSource: StemSource | null = null;
+  private stemsThroughMaster: boolean = false;
+  private lastFrames: number = 0; // Length of the last rendered block
+
+  constructor(sampleRate: number = DEFAULT_SAMPLE_RATE, clock: Clock = monotonicClock) {
+    this.sampleRate = sampleRate;
+    this.clock = clock;
+    this.output = { left: new Float32Array(MAX_BLOCK_FRAMES), right: new Float32Array(MAX_BLOCK_FRAMES) };
+    this.master = this.createMasterBus();
+  }
+
+  // Sample rate of the rendered stream
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  // Get or create the state of a track
+  private getTrack(trackId: string): MixerTrack {
+    let track = this.tracks.get(trackId);
+    if (!track) {
+      track = {
+        chain: new TrackChain(createBypassEffects(), this.sampleRate),
+        sample: null,
+        mix: null,
+        voices: [],
+        gainLeft: 0,
+        gainRight: 0,
+        idleFrames: Infinity,
+        rendered: false,
+        left: new Float32Array(MAX_BLOCK_FRAMES),
+        right: new Float32Array(MAX_BLOCK_FRAMES),
+        ducker: new Ducker(this.sampleRate),
+        duck: new Float32Array(MAX_BLOCK_FRAMES),
+        stem: this.stemSource ? createBlockBuffer() : null,
+        stemMaster: this.stemSource && this.stemsThroughMaster ? this.createMasterBus() : null
+      };
+      track.chain.setTempo(this.bpm);
+      this.tracks.set(trackId, track);
+    }
+    return track;
+  }
+
+  // Set the sample a track plays
+  setTrackSample(trackId: string, sample: SampleBuffer): void {
+    if (sample.channels.length === 0 || sample.sampleRate <= 0) {
+      console.warn(`Invalid sample for track: ${trackId}`);
+      return;
+    }
+    this.getTrack(trackId).sample = sample;
+  }
+
+  // Check whether a track has a sample to play
+  hasTrackSample(trackId: string): boolean {
+    return this.tracks.get(trackId)?.sample != null;
+  }
+
+  // Update the volume, pan, audibility and effects of a track
+  setTrackMix(trackId: string, mix: TrackMixState): void {
+    const track = this.getTrack(trackId);
+    track.mix = mix;
+    track.chain.setEffects(mix.effects);
+    track.ducker.setSidechain(mix.effects.sidechain ?? null);
+  }
+
+  // Forget a track that was removed
+  removeTrack(trackId: string): void {
+    this.tracks.delete(trackId);
+    this.events = this.events.filter(event => event.trackId !== trackId);
+  }
+
+  // Tempo the tempo-synced effects follow
+  setTempo(bpm: number): void {
+    this.bpm = bpm;
+    this.tracks.forEach(track => track.chain.setTempo(bpm));
+  }
+
+  // Queue a hit at a scheduler time
+  // Gates of earlier hits that would close after it are dropped: the new hit owns the voice.
+  trigger(trackId: string, time: number, options: TriggerOptions): void {
+    this.events = this.events.filter(event =>
+      !(event.type === 'release' && event.gate && event.trackId === trackId && event.time >= time));
+    this.queue({ type: 'trigger', trackId, time, options });
+  }
+
+  // Change the playback rate of the sounding voice (slides, pitch locks)
+  setRate(trackId: string, time: number, rate: number): void {
+    this.queue({ type: 'rate', trackId, time, rate });
+  }
+
+  // Fade out the sounding voice of a track (gates, chokes)
+  release(trackId: string, time: number, fade: number = DECLICK_TIME): void {
+    this.queue({ type: 'release', trackId, time, fade, gate: false });
+  }
+
+  // Cut the voice of a track at the end of its gate, unless a later hit comes first
+  closeGate(trackId: string, time: number): void {
+    this.queue({ type: 'release', trackId, time, fade: DECLICK_TIME, gate: true });
+  }
+
+  // Set the EQ, compressor and limiter of the master bus
+  setMasterEffects(effects: MasterEffects): void {
+    this.masterEffects = effects;
+    this.master.setEffects(effects);
+    this.tracks.forEach(track => track.stemMaster?.setEffects(effects));
+  }
+
+  // Peak gain reduction of the master compressor and limiter since the last call
+  getMasterMeter(): MasterMeter {
+    return this.master.readMeter();
+  }
+
+  // Frames the rendered stream trails its scheduler time (stems without master processing do not)
+  getLatency(): number {
+    return this.master.getLatency();
+  }
+
+  // Deepest sidechain ducking of every ducked track since the last call (dB)
+  getSidechainMeter(): { [trackId: string]: number } {
+    const meter: { [trackId: string]: number } = {};
+    this.tracks.forEach((track, trackId) => {
+      if (track.ducker.getSource() !== null) {
+        meter[trackId] = track.ducker.readMeter();
+      }
+    });
+    return meter;
+  }
+
+  // Capture every track to its own stem while rendering (null stops capturing)
+  // Stems can run through the master processing, each on its own.
+  setStemCapture(source: StemSource | null, throughMaster: boolean = false): void {
+    this.stemSource = source;
+    this.stemsThroughMaster = throughMaster;
+    this.tracks.forEach(track => {
+      track.stem = source ? track.stem ?? createBlockBuffer() : null;
+      track.stemMaster = source && throughMaster ? track.stemMaster ?? this.createMasterBus() : null;
+    });
+  }
+
+  // Stem of a track in the last rendered block, or null when stems are not captured
+  // The returned arrays are reused by the next block.
+  getStem(trackId: string): StereoBuffer | null {
+    const stem = this.tracks.get(trackId)?.stem;
+    if (!stem) return null;
+    return { left: stem.left.subarray(0, this.lastFrames), right: stem.right.subarray(0, this.lastFrames) };
+  }
+
+  // Fade out every voice at a scheduler time and drop the hits queued after it
+  // Effect tails ring out like on a hardware mixer.
+  stopAll(time: number = this.clock()): void {
+    this.dropEvents(time);
+    this.tracks.forEach((_, trackId) => this.release(trackId, time));
+  }
+
+  // Drop the events queued from a scheduler time on (the sequencer dropped its queue)
+  dropEvents(time: number = this.clock()): void {
+    this.events = this.events.filter(event => event.time < time);
+  }
+
+  // Keep the event queue sorted by time (events mostly arrive in order)
+  private queue(event: MixerEvent): void {
+    let index = this.events.length;
+    while (index > 0 && this.events[index - 1].time > event.time) {
+      index--;
+    }
+    this.events.splice(index, 0, event);
+  }
+
+  // Render the next block of the mix
+  // The returned arrays are reused by the next call.
+  render(frames: number): StereoBuffer {
+    const blockFrames = Math.max(0, Math.min(MAX_BLOCK_FRAMES, Math.floor(frames)));
+    const blockTime = blockFrames / this.sampleRate * 1000;
+
+    // Render the block that just went by on the scheduler clock
+    const target = this.clock() - blockTime;
+    if (this.renderTime === null || Math.abs(this.renderTime - target) > blockTime * MAX_RENDER_DRIFT) {
+      this.renderTime = target;
+    }
+
+    const startTime = this.renderTime;
+    this.renderTime += blockTime;
+    return this.renderAt(startTime, blockFrames);
+  }
+
+  // Mix a block of up to MAX_BLOCK_FRAMES starting at a scheduler time
+  // Offline rendering sets the time itself. The returned arrays are reused by the next call.
+  renderAt(startTime: number, frames: number): StereoBuffer {
+    const { left, right } = this.output;
+    left.fill(0, 0, frames);
+    right.fill(0, 0, frames);
+    this.lastFrames = frames;
+
+    const endTime = startTime + frames / this.sampleRate * 1000;
+    const due: MixerEvent[] = [];
+    while (this.events.length > 0 && this.events[0].time < endTime) {
+      due.push(this.events.shift()!);
+    }
+
+    this.tracks.forEach((track, trackId) => {
+      if (track.stem) {
+        track.stem.left.fill(0, 0, frames);
+        track.stem.right.fill(0, 0, frames);
+      }
+
+      const trackEvents = due.filter(event => event.trackId === trackId);
+      track.rendered = track.voices.length > 0 || trackEvents.length > 0 || track.idleFrames <= TAIL_TIME * this.sampleRate;
+      if (!track.rendered) return;
+
+      track.left.fill(0, 0, frames);
+      track.right.fill(0, 0, frames);
+
+      // Play the voices up to each event, then apply it on its frame
+      let position = 0;
+      trackEvents.forEach(event => {
+        const frame = Math.max(position, Math.min(frames, Math.round((event.time - startTime) * this.sampleRate / 1000)));
+        this.renderVoices(track, position, frame);
+        this.applyEvent(track, event);
+        position = frame;
+      });
+      this.renderVoices(track, position, frames);
+
+      track.idleFrames = track.voices.length > 0 ? 0 : track.idleFrames + frames;
+
+      // Pre-effect stems tap the dry voices
+      if (track.stem && this.stemSource === 'pre') {
+        track.stem.left.set(track.left.subarray(0, frames));
+        track.stem.right.set(track.right.subarray(0, frames));
+      }
+
+      track.chain.process(track.left, track.right, frames);
+    });
+
+    // Duck against the processed sources, then mix
+    this.tracks.forEach(track => {
+      const sourceId = track.ducker.getSource();
+      const source = sourceId !== null ? this.tracks.get(sourceId) : undefined;
+      const hits = due
+        .filter(event => event.type === 'trigger' && event.trackId === sourceId)
+        .map(event => Math.max(0, Math.min(frames, Math.round((event.time - startTime) * this.sampleRate / 1000))));
+      track.ducker.process(track.duck, frames, source && source !== track && source.rendered ? source : null, hits);
+
+      if (track.rendered) {
+        this.mixTrack(track, frames);
+      }
+    });
+
+    // Stem masters run on idle tracks too, so their lookahead empties
+    this.tracks.forEach(track => {
+      if (track.stem && track.stemMaster) {
+        track.stemMaster.process(track.stem, frames);
+        hardClip(track.stem, frames);
+      }
+    });
+
+    this.master.process(this.output, frames);
+
+    // Hard limit as a last resort against overs
+    hardClip(this.output, frames);
+
+    return { left: left.subarray(0, frames), right: right.subarray(0, frames) };
+  }
+
+  // Master bus with the current master effects
+  private createMasterBus(): MasterBus {
+    const master = new MasterBus(this.sampleRate);
+    if (this.masterEffects) {
+      master.setEffects(this.masterEffects);
+    }
+    return master;
+  }
+
+  // Apply a queued event to a track
+  private applyEvent(track: MixerTrack, event: MixerEvent): void {
+    if (event.type === 'trigger') {
+      if (!track.sample) return;
+
+      // The previous hit fades out under the new one
+      track.voices.forEach(voice => this.releaseVoice(voice, DECLICK_TIME));
+      track.voices.push({
+        sample: track.sample,
+        position: 0,
+        rate: event.options.rate,
+        gain: event.options.gain,
+        fadeLength: 0,
+        fadeRemaining: 0
+      });
+      track.chain.trigger();
+    } else if (event.type === 'release') {
+      track.voices.forEach(voice => this.releaseVoice(voice, event.fade));
+    } else {
+      const voice = track.voices.find(v => v.fadeLength === 0);
+      if (voice) {
+        voice.rate = event.rate;
+      }
+    }
+  }
+
+  // Start the release fade of a voice (a shorter fade takes over a longer one)
+  private releaseVoice(voice: Voice, fade: number): void {
+    const fadeFrames = Math.max(1, Math.round(fade * this.sampleRate / 1000));
+    if (voice.fadeLength > 0 && voice.fadeRemaining <= fadeFrames) return;
+
+    voice.fadeLength = fadeFrames;
+    voice.fadeRemaining = fadeFrames;
+  }
+
+  // Add the voices of a track into its buffers over a frame range
+  private renderVoices(track: MixerTrack, from: number, to: number): void {
+    track.voices = track.voices.filter(voice => {
+      const { sample } = voice;
+      const channelLeft = sample.channels[0];
+      const channelRight = sample.channels[1] ?? sample.channels[0];
+      const length = channelLeft.length;
+      const step = voice.rate * sample.sampleRate / this.sampleRate;
+
+      for (let i = from; i < to; i++) {
+        const index = Math.floor(voice.position);
+        if (index + 1 >= length) return false;
+
+        let gain = voice.gain;
+        if (voice.fadeLength > 0) {
+          if (voice.fadeRemaining <= 0) return false;
+          gain *= voice.fadeRemaining / voice.fadeLength;
+          voice.fadeRemaining--;
+        }
+
+        // Linear interpolation between neighbouring frames
+        const fraction = voice.position - index;
+        track.left[i] += (channelLeft[index] + (channelLeft[index + 1] - channelLeft[index]) * fraction) * gain;
+        track.right[i] += (channelRight[index] + (channelRight[index + 1] - channelRight[index]) * fraction) * gain;
+        voice.position += step;
+      }
+
+      return true;
+    });
+  }
+
+  // Add a processed track into the mix with its volume and pan
+  private mixTrack(track: MixerTrack, frames: number): void {
+    const mix = track.mix;
+    const [targetLeft, targetRight] = mix && mix.audible ? getPanGains(mix.pan, mix.volume) : [0, 0];
+    const { left, right } = this.output;
+    const stem = track.stem;
+    const stemInput = this.stemSource === 'pre' ? stem : track;
+    const duck = track.duck;
+
+    for (let i = 0; i < frames; i++) {
+      const progress = (i + 1) / frames;
+      const gainLeft = track.gainLeft + (targetLeft - track.gainLeft) * progress;
+      const gainRight = track.gainRight + (targetRight - track.gainRight) * progress;
+      left[i] += track.left[i] * gainLeft * duck[i];
+      right[i] += track.right[i] * gainRight * duck[i];
+
+      // Ducking acts after the effects, so pre-effect stems are not ducked
+      if (stem && stemInput) {
+        const stemDuck = stemInput === stem ? 1 : duck[i];
+        stem.left[i] = stemInput.left[i] * gainLeft * stemDuck;
+        stem.right[i] = stemInput.right[i] * gainRight * stemDuck;
+      }
+    }
+
+    track.gainLeft = targetLeft;
+    track.gainRight = targetRight;
+  }
+}
+
+export {
+  SampleBuffer,
+  StereoBuffer,
+  TrackMixState,
+  TriggerOptions,
+  StemSource,
+  MAX_BLOCK_FRAMES,
+  DspMixer
+};
@@ -0,0 +1,75 @@
+import { Step } from './enhancedAudioEngine';
+
+// Pitched steps
+// Notes are MIDI note numbers (60 = C4). Samples are pitched relative to the root
+// note of their preset by changing the playback rate, so a sample recorded at C2
+// plays an octave higher on C3. The gate cuts the sample after a number of steps,
+// and a step with slide ties into the next step: the next note glides in without
+// being retriggered, as on a TB-303.
+
+// Root note of presets that do not name one (C3)
+const DEFAULT_ROOT_NOTE = 48;
+
+const MIN_NOTE = 0;
+const MAX_NOTE = 127;
+
+// Gate length in steps
+const MIN_GATE_LENGTH = 0.05;
+const MAX_GATE_LENGTH = 16;
+
+// Accented notes play this much louder
+const ACCENT_VELOCITY_BOOST = 1.35;
+
+// Share of the step a slide takes to reach the next note, and rate updates on the way
+const SLIDE_TIME = 0.6;
+const SLIDE_RESOLUTION = 6;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Playback rate that pitches a sample from its root note to a note
+const noteToRate = (note: number, rootNote: number = DEFAULT_ROOT_NOTE): number => {
+  return Math.pow(2, (note - rootNote) / 12);
+};
+
+// Velocity of an accented hit
+const getAccentVelocity = (velocity: number): number => {
+  return Math.min(1, velocity * ACCENT_VELOCITY_BOOST);
+};
+
+// Display name such as "C#3"
+const formatNote = (note: number): string => {
+  const octave = Math.floor(note / 12) - 1;
+  return `${NOTE_NAMES[((note % 12) + 12) % 12]}${octave}`;
+};
+
+// Check the note, gate, accent and slide settings of a step
+const isValidNoteStep = (step: Partial<Step>): boolean => {
+  if (step.note !== undefined &&
+    (!Number.isInteger(step.note) || step.note < MIN_NOTE || step.note > MAX_NOTE)) {
+    return false;
+  }
+
+  if (step.gateLength !== undefined &&
+    (!Number.isFinite(step.gateLength) || step.gateLength < MIN_GATE_LENGTH || step.gateLength > MAX_GATE_LENGTH)) {
+    return false;
+  }
+
+  return (step.accent === undefined || typeof step.accent === 'boolean') &&
+    (step.slide === undefined || typeof step.slide === 'boolean');
+};
+
+export {
+  DEFAULT_ROOT_NOTE,
+  MIN_NOTE,
+  MAX_NOTE,
+  MIN_GATE_LENGTH,
+  MAX_GATE_LENGTH,
+  ACCENT_VELOCITY_BOOST,
+  SLIDE_TIME,
+  SLIDE_RESOLUTION,
+  NOTE_NAMES,
+  noteToRate,
+  getAccentVelocity,
+  formatNote,
+  isValidNoteStep
+};
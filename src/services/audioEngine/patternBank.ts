@@ -0,0 +1,190 @@
+import { Track, Step } from './enhancedAudioEngine';
+
+// Pattern storage for a project: 4 banks (A-D) with 16 slots each
+const PATTERN_BANKS = ['A', 'B', 'C', 'D'];
+const SLOTS_PER_BANK = 16;
+const TOTAL_PATTERN_SLOTS = PATTERN_BANKS.length * SLOTS_PER_BANK;
+
+// A stored pattern holds the steps of every track for one slot
+interface StoredPattern {
+  name: string;
+  totalSteps: number;
+  trackSteps: { [trackId: string]: Step[] };
+  transpose?: number; // Semitones added to the notes of melodic steps
+  fill?: { [trackId: string]: Step[] }; // Fill variant, played instead of the track steps while fill is held
+}
+
+// One block of a song arrangement
+interface ArrangementBlock {
+  id: string;
+  patternIndex: number; // 0-63, bank * 16 + slot
+  repeats: number; // How many times the pattern loops before moving on
+}
+
+// Get a display label such as "A01" or "D16" for a pattern slot
+const getPatternLabel = (patternIndex: number): string => {
+  const bank = PATTERN_BANKS[Math.floor(patternIndex / SLOTS_PER_BANK)] ?? '?';
+  const slot = (patternIndex % SLOTS_PER_BANK) + 1;
+  return `${bank}${slot.toString().padStart(2, '0')}`;
+};
+
+// Get the slot index for a bank letter and 1-based slot number
+const getPatternIndex = (bank: string, slot: number): number => {
+  const bankIndex = PATTERN_BANKS.indexOf(bank.toUpperCase());
+  if (bankIndex === -1 || slot < 1 || slot > SLOTS_PER_BANK) {
+    return -1;
+  }
+  return bankIndex * SLOTS_PER_BANK + (slot - 1);
+};
+
+// Deep copy a list of steps so stored patterns never share state with live tracks
+const cloneSteps = (steps: Step[]): Step[] => {
+  return steps.map(step => ({
+    ...step,
+    parameterLocks: step.parameterLocks.map(lock => ({ ...lock }))
+  }));
+};
+
+// Deep copy the steps of every track
+const cloneTrackSteps = (trackSteps: { [trackId: string]: Step[] }): { [trackId: string]: Step[] } => {
+  const copy: { [trackId: string]: Step[] } = {};
+  Object.keys(trackSteps).forEach(trackId => {
+    copy[trackId] = cloneSteps(trackSteps[trackId]);
+  });
+  return copy;
+};
+
+class PatternBank {
+  private patterns: (StoredPattern | null)[] = new Array(TOTAL_PATTERN_SLOTS).fill(null);
+
+  // Load all slots (e.g. from a saved project)
+  load(patterns: (StoredPattern | null)[]): void {
+    this.patterns = new Array(TOTAL_PATTERN_SLOTS).fill(null);
+    patterns.slice(0, TOTAL_PATTERN_SLOTS).forEach((pattern, index) => {
+      this.patterns[index] = pattern;
+    });
+  }
+
+  // Capture the current steps of the given tracks into a slot
+  // Name, transposition and fill variant are kept with the steps when given.
+  store(
+    patternIndex: number,
+    tracks: Track[],
+    totalSteps: number,
+    details: Partial<Pick<StoredPattern, 'name' | 'transpose' | 'fill'>> = {}
+  ): void {
+    if (!this.isValidIndex(patternIndex)) {
+      console.warn('Invalid pattern slot:', patternIndex);
+      return;
+    }
+
+    const trackSteps: { [trackId: string]: Step[] } = {};
+    tracks.forEach(track => {
+      trackSteps[track.id] = cloneSteps(track.steps);
+    });
+
+    this.patterns[patternIndex] = {
+      name: details.name ?? this.patterns[patternIndex]?.name ?? getPatternLabel(patternIndex),
+      totalSteps,
+      trackSteps,
+      transpose: details.transpose ?? 0,
+      fill: details.fill ? cloneTrackSteps(details.fill) : undefined
+    };
+  }
+
+  // Write a stored pattern into the given tracks
+  // Returns the pattern length, or null if the slot is empty.
+  apply(patternIndex: number, tracks: Track[]): number | null {
+    const pattern = this.get(patternIndex);
+    if (!pattern) return null;
+
+    tracks.forEach(track => {
+      const steps = pattern.trackSteps[track.id];
+      if (steps) {
+        track.steps = cloneSteps(steps);
+      } else {
+        // Tracks added after the pattern was stored start out empty
+        track.steps = track.steps.map(step => ({ ...step, active: false, parameterLocks: [] }));
+      }
+    });
+
+    return pattern.totalSteps;
+  }
+
+  // Get a stored pattern
+  get(patternIndex: number): StoredPattern | null {
+    if (!this.isValidIndex(patternIndex)) return null;
+    return this.patterns[patternIndex];
+  }
+
+  // Copy one slot to another
+  copy(fromIndex: number, toIndex: number): void {
+    const source = this.get(fromIndex);
+    if (!source || !this.isValidIndex(toIndex)) {
+      console.warn(`Cannot copy pattern ${fromIndex} to ${toIndex}`);
+      return;
+    }
+
+    this.patterns[toIndex] = {
+      name: getPatternLabel(toIndex),
+      totalSteps: source.totalSteps,
+      trackSteps: cloneTrackSteps(source.trackSteps),
+      transpose: source.transpose,
+      fill: source.fill ? cloneTrackSteps(source.fill) : undefined
+    };
+  }
+
+  // Replace the fill variant of a track in a slot (null removes it)
+  setFill(patternIndex: number, trackId: string, steps: Step[] | null): void {
+    const pattern = this.get(patternIndex);
+    if (!pattern) return;
+
+    const fill = { ...pattern.fill };
+    if (steps === null) {
+      delete fill[trackId];
+    } else {
+      fill[trackId] = cloneSteps(steps);
+    }
+    pattern.fill = Object.keys(fill).length > 0 ? fill : undefined;
+  }
+
+  // Clear a slot
+  clear(patternIndex: number): void {
+    if (!this.isValidIndex(patternIndex)) return;
+    this.patterns[patternIndex] = null;
+  }
+
+  // Rename a slot
+  rename(patternIndex: number, name: string): void {
+    const pattern = this.get(patternIndex);
+    if (pattern) {
+      pattern.name = name;
+    }
+  }
+
+  // Check whether a slot holds a pattern
+  has(patternIndex: number): boolean {
+    return this.get(patternIndex) !== null;
+  }
+
+  // Get all slots (e.g. for saving the project)
+  getAll(): (StoredPattern | null)[] {
+    return [...this.patterns];
+  }
+
+  private isValidIndex(patternIndex: number): boolean {
+    return Number.isInteger(patternIndex) && patternIndex >= 0 && patternIndex < TOTAL_PATTERN_SLOTS;
+  }
+}
+
+export {
+  PatternBank,
+  StoredPattern,
+  ArrangementBlock,
+  PATTERN_BANKS,
+  SLOTS_PER_BANK,
+  TOTAL_PATTERN_SLOTS,
+  getPatternLabel,
+  getPatternIndex,
+  cloneTrackSteps
+};
@@ -0,0 +1,139 @@
+import { Image } from 'react-native';
+import { SampleBuffer, StereoBuffer } from './mixer';
+
+// PCM output and sample decoding
+// The mixer needs two things from the platform: decoded samples and a device that
+// pulls rendered blocks. Both sit behind small interfaces so other backends can
+// be added. Web Audio provides both in the browser. The native apps have neither
+// until a PCM stream module is added: there the engine keeps using the platform
+// sample players, which play the dry samples with volume and pitch only, and
+// isDspMixing() on the engine reports it so the UI can say so.
+// Output goes through a ScriptProcessorNode. It is deprecated, but the mixer runs
+// on the main thread with the sequencer; an AudioWorklet would need the whole
+// mixer moved into the worklet.
+
+// Pulls blocks from the mixer and plays them
+interface PcmOutput {
+  readonly sampleRate: number;
+  start(render: (frames: number) => StereoBuffer): Promise<void>;
+  resume(): Promise<void>; // Call from a user gesture where the platform requires one
+  stop(): void;
+}
+
+// Turns a bundled asset (a require() result) into PCM
+interface SampleDecoder {
+  decode(asset: unknown): Promise<SampleBuffer>;
+}
+
+interface PcmBackend {
+  output: PcmOutput;
+  decoder: SampleDecoder;
+}
+
+// Frames per output block (about 46 ms at 44.1 kHz)
+const OUTPUT_BLOCK_FRAMES = 2048;
+
+// Web Audio constructor of the platform, if any
+const getAudioContextClass = (): typeof AudioContext | undefined => {
+  const scope = globalThis as unknown as { AudioContext?: typeof AudioContext; webkitAudioContext?: typeof AudioContext };
+  return scope.AudioContext ?? scope.webkitAudioContext;
+};
+
+// URI of a bundled asset
+const resolveAssetUri = (asset: unknown): string | undefined => {
+  if (typeof asset === 'string') return asset;
+  if (typeof asset === 'number') return Image.resolveAssetSource(asset)?.uri;
+  if (asset && typeof asset === 'object' && typeof (asset as { uri?: unknown }).uri === 'string') {
+    return (asset as { uri: string }).uri;
+  }
+  return undefined;
+};
+
+// Plays mixer blocks through a Web Audio script processor
+class WebAudioOutput implements PcmOutput {
+  private context: AudioContext;
+  private processor: ScriptProcessorNode | null = null;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+  }
+
+  get sampleRate(): number {
+    return this.context.sampleRate;
+  }
+
+  async start(render: (frames: number) => StereoBuffer): Promise<void> {
+    if (this.processor) return;
+
+    const processor = this.context.createScriptProcessor(OUTPUT_BLOCK_FRAMES, 0, 2);
+    processor.onaudioprocess = event => {
+      const { left, right } = render(event.outputBuffer.length);
+      event.outputBuffer.copyToChannel(left, 0);
+      event.outputBuffer.copyToChannel(right, 1);
+    };
+    processor.connect(this.context.destination);
+    this.processor = processor;
+  }
+
+  // Browsers keep a new context suspended until a user gesture resumes it
+  async resume(): Promise<void> {
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  stop(): void {
+    if (!this.processor) return;
+
+    this.processor.onaudioprocess = null;
+    this.processor.disconnect();
+    this.processor = null;
+  }
+}
+
+// Decodes bundled samples with the Web Audio decoder (handles mp3 and wav)
+class WebAudioDecoder implements SampleDecoder {
+  private context: AudioContext;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+  }
+
+  async decode(asset: unknown): Promise<SampleBuffer> {
+    const uri = resolveAssetUri(asset);
+    if (!uri) throw new Error('Could not resolve sample asset');
+
+    const response = await fetch(uri);
+    const audioBuffer = await this.context.decodeAudioData(await response.arrayBuffer());
+
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < Math.min(2, audioBuffer.numberOfChannels); channel++) {
+      channels.push(audioBuffer.getChannelData(channel).slice());
+    }
+    return { sampleRate: audioBuffer.sampleRate, channels };
+  }
+}
+
+// PCM backend of the platform, or null when the platform has none
+const createPcmBackend = (): PcmBackend | null => {
+  const AudioContextClass = getAudioContextClass();
+  if (!AudioContextClass) return null;
+
+  try {
+    const context = new AudioContextClass();
+    return { output: new WebAudioOutput(context), decoder: new WebAudioDecoder(context) };
+  } catch (error) {
+    console.error('Failed to create audio context:', error);
+    return null;
+  }
+};
+
+export {
+  PcmOutput,
+  SampleDecoder,
+  PcmBackend,
+  OUTPUT_BLOCK_FRAMES,
+  WebAudioOutput,
+  WebAudioDecoder,
+  createPcmBackend
+};
@@ -1,6 +1,8 @@
 import { Audio } from 'expo-av';
 import { Sound } from 'expo-av/build/Audio';
 import * as FileSystem from 'expo-file-system';
+import { SampleBuffer } from './mixer';
+import { SampleDecoder } from './pcmOutput';
 
 // Define interfaces for preset handling
 export interface PresetParameter {
@@ -17,6 +19,7 @@ export interface Preset {
   category: string;
   filePath: string;
   parameters: PresetParameter[];
+  rootNote?: number; // MIDI note the sample was recorded at, for pitched steps
   metadata?: {
     author?: string;
     description?: string;
@@ -33,6 +36,7 @@ export interface PresetCategory {
 class PresetLoader {
   private presetCategories: PresetCategory[] = [];
   private loadedSounds: Map<string, Sound> = new Map();
+  private loadedSamples: Map<string, SampleBuffer> = new Map();
   private isInitialized: boolean = false;
 
   // CORRECTED Initialize: uses populatePlaceholderPresets
@@ -107,25 +111,7 @@ class PresetLoader {
     if (!preset) throw new Error(`Preset not found: ${presetId}`);
 
     try {
-      let samplePath;
-      // CORRECT relative path from src/services/audioEngine to src/assets/audio
-      const baseAssetPath = '../../assets/audio'; 
-
-      switch (preset.category) {
-        case 'kicks': samplePath = require('../../assets/audio/kicks/kick_deep.mp3'); break;
-        case 'basslines': samplePath = require('../../assets/audio/basslines/bass_deep.mp3'); break;
-        case 'synths': samplePath = require('../../assets/audio/synths/synth_lead.mp3'); break;
-        case 'fx': samplePath = require('../../assets/audio/fx/fx_sweep.mp3'); break;
-        case 'hats': samplePath = require('../../assets/audio/hats/hihat_closed.mp3'); break;
-        case 'snares': samplePath = require('../../assets/audio/snares/snare_tight.mp3'); break;
-        case 'claps': samplePath = require('../../assets/audio/claps/clap_dry.mp3'); break;
-        case 'percussion': samplePath = require('../../assets/audio/percussion/perc_conga.mp3'); break;
-        default:
-          console.warn(`No specific sample path for category ${preset.category}, using fallback.`);
-          samplePath = require('../../assets/audio/kicks/kick_deep.mp3'); // Correct fallback path
-      }
-      if (!samplePath) throw new Error(`Could not determine sample path for preset ${presetId}`);
-
+      const samplePath = this.getPresetSampleAsset(preset);
       const { sound } = await Audio.Sound.createAsync(samplePath);
       this.loadedSounds.set(presetId, sound);
       console.log(`Successfully loaded sound for preset: ${presetId}`);
@@ -147,6 +133,36 @@ class PresetLoader {
     }
   }
 
+  // Bundled sample of a preset (the require() result the players and decoders load)
+  getPresetSampleAsset(preset: Preset): number {
+    switch (preset.category) {
+      case 'kicks': return require('../../assets/audio/kicks/kick_deep.mp3');
+      case 'basslines': return require('../../assets/audio/basslines/bass_deep.mp3');
+      case 'synths': return require('../../assets/audio/synths/synth_lead.mp3');
+      case 'fx': return require('../../assets/audio/fx/fx_sweep.mp3');
+      case 'hats': return require('../../assets/audio/hats/hihat_closed.mp3');
+      case 'snares': return require('../../assets/audio/snares/snare_tight.mp3');
+      case 'claps': return require('../../assets/audio/claps/clap_dry.mp3');
+      case 'percussion': return require('../../assets/audio/percussion/perc_conga.mp3');
+      default:
+        console.warn(`No specific sample path for category ${preset.category}, using fallback.`);
+        return require('../../assets/audio/kicks/kick_deep.mp3');
+    }
+  }
+
+  // Decode the sample of a preset to PCM for the mixer (cached per preset)
+  async loadPresetSample(presetId: string, decoder: SampleDecoder): Promise<SampleBuffer> {
+    if (!this.isInitialized) throw new Error('Preset loader not initialized');
+    if (this.loadedSamples.has(presetId)) return this.loadedSamples.get(presetId)!;
+
+    const preset = this.findPresetById(presetId);
+    if (!preset) throw new Error(`Preset not found: ${presetId}`);
+
+    const sample = await decoder.decode(this.getPresetSampleAsset(preset));
+    this.loadedSamples.set(presetId, sample);
+    return sample;
+  }
+
   // findPresetById (as before)
   findPresetById(presetId: string): Preset | undefined {
     for (const category of this.presetCategories) {
@@ -204,6 +220,7 @@ class PresetLoader {
       }
     }
     this.loadedSounds.clear();
+    this.loadedSamples.clear();
     this.isInitialized = false;
     console.log('Preset loader cleaned up.');
   }
@@ -0,0 +1,62 @@
+// Seeded pseudo-random number generator (mulberry32)
+// The same seed always produces the same sequence on every device, so probability
+// steps and generated patterns can be reproduced exactly.
+
+const MAX_SEED = 0xffffffff;
+
+// Create a new random seed (the only place that may use Math.random)
+const createRandomSeed = (): number => {
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+};
+
+class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = createRandomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Next float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Next integer in [0, max)
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // Pick a random element of an array
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  // Shuffle a copy of an array (Fisher-Yates)
+  shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  // Restart the sequence, optionally with a new seed
+  reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Get the seed the current sequence started from
+  getSeed(): number {
+    return this.seed;
+  }
+}
+
+export { SeededRandom, createRandomSeed, MAX_SEED };
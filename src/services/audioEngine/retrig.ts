@@ -0,0 +1,66 @@
+import { Step } from './enhancedAudioEngine';
+
+// Ratchets / retrigs: one step firing several times inside its own duration
+
+const MAX_RETRIG_COUNT = 8;
+
+// Subdivisions a step can be split into (hits per step)
+const RETRIG_RATES = [2, 3, 4, 6, 8];
+
+// Number of hits a step fires (1 = no retrig)
+// Hits never spill past the step, so the count is limited by the rate.
+const getRetrigCount = (step: Step): number => {
+  const count = Math.round(step.retrigCount ?? 1);
+  if (count <= 1) return 1;
+
+  const rate = step.retrigRate ?? count;
+  return Math.min(count, rate, MAX_RETRIG_COUNT);
+};
+
+// Offsets of each hit in fractions of a step (the first hit is always at 0)
+const getRetrigOffsets = (step: Step): number[] => {
+  const count = getRetrigCount(step);
+  const rate = step.retrigRate ?? count;
+
+  return Array.from({ length: count }, (_, hit) => hit / rate);
+};
+
+// Velocity of a single hit
+// A positive curve ramps up into the step's velocity, a negative one fades out from it.
+const getRetrigVelocity = (step: Step, hit: number): number => {
+  const count = getRetrigCount(step);
+  const curve = Math.max(-1, Math.min(1, step.retrigVelocityCurve ?? 0));
+  if (count <= 1 || curve === 0) return step.velocity;
+
+  const position = hit / (count - 1);
+  const scale = curve > 0
+    ? 1 - curve * (1 - position)
+    : 1 + curve * position;
+
+  return step.velocity * Math.max(0, scale);
+};
+
+// Check that the retrig fields of a step edit are in range
+const isValidRetrig = (step: Partial<Step>): boolean => {
+  if (step.retrigCount !== undefined &&
+    (!Number.isInteger(step.retrigCount) || step.retrigCount < 1 || step.retrigCount > MAX_RETRIG_COUNT)) {
+    return false;
+  }
+  if (step.retrigRate !== undefined && !RETRIG_RATES.includes(step.retrigRate)) {
+    return false;
+  }
+  if (step.retrigVelocityCurve !== undefined &&
+    (step.retrigVelocityCurve < -1 || step.retrigVelocityCurve > 1)) {
+    return false;
+  }
+  return true;
+};
+
+export {
+  MAX_RETRIG_COUNT,
+  RETRIG_RATES,
+  getRetrigCount,
+  getRetrigOffsets,
+  getRetrigVelocity,
+  isValidRetrig
+};
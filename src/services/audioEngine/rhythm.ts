@@ -0,0 +1,177 @@
+import { Step } from './enhancedAudioEngine';
+
+// Rhythm generators
+// Algorithms that fill a track from a few numbers instead of hand-placed steps.
+// Euclidean rhythms spread hits as evenly as possible over a cycle (E(3,8) is the
+// tresillo), grouping rhythms put a hit at the start of each group (3-3-2), and
+// "every Nth" places a hit on every Nth step from an offset. Cycles repeat to fill
+// tracks of any length, so E(3,8) on a 12-step track plays one and a half cycles.
+
+// Bjorklund is the classic algorithm, Bresenham spaces hits by rounding (same hit
+// count, sometimes a different rotation), inverse swaps hits and rests.
+type EuclideanVariant = 'bjorklund' | 'bresenham' | 'inverse';
+
+type RhythmPattern =
+  | { type: 'euclidean'; hits: number; steps: number; rotation: number; variant: EuclideanVariant }
+  | { type: 'everyNth'; every: number; offset: number }
+  | { type: 'grouping'; groups: number[]; rotation: number };
+
+// Replace clears the track first, merge adds hits to the existing steps
+type RhythmFillMode = 'replace' | 'merge';
+
+interface RhythmFill {
+  pattern: RhythmPattern;
+  accent?: RhythmPattern; // Hits that also fall on the accent pattern play at full velocity
+  velocity: number; // 0-1, velocity of unaccented hits
+  mode: RhythmFillMode;
+}
+
+const MAX_RHYTHM_STEPS = 64;
+
+// Spread hits over a cycle with Bjorklund's algorithm
+const bjorklund = (hits: number, steps: number): boolean[] => {
+  if (hits <= 0) return new Array(steps).fill(false);
+  if (hits >= steps) return new Array(steps).fill(true);
+
+  // Repeatedly pair the hit groups with the remaining rests until one remainder is left
+  let groups: boolean[][] = Array.from({ length: hits }, () => [true]);
+  let remainders: boolean[][] = Array.from({ length: steps - hits }, () => [false]);
+
+  while (remainders.length > 1) {
+    const count = Math.min(groups.length, remainders.length);
+    const paired = groups.slice(0, count).map((group, i) => [...group, ...remainders[i]]);
+    remainders = groups.length > count ? groups.slice(count) : remainders.slice(count);
+    groups = paired;
+  }
+
+  return [...groups, ...remainders].reduce<boolean[]>((cycle, group) => cycle.concat(group), []);
+};
+
+// Spread hits over a cycle by rounding down hit positions
+const bresenham = (hits: number, steps: number): boolean[] => {
+  return Array.from({ length: steps }, (_, i) => (i * hits) % steps < hits);
+};
+
+// Shift a cycle later by a number of steps (negative shifts earlier)
+const rotate = (cycle: boolean[], rotation: number): boolean[] => {
+  const length = cycle.length;
+  return cycle.map((_, i) => cycle[(((i - rotation) % length) + length) % length]);
+};
+
+// One cycle of a Euclidean rhythm
+const euclidean = (hits: number, steps: number, rotation: number = 0, variant: EuclideanVariant = 'bjorklund'): boolean[] => {
+  const cycle = variant === 'bresenham' ? bresenham(hits, steps) : bjorklund(hits, steps);
+  const hitsAndRests = variant === 'inverse' ? cycle.map(hit => !hit) : cycle;
+  return rotate(hitsAndRests, rotation);
+};
+
+// One cycle of a grouping rhythm, e.g. [3, 3, 2]
+const grouping = (groups: number[], rotation: number = 0): boolean[] => {
+  const cycle: boolean[] = [];
+  groups.forEach(group => {
+    cycle.push(true, ...new Array(group - 1).fill(false));
+  });
+  return rotate(cycle, rotation);
+};
+
+// Hits of a rhythm over a track of any length
+const generateRhythm = (pattern: RhythmPattern, length: number): boolean[] => {
+  switch (pattern.type) {
+    case 'everyNth':
+      return Array.from({ length }, (_, i) =>
+        (((i - pattern.offset) % pattern.every) + pattern.every) % pattern.every === 0
+      );
+    case 'grouping': {
+      const cycle = grouping(pattern.groups, pattern.rotation);
+      return Array.from({ length }, (_, i) => cycle[i % cycle.length]);
+    }
+    default: {
+      const cycle = euclidean(pattern.hits, pattern.steps, pattern.rotation, pattern.variant);
+      return Array.from({ length }, (_, i) => cycle[i % cycle.length]);
+    }
+  }
+};
+
+// Check that a rhythm can be generated
+const isValidRhythmPattern = (pattern: RhythmPattern): boolean => {
+  switch (pattern.type) {
+    case 'euclidean':
+      return Number.isInteger(pattern.steps) &&
+        pattern.steps >= 1 &&
+        pattern.steps <= MAX_RHYTHM_STEPS &&
+        Number.isInteger(pattern.hits) &&
+        pattern.hits >= 0 &&
+        pattern.hits <= pattern.steps &&
+        Number.isInteger(pattern.rotation) &&
+        ['bjorklund', 'bresenham', 'inverse'].includes(pattern.variant);
+    case 'everyNth':
+      return Number.isInteger(pattern.every) &&
+        pattern.every >= 1 &&
+        pattern.every <= MAX_RHYTHM_STEPS &&
+        Number.isInteger(pattern.offset);
+    case 'grouping':
+      return pattern.groups.length > 0 &&
+        pattern.groups.every(group => Number.isInteger(group) && group >= 1) &&
+        pattern.groups.reduce((sum, group) => sum + group, 0) <= MAX_RHYTHM_STEPS &&
+        Number.isInteger(pattern.rotation);
+    default:
+      return false;
+  }
+};
+
+// Check that a fill is usable
+const isValidRhythmFill = (fill: RhythmFill): boolean => {
+  return isValidRhythmPattern(fill.pattern) &&
+    (!fill.accent || isValidRhythmPattern(fill.accent)) &&
+    Number.isFinite(fill.velocity) &&
+    fill.velocity >= 0 &&
+    fill.velocity <= 1 &&
+    (fill.mode === 'replace' || fill.mode === 'merge');
+};
+
+// Apply a fill to a copy of a track's steps (used for previews and commits alike)
+const createRhythmSteps = (steps: Step[], fill: RhythmFill): Step[] => {
+  const hits = generateRhythm(fill.pattern, steps.length);
+  const accents = fill.accent ? generateRhythm(fill.accent, steps.length) : null;
+
+  return steps.map((step, i) => {
+    if (!hits[i]) {
+      return fill.mode === 'replace' ? { ...step, active: false } : { ...step };
+    }
+    return {
+      ...step,
+      active: true,
+      velocity: accents?.[i] ? 1.0 : fill.velocity
+    };
+  });
+};
+
+// Display label such as "E(3,8)+2", "Every 4 +1" or "3-3-2"
+const formatRhythmPattern = (pattern: RhythmPattern): string => {
+  switch (pattern.type) {
+    case 'everyNth':
+      return `Every ${pattern.every}${pattern.offset !== 0 ? ` +${pattern.offset}` : ''}`;
+    case 'grouping':
+      return `${pattern.groups.join('-')}${pattern.rotation !== 0 ? ` +${pattern.rotation}` : ''}`;
+    default: {
+      const prefix = pattern.variant === 'inverse' ? '~E' : 'E';
+      return `${prefix}(${pattern.hits},${pattern.steps})${pattern.rotation !== 0 ? `+${pattern.rotation}` : ''}`;
+    }
+  }
+};
+
+export {
+  EuclideanVariant,
+  RhythmPattern,
+  RhythmFillMode,
+  RhythmFill,
+  MAX_RHYTHM_STEPS,
+  bjorklund,
+  euclidean,
+  grouping,
+  generateRhythm,
+  isValidRhythmPattern,
+  isValidRhythmFill,
+  createRhythmSteps,
+  formatRhythmPattern
+};
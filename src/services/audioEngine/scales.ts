@@ -0,0 +1,131 @@
+import { NOTE_NAMES } from './notes';
+
+// Keys and scales
+// A key is a tonic pitch class (0 = C, 9 = A) plus a scale given as semitone steps
+// above the tonic. Notes of melodic steps are pulled onto the nearest note of the
+// project key when they play. Makam scales are Turkish modes whose quarter-tone
+// intervals do not exist on a sampler; they are approximated to the nearest
+// semitone (Uşşak's slightly flat second becomes a minor second, like Kürdi's).
+
+type ScaleId =
+  | 'major'
+  | 'minor'
+  | 'dorian'
+  | 'phrygian'
+  | 'harmonicMinor'
+  | 'minorPentatonic'
+  | 'chromatic'
+  | 'hicaz'
+  | 'hicazkar'
+  | 'kurdi'
+  | 'nikriz'
+  | 'saba'
+  | 'ussak';
+
+interface Scale {
+  id: ScaleId;
+  name: string;
+  intervals: number[]; // Semitones above the tonic, ascending, starting at 0
+}
+
+interface MusicalKey {
+  tonic: number; // Pitch class 0-11 (0 = C)
+  scale: ScaleId;
+}
+
+const SCALES: Scale[] = [
+  { id: 'minor', name: 'Minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  { id: 'phrygian', name: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  { id: 'harmonicMinor', name: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  { id: 'dorian', name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  { id: 'major', name: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  { id: 'minorPentatonic', name: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10] },
+  { id: 'hicaz', name: 'Hicaz', intervals: [0, 1, 4, 5, 7, 8, 10] },
+  { id: 'hicazkar', name: 'Hicazkar', intervals: [0, 1, 4, 5, 7, 8, 11] },
+  { id: 'kurdi', name: 'Kürdi', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  { id: 'nikriz', name: 'Nikriz', intervals: [0, 2, 3, 6, 7, 9, 10] },
+  { id: 'saba', name: 'Saba', intervals: [0, 2, 3, 4, 7, 8, 10] },
+  { id: 'ussak', name: 'Uşşak', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  { id: 'chromatic', name: 'Chromatic', intervals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] }
+];
+
+// Transposition range in semitones, per track and per pattern
+const MAX_TRANSPOSE = 24;
+
+// Acid in A minor
+const DEFAULT_KEY: MusicalKey = { tonic: 9, scale: 'minor' };
+
+// Find a scale
+const getScale = (id: ScaleId): Scale | undefined => {
+  return SCALES.find(scale => scale.id === id);
+};
+
+// Pitch class of a note, 0-11
+const getPitchClass = (note: number): number => {
+  return ((note % 12) + 12) % 12;
+};
+
+// Check whether a note belongs to a key
+const isNoteInKey = (note: number, key: MusicalKey): boolean => {
+  const scale = getScale(key.scale);
+  if (!scale) return true;
+  return scale.intervals.includes(getPitchClass(note - key.tonic));
+};
+
+// Nearest note of the key (ties resolve downwards)
+const quantizeNote = (note: number, key: MusicalKey): number => {
+  for (let distance = 0; distance < 12; distance++) {
+    if (isNoteInKey(note - distance, key)) return note - distance;
+    if (isNoteInKey(note + distance, key)) return note + distance;
+  }
+  return note;
+};
+
+// Note of a scale degree counted from a tonic note (degree 0 = tonic, negative goes down)
+const getScaleNote = (key: MusicalKey, degree: number, tonicNote: number): number => {
+  const intervals = getScale(key.scale)?.intervals ?? [0];
+  const octave = Math.floor(degree / intervals.length);
+  const index = degree - octave * intervals.length;
+  return tonicNote + octave * 12 + intervals[index];
+};
+
+// Tonic of a key in the octave of a reference note (at or above it)
+const getTonicNote = (key: MusicalKey, referenceNote: number): number => {
+  return referenceNote + getPitchClass(key.tonic - referenceNote);
+};
+
+// Check that a key is usable
+const isValidKey = (key: MusicalKey): boolean => {
+  return Number.isInteger(key.tonic) &&
+    key.tonic >= 0 &&
+    key.tonic <= 11 &&
+    getScale(key.scale) !== undefined;
+};
+
+// Check a transposition in semitones
+const isValidTranspose = (semitones: number): boolean => {
+  return Number.isInteger(semitones) && Math.abs(semitones) <= MAX_TRANSPOSE;
+};
+
+// Display label such as "A Minor"
+const formatKey = (key: MusicalKey): string => {
+  return `${NOTE_NAMES[key.tonic]} ${getScale(key.scale)?.name ?? key.scale}`;
+};
+
+export {
+  ScaleId,
+  Scale,
+  MusicalKey,
+  SCALES,
+  DEFAULT_KEY,
+  MAX_TRANSPOSE,
+  getScale,
+  getPitchClass,
+  isNoteInKey,
+  quantizeNote,
+  getScaleNote,
+  getTonicNote,
+  isValidKey,
+  isValidTranspose,
+  formatKey
+};
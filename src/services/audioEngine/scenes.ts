@@ -0,0 +1,130 @@
+import { Track, TrackEffects, MasterEffects } from './enhancedAudioEngine';
+
+// Mixer scenes
+// A scene is a snapshot of the mix: volume, pan, mute, solo and effects of every
+// track plus the master effects. Scenes recall on the next bar while playing, and
+// the crossfader morphs between two of them: numeric values glide, while switches
+// (mute, solo, filter type) flip at the halfway point. Tracks a scene does not know
+// keep the mix of the other scene.
+
+// Mix settings of one track
+interface TrackMix {
+  volume: number;
+  pan: number;
+  mute: boolean;
+  solo: boolean;
+  effects: TrackEffects;
+}
+
+// Mix of a whole project
+interface Mix {
+  tracks: { [trackId: string]: TrackMix };
+  masterEffects: MasterEffects;
+}
+
+interface MixerScene extends Mix {
+  id: string;
+  name: string;
+}
+
+// Scenes at both ends of the crossfader, and its position (0 = A, 1 = B)
+interface Crossfader {
+  sceneA: string | null;
+  sceneB: string | null;
+  position: number;
+}
+
+const MAX_SCENES = 16;
+
+// Deep copy of plain mix data
+const cloneValue = <T>(value: T): T => {
+  return JSON.parse(JSON.stringify(value));
+};
+
+// Capture the mix of a set of tracks
+const captureMix = (tracks: Track[], masterEffects: MasterEffects): Mix => {
+  const trackMixes: { [trackId: string]: TrackMix } = {};
+  tracks.forEach(track => {
+    trackMixes[track.id] = {
+      volume: track.volume,
+      pan: track.pan,
+      mute: track.mute,
+      solo: track.solo,
+      effects: cloneValue(track.effects)
+    };
+  });
+
+  return { tracks: trackMixes, masterEffects: cloneValue(masterEffects) };
+};
+
+// Blend two values of the same shape: numbers glide, anything else switches halfway
+const blendValue = <T>(a: T, b: T, position: number): T => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return (a + (b - a) * position) as unknown as T;
+  }
+
+  if (a !== null && b !== null && typeof a === 'object' && typeof b === 'object') {
+    const result: Record<string, unknown> = { ...(a as Record<string, unknown>) };
+    Object.keys(b as Record<string, unknown>).forEach(key => {
+      const valueA = (a as Record<string, unknown>)[key];
+      const valueB = (b as Record<string, unknown>)[key];
+      result[key] = valueA === undefined ? valueB : blendValue(valueA, valueB, position);
+    });
+    return result as T;
+  }
+
+  return position < 0.5 ? a : b;
+};
+
+// Mix at a crossfader position between two mixes
+const blendMixes = (a: Mix, b: Mix, position: number): Mix => {
+  const t = Math.max(0, Math.min(1, position));
+  const tracks: { [trackId: string]: TrackMix } = {};
+
+  new Set([...Object.keys(a.tracks), ...Object.keys(b.tracks)]).forEach(trackId => {
+    const mixA = a.tracks[trackId];
+    const mixB = b.tracks[trackId];
+    tracks[trackId] = cloneValue(mixA && mixB ? blendValue(mixA, mixB, t) : mixA ?? mixB);
+  });
+
+  return { tracks, masterEffects: cloneValue(blendValue(a.masterEffects, b.masterEffects, t)) };
+};
+
+// Write a mix into tracks (tracks the mix does not know are left alone)
+// Returns the master effects of the mix.
+const applyMix = (mix: Mix, tracks: Track[]): MasterEffects => {
+  tracks.forEach(track => {
+    const trackMix = mix.tracks[track.id];
+    if (!trackMix) return;
+
+    track.volume = trackMix.volume;
+    track.pan = trackMix.pan;
+    track.mute = trackMix.mute;
+    track.solo = trackMix.solo;
+    track.effects = cloneValue(trackMix.effects);
+  });
+
+  return cloneValue(mix.masterEffects);
+};
+
+// Check that a loaded scene has the fields a recall needs
+const isValidScene = (scene: MixerScene): boolean => {
+  return typeof scene.id === 'string' &&
+    typeof scene.name === 'string' &&
+    typeof scene.tracks === 'object' &&
+    scene.tracks !== null &&
+    typeof scene.masterEffects === 'object' &&
+    scene.masterEffects !== null;
+};
+
+export {
+  TrackMix,
+  Mix,
+  MixerScene,
+  Crossfader,
+  MAX_SCENES,
+  captureMix,
+  blendMixes,
+  applyMix,
+  isValidScene
+};
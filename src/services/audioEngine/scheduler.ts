@@ -0,0 +1,222 @@
+// Lookahead scheduler for sample-stable sequencer timing
+// A coarse JS timer wakes up regularly and queues every event that falls inside
+// the lookahead window with an absolute timestamp taken from a monotonic clock.
+// Each event is then dispatched relative to its own timestamp, so a late timer
+// callback never shifts the steps that follow it.
+// A manual scheduler has no timers or clock of its own: runUntil() moves its time
+// forward and dispatches everything on the way in order, which makes offline
+// rendering deterministic and faster than real time.
+
+// Monotonic clock in milliseconds
+type Clock = () => number;
+
+interface SchedulerOptions {
+  tickIntervalMs: number; // How often the scheduler wakes up
+  lookaheadMs: number; // How far ahead events are queued
+  clock: Clock;
+  manual: boolean; // Driven by runUntil() instead of timers
+}
+
+interface ScheduledEvent {
+  time: number; // Absolute clock time in ms
+  callback: (time: number) => void;
+}
+
+// Called once per sequencer tick with the tick's absolute start time
+type TickCallback = (tick: number, time: number) => void;
+
+// Returns the duration of a tick in ms (lets tempo and swing change per tick)
+type TickDurationProvider = (tick: number) => number;
+
+const monotonicClock: Clock = () => {
+  if (typeof performance !== 'undefined' && typeof performance.now === 'function') {
+    return performance.now();
+  }
+  return Date.now();
+};
+
+class LookaheadScheduler {
+  private tickIntervalMs: number;
+  private lookaheadMs: number;
+  private clock: Clock;
+  private manual: boolean;
+  private manualTime: number = 0;
+  private manualRunning: boolean = false;
+
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private nextTick: number = 0;
+  private nextTickTime: number = 0;
+
+  private queue: ScheduledEvent[] = [];
+  private pendingTimeouts: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  private onTick: TickCallback;
+  private getTickDuration: TickDurationProvider;
+
+  constructor(onTick: TickCallback, getTickDuration: TickDurationProvider, options?: Partial<SchedulerOptions>) {
+    this.onTick = onTick;
+    this.getTickDuration = getTickDuration;
+    this.tickIntervalMs = options?.tickIntervalMs ?? 25;
+    this.lookaheadMs = options?.lookaheadMs ?? 100;
+    this.manual = options?.manual ?? false;
+    this.clock = this.manual ? () => this.manualTime : options?.clock ?? monotonicClock;
+  }
+
+  // Start ticking from the given tick, optionally at a given clock time
+  start(fromTick: number = 0, startTime?: number): void {
+    if (this.timerId || this.manualRunning) return;
+
+    this.nextTick = fromTick;
+    // Leave a small margin so the first tick is not already late
+    this.nextTickTime = startTime ?? this.clock() + this.tickIntervalMs;
+
+    if (this.manual) {
+      this.manualRunning = true;
+      return;
+    }
+
+    this.timerId = setInterval(() => this.run(), this.tickIntervalMs);
+    this.run();
+  }
+
+  // Stop ticking and drop every queued event
+  stop(): void {
+    this.manualRunning = false;
+    if (this.timerId) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+
+    this.pendingTimeouts.forEach(timeoutId => clearTimeout(timeoutId));
+    this.pendingTimeouts.clear();
+    this.queue = [];
+  }
+
+  // Queue a callback for an absolute clock time
+  schedule(time: number, callback: (time: number) => void): void {
+    const event: ScheduledEvent = { time, callback };
+
+    // Keep the queue sorted by time (events mostly arrive in order)
+    let index = this.queue.length;
+    while (index > 0 && this.queue[index - 1].time > time) {
+      index--;
+    }
+    this.queue.splice(index, 0, event);
+
+    // Events inside the current window are dispatched right away (a manual scheduler waits for runUntil)
+    if (this.timerId && time < this.clock() + this.lookaheadMs) {
+      this.dispatchDue();
+    }
+  }
+
+  // Main scheduler loop
+  private run(): void {
+    const horizon = this.clock() + this.lookaheadMs;
+
+    // Queue every tick that starts inside the lookahead window
+    while (this.timerId && this.nextTickTime < horizon) {
+      const tick = this.nextTick;
+      const time = this.nextTickTime;
+
+      this.nextTick++;
+      this.nextTickTime += this.getTickDuration(tick);
+
+      try {
+        this.onTick(tick, time);
+      } catch (error) {
+        console.error('Error in scheduler tick callback:', error);
+      }
+    }
+
+    this.dispatchDue();
+  }
+
+  // Hand events inside the lookahead window to individual timers
+  private dispatchDue(): void {
+    const now = this.clock();
+    const horizon = now + this.lookaheadMs;
+
+    while (this.queue.length > 0 && this.queue[0].time < horizon) {
+      const event = this.queue.shift()!;
+      const delay = Math.max(0, event.time - now);
+
+      const timeoutId = setTimeout(() => {
+        this.pendingTimeouts.delete(timeoutId);
+        try {
+          event.callback(event.time);
+        } catch (error) {
+          console.error('Error in scheduled event:', error);
+        }
+      }, delay);
+      this.pendingTimeouts.add(timeoutId);
+    }
+  }
+
+  // Move the time of a manual scheduler forward
+  // Ticks are queued a lookahead ahead of their time and events run at their time,
+  // in the same order the timers would run them.
+  runUntil(time: number): void {
+    if (!this.manual) {
+      console.warn('runUntil only drives a manual scheduler');
+      return;
+    }
+
+    while (this.manualRunning) {
+      const tickAt = this.nextTickTime - this.lookaheadMs;
+      const eventAt = this.queue.length > 0 ? this.queue[0].time : Infinity;
+      if (Math.min(tickAt, eventAt) >= time) break;
+
+      if (tickAt <= eventAt) {
+        this.manualTime = Math.max(this.manualTime, tickAt);
+        const tick = this.nextTick;
+        const tickTime = this.nextTickTime;
+        this.nextTick++;
+        this.nextTickTime += this.getTickDuration(tick);
+
+        try {
+          this.onTick(tick, tickTime);
+        } catch (error) {
+          console.error('Error in scheduler tick callback:', error);
+        }
+      } else {
+        const event = this.queue.shift()!;
+        this.manualTime = Math.max(this.manualTime, event.time);
+
+        try {
+          event.callback(event.time);
+        } catch (error) {
+          console.error('Error in scheduled event:', error);
+        }
+      }
+    }
+
+    this.manualTime = Math.max(this.manualTime, time);
+  }
+
+  // Move every tick that has not been queued yet (phase correction for external clocks)
+  shift(offsetMs: number): void {
+    this.nextTickTime += offsetMs;
+  }
+
+  // Get the next tick that will be scheduled
+  getNextTick(): number {
+    return this.nextTick;
+  }
+
+  // Get the absolute time of the next tick
+  getNextTickTime(): number {
+    return this.nextTickTime;
+  }
+
+  // Get current clock time
+  now(): number {
+    return this.clock();
+  }
+
+  // Check whether the scheduler is running
+  isRunning(): boolean {
+    return this.timerId !== null || this.manualRunning;
+  }
+}
+
+export { LookaheadScheduler, SchedulerOptions, ScheduledEvent, TickCallback, TickDurationProvider, Clock, monotonicClock };
@@ -2,29 +2,138 @@ import { Audio } from 'expo-av';
 import { Sound } from 'expo-av/build/Audio';
 import { Track, Step, MasterEffects, TrackEffects, ParameterLock } from './enhancedAudioEngine';
 import { usePresetLoader } from './presetLoader';
+import { LookaheadScheduler } from './scheduler';
+import { PatternBank, StoredPattern, ArrangementBlock, TOTAL_PATTERN_SLOTS, cloneTrackSteps } from './patternBank';
+import { evaluateTrigCondition, isValidTrigCondition } from './trigConditions';
+import { getRetrigOffsets, getRetrigVelocity, isValidRetrig } from './retrig';
+import { SeededRandom } from './random';
+import { Groove, getGrooveTimingOffset, getGrooveVelocityScale, isValidGrooveTemplate } from './groove';
+import {
+  TempoPoint,
+  TempoRange,
+  DEFAULT_TEMPO_RANGE,
+  roundBpm,
+  clampBpm,
+  isValidTempoRange,
+  isValidTempoPoint,
+  normalizeTempoLane,
+  getTempoAt
+} from './tempo';
+import {
+  TimeSignature,
+  DEFAULT_TIME_SIGNATURE,
+  getStepsPerBar,
+  getBeatSteps,
+  isValidTimeSignature
+} from './timeSignature';
+import {
+  AutomationParameter,
+  AUTOMATION_RESOLUTION,
+  resolveParameterId,
+  setEffectValue,
+  getAutomatedParameters,
+  getAutomationValue
+} from './automation';
+import {
+  ClockSource,
+  MidiClockMessage,
+  MidiTransport,
+  MidiClockSmoother,
+  PULSES_PER_STEP,
+  MAX_SONG_POSITION
+} from './midiClock';
+import {
+  DEFAULT_ROOT_NOTE,
+  SLIDE_TIME,
+  SLIDE_RESOLUTION,
+  noteToRate,
+  getAccentVelocity,
+  isValidNoteStep
+} from './notes';
+import { MusicalKey, quantizeNote, isValidKey, isValidTranspose } from './scales';
+import { DspMixer } from './mixer';
+import { MasterMeter } from './master';
+import { SampleDecoder } from './pcmOutput';
+import {
+  CHOKE_FADE_TIME,
+  CHOKE_FADE_RESOLUTION,
+  isValidVoiceGroup,
+  getChokedTracks,
+  getMuteGroupTracks
+} from './voiceGroups';
 
 // Define Sequencer interfaces
 interface SequencerOptions {
   bpm: number;
-  totalSteps: number; // 16, 32, or 64
+  totalSteps: number; // 1-64, length of the pattern loop
   swing: number; // 0-1, amount of swing to apply
   quantize: boolean; // Whether to quantize timing
+  tempoRange: TempoRange; // Allowed BPM range
+  timeSignature: TimeSignature; // Meter of bars, beats and count-ins
+  offline: boolean; // Render into a DSP mixer on a manual clock, without platform players or timers
 }
 
 interface SequencerEvent {
-  type: 'step' | 'bar' | 'pattern';
+  type: 'step' | 'bar' | 'pattern' | 'arrangement' | 'countIn' | 'transport';
   step: number;
   bar: number;
-  pattern: number;
+  pattern: number; // Active pattern slot (0-63)
+  block?: number; // Arrangement block that just started, -1 when the song has ended
+  countIn?: number; // Beats left in the count-in
+  bpm?: number; // Tempo of the step, including tempo automation
+  playing?: boolean; // Transport state after an external clock started or stopped playback
+  trackSteps?: { [trackId: string]: number }; // Current step of each track (polymeter)
 }
 
 type SequencerEventCallback = (event: SequencerEvent) => void;
 
+// Transport loop region (end is exclusive)
+interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+interface MetronomeSettings {
+  enabled: boolean; // Click during playback (count-in always clicks)
+  volume: number; // 0-1
+}
+
+// Live recording
+type RecordMode = 'overdub' | 'replace';
+
+interface RecordOptions {
+  trackId: string | null; // Armed track, erased as the playhead passes in replace mode
+  mode: RecordMode;
+  quantize: number; // 0-1, how far recorded hits are pulled onto the grid
+  countInBars: number; // Bars counted in before recording from stop
+}
+
+// Supported per-track clock multipliers (0.75 and 1.5 give triplet feels)
+const CLOCK_MULTIPLIERS = [0.125, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+const MAX_TRACK_LENGTH = 64;
+
+const MAX_COUNT_IN_BARS = 4;
+
+// Share of the measured phase error corrected on every followed step
+const CLOCK_PHASE_CORRECTION = 0.25;
+
 class Sequencer {
   private bpm: number = 140;
   private totalSteps: number = 64;
   private swing: number = 0;
   private quantize: boolean = true;
+  private groove: Groove | null = null;
+  private timeSignature: TimeSignature = { ...DEFAULT_TIME_SIGNATURE };
+  private stepsPerBar: number = 16;
+  private beatSteps: number[] = [0, 4, 8, 12]; // Beat offsets inside a bar
+  
+  // Tempo range and automation
+  private tempoRange: TempoRange = { ...DEFAULT_TEMPO_RANGE };
+  private tempoLane: TempoPoint[] = [];
+  private timelineStep: number = 0; // Steps queued since playback started from stop
+  private heardTimelineStep: number = 0;
+  private currentBpm: number = 140; // Tempo of the last step heard
   
   private isPlaying: boolean = false;
   private isPaused: boolean = false;
@@ -32,23 +141,113 @@ class Sequencer {
   private currentBar: number = 0;
   private currentPattern: number = 0;
   
-  private intervalId: NodeJS.Timeout | null = null;
+  private scheduler: LookaheadScheduler;
+  private schedulePosition: number = 0; // Next step to be queued
+  private resumeStep: number = 0; // Step to continue from after pause
+  private hasScheduledStep: boolean = false;
+  
+  // Pattern bank and song arrangement
+  private patternBank: PatternBank = new PatternBank();
+  private queuedPattern: number | null = null;
+  private arrangement: ArrangementBlock[] = [];
+  private songMode: boolean = false;
+  private songBlock: number = 0;
+  private songRepeat: number = 0;
+  private songEnding: boolean = false;
+  
+  // Polymeter state: sequencer steps since the track clocks were last aligned
+  private clockTicks: number = 0;
+  private heardClockTick: number = 0;
+  private trackResetBars: number = 0; // 0 = tracks run freely
+  private barsSinceReset: number = 0;
+  private pendingPhaseReset: boolean = false;
+  private trackPositions: { [trackId: string]: number } = {};
+  
+  // Conditional trig state
+  private fillActive: boolean = false;
+  private fillSteps: { [trackId: string]: Step[] } = {}; // Fill variant of the active pattern, per track
+  private trackCycles: { [trackId: string]: number } = {}; // Completed loops per track
+  private conditionResults: { [trackId: string]: boolean } = {}; // Last conditional result per track
+  
+  // Transport state
+  private loopRegion: LoopRegion | null = null;
+  private loopJumped: boolean = false; // The last step jumped back to the loop start
+  private countInBars: number = 0; // Count-in for normal playback from stop
+  private metronome: MetronomeSettings = { enabled: false, volume: 0.7 };
+  private metronomeSound: Sound | null = null;
+  
+  // External clock sync
+  private clockSource: ClockSource = 'internal';
+  private midiTransport: MidiTransport | null = null;
+  private removeMidiListener: (() => void) | null = null;
+  private clockSmoother: MidiClockSmoother = new MidiClockSmoother();
+  private followerBpm: number | null = null; // Tempo of the incoming clock
+  private followerPulses: number = 0; // Pulses received since Start/Continue
+  private stepTimes: Map<number, number> = new Map(); // Queued times of recent timeline steps
+  private pendingClockStart: MidiClockMessage[] = []; // Leader: sent with the first step heard
+  
+  // Automation state
+  private automatedEffects: { [trackId: string]: TrackEffects } = {}; // Effect values being heard
+  private pitchRates: { [trackId: string]: number } = {}; // Playback rate of the last pitch lock
+  
+  // Pitched step state
+  private noteRates: { [trackId: string]: number } = {}; // Playback rate of the note being heard
+  private slideNotes: { [trackId: string]: number } = {}; // Note of a queued step that slides into the next
+  private gateIds: { [trackId: string]: number } = {}; // Latest gate per track, older gates do not cut
+  private key: MusicalKey | null = null; // Project key, notes are quantized to it when set
+  private patternTranspose: number = 0; // Transposition of the active pattern
+  private voiceVolumes: { [trackId: string]: number } = {}; // Volume of the last hit, choke fades start there
+  
+  // Live recording state
+  private isRecording: boolean = false;
+  private recordOptions: RecordOptions = {
+    trackId: null,
+    mode: 'overdub',
+    quantize: 0,
+    countInBars: 1
+  };
+  private countInRemaining: number = 0; // Steps of count-in left before playback starts
+  private heardTrackSteps: { [trackId: string]: { count: number; time: number; duration: number } } = {};
+  private scheduledTrackSteps: { [trackId: string]: number } = {}; // Last track step count queued
+  private recordedAhead: Set<number> = new Set(); // Replace mode: steps recorded before being queued
+  
+  // Seeded randomness for probability steps
+  private random: SeededRandom;
+  private randomLock: boolean = false; // Replay the same random sequence every loop cycle
   private eventCallbacks: SequencerEventCallback[] = [];
   
   private tracks: Track[] = [];
   private masterEffects: MasterEffects;
   private presetLoader = usePresetLoader();
   private loadedSounds: Map<string, Sound> = new Map();
+  private dspMixer: DspMixer | null = null; // Plays and processes the tracks instead of the sample players when set
+  private offline: boolean = false;
+  private sampleDecoder: SampleDecoder | null = null;
   
   private stepHistory: number[] = []; // For tempo tap calculation
   private lastTapTime: number = 0;
   
-  constructor(options?: Partial<SequencerOptions>) {
+  constructor(options?: Partial<SequencerOptions>, random: SeededRandom = new SeededRandom()) {
     // Set default options
-    this.bpm = options?.bpm ?? 140;
+    if (options?.tempoRange && isValidTempoRange(options.tempoRange)) {
+      this.tempoRange = { ...options.tempoRange };
+    }
+    this.bpm = clampBpm(options?.bpm ?? 140, this.tempoRange);
+    this.currentBpm = this.bpm;
+    if (options?.timeSignature) {
+      this.setTimeSignature(options.timeSignature);
+    }
     this.totalSteps = options?.totalSteps ?? 64;
     this.swing = options?.swing ?? 0;
     this.quantize = options?.quantize ?? true;
+    this.random = random;
+    
+    this.offline = options?.offline ?? false;
+    this.scheduler = new LookaheadScheduler(
+      (tick, time) => this.scheduleTick(tick, time),
+      () => this.getStepDuration(),
+      { manual: this.offline }
+    );
     
     // Initialize master effects with default values
     this.masterEffects = {
@@ -73,6 +272,8 @@ class Sequencer {
       // Initialize preset loader
       await this.presetLoader.initialize();
       
+      await this.loadMetronomeSound();
+      
       console.log('Sequencer initialized successfully');
       return Promise.resolve();
     } catch (error) {
@@ -83,6 +284,11 @@ class Sequencer {
   
   // Set tracks
   setTracks(tracks: Track[]): void {
+    this.tracks.forEach(track => {
+      if (!tracks.includes(track)) {
+        this.dspMixer?.removeTrack(track.id);
+      }
+    });
     this.tracks = [...tracks];
     
     // Preload sounds for all tracks
@@ -92,7 +298,10 @@ class Sequencer {
   // Preload sounds for all tracks
   private async preloadTrackSounds(): Promise<void> {
     try {
-      const loadPromises = this.tracks.map(track => this.loadTrackSound(track));
+      const loadPromises: Promise<void>[] = this.offline ? [] : this.tracks.map(track => this.loadTrackSound(track));
+      if (this.dspMixer) {
+        loadPromises.push(...this.tracks.map(track => this.loadTrackSample(track)));
+      }
       await Promise.all(loadPromises);
       
       console.log('All track sounds preloaded successfully');
@@ -109,14 +318,14 @@ class Sequencer {
         return;
       }
       
-      // Load preset
-      const loadedPreset = await this.presetLoader.loadPreset(track.presetId);
+      // Load preset sound
+      const sound = await this.presetLoader.loadPresetSound(track.presetId);
       
       // Store sound in loadedSounds map
-      this.loadedSounds.set(track.id, loadedPreset.sound);
+      this.loadedSounds.set(track.id, sound);
       
       // Set initial volume
-      await loadedPreset.sound.setVolumeAsync(track.volume);
+      await sound.setVolumeAsync(track.volume);
       
       console.log(`Loaded sound for track: ${track.name}`);
     } catch (error) {
@@ -126,6 +335,74 @@ class Sequencer {
     }
   }
   
+  // Reload the sound and sample of a track after its preset changed
+  async reloadTrackSound(trackId: string): Promise<void> {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    
+    // Sounds are shared by every track using the preset, so the old one stays loaded
+    this.loadedSounds.delete(track.id);
+    const loadPromises: Promise<void>[] = this.offline ? [] : [this.loadTrackSound(track)];
+    if (this.dspMixer) {
+      loadPromises.push(this.loadTrackSample(track));
+    }
+    await Promise.all(loadPromises);
+  }
+  
+  // Decode the sample of a track for the mixer
+  private async loadTrackSample(track: Track): Promise<void> {
+    if (!this.dspMixer || !this.sampleDecoder) return;
+    
+    try {
+      const sample = await this.presetLoader.loadPresetSample(track.presetId, this.sampleDecoder);
+      this.dspMixer.setTrackSample(track.id, sample);
+      this.updateTrackMix(track);
+    } catch (error) {
+      console.error(`Error decoding sample for track ${track.name}:`, error);
+    }
+  }
+  
+  // Mix the tracks through a DSP mixer instead of the platform sample players (null switches back)
+  async setDspMixer(mixer: DspMixer | null, decoder: SampleDecoder | null = null): Promise<void> {
+    this.stopAllSounds();
+    this.dspMixer = mixer;
+    this.sampleDecoder = decoder;
+    if (!mixer) return;
+    
+    mixer.setTempo(this.currentBpm);
+    mixer.setMasterEffects(this.masterEffects);
+    await Promise.all(this.tracks.map(track => this.loadTrackSample(track)));
+  }
+  
+  // Check whether the tracks are mixed by a DSP mixer
+  isDspMixing(): boolean {
+    return this.dspMixer !== null;
+  }
+  
+  // Gain reduction of the master compressor and limiter since the last call (null without a DSP mixer)
+  getMasterMeter(): MasterMeter | null {
+    return this.dspMixer?.getMasterMeter() ?? null;
+  }
+  
+  // Sidechain ducking of every ducked track since the last call (null without a DSP mixer)
+  getSidechainMeter(): { [trackId: string]: number } | null {
+    return this.dspMixer?.getSidechainMeter() ?? null;
+  }
+  
+  // Offline rendering: run playback up to a time on the sequencer clock
+  runUntil(time: number): void {
+    if (!this.offline) {
+      console.warn('Only an offline sequencer can be run manually');
+      return;
+    }
+    this.scheduler.runUntil(time);
+  }
+  
+  // Current time on the sequencer clock (ms)
+  now(): number {
+    return this.scheduler.now();
+  }
+  
   // Use fallback sound if primary sound fails to load
   private async useFallbackSound(track: Track): Promise<void> {
     try {
@@ -141,7 +418,7 @@ class Sequencer {
     }
   }
   
-  // Set master effects
+  // Set master effects (only a DSP mixer processes them)
   setMasterEffects(effects: MasterEffects): void {
     this.masterEffects = { ...effects };
     
@@ -151,6 +428,13 @@ class Sequencer {
   
   // Apply audio effects to all tracks
   private async applyEffects(): Promise<void> {
+    // The mixer processes the effects for real
+    if (this.dspMixer) {
+      this.tracks.forEach(track => this.updateTrackMix(track));
+      this.dspMixer.setMasterEffects(this.masterEffects);
+      return;
+    }
+    
     try {
       // Apply effects to each track
       for (const track of this.tracks) {
@@ -170,12 +454,9 @@ class Sequencer {
         // Apply volume
         await sound.setVolumeAsync(shouldPlay ? track.volume : 0);
         
-        // In a real implementation, we would apply other effects here
-        // For now, we'll simulate with volume and rate adjustments
-        
-        // Apply filter effect (simulated with rate adjustment)
-        const filterEffect = track.effects.filter.cutoff;
-        await sound.setRateAsync(1.0 + (filterEffect - 0.5) * 0.1, true);
+        // Only volume and rate reach the sample players; filters and the other
+        // effects need the DSP mixer
+        await this.applySoundRate(sound, track);
       }
       
       // Apply master effects (simulated)
@@ -185,291 +466,1172 @@ class Sequencer {
     }
   }
   
-  // Start playback
-  play(): void {
+  // Hand the mix of a track as heard (including automation) to the mixer
+  private updateTrackMix(track: Track): void {
+    if (!this.dspMixer) return;
+    
+    this.dspMixer.setTrackMix(track.id, {
+      volume: track.volume,
+      pan: track.pan,
+      audible: this.isTrackAudible(track),
+      effects: this.getAutomatedEffects(track.id) ?? track.effects
+    });
+  }
+  
+  // Start playback (an external clock passes the time of its Start/Continue message)
+  play(startTime?: number): void {
     if (this.isPlaying && !this.isPaused) return;
     
+    this.stepTimes.clear();
+    
     if (this.isPaused) {
-      // Resume from paused state
+      // Resume from the step after the last one heard
       this.isPaused = false;
       this.isPlaying = true;
+      this.schedulePosition = this.resumeStep;
+      this.clockTicks = this.heardClockTick + 1;
+      this.timelineStep = this.heardTimelineStep + 1;
+      this.pendingClockStart = [
+        { type: 'songPosition', position: this.schedulePosition },
+        { type: 'continue' }
+      ];
     } else {
       // Start from beginning or current position
       this.isPlaying = true;
-      this.currentStep = this.currentStep || 0;
-    }
-    
-    // Calculate interval based on BPM
-    const stepTimeMs = this.calculateStepTime();
-    
-    // Start playback loop
-    this.intervalId = setInterval(() => {
-      this.playStep();
-      
-      // Update current step
-      this.currentStep = (this.currentStep + 1) % this.totalSteps;
+      this.schedulePosition = this.currentStep || 0;
       
-      // Update bar counter (assuming 16 steps per bar)
-      if (this.currentStep % 16 === 0) {
-        this.currentBar = (this.currentBar + 1) % 4;
-        
-        // Emit bar event
+      // Songs always play from the first block
+      if (this.songMode && this.arrangement.length > 0) {
+        this.songBlock = 0;
+        this.songRepeat = 0;
+        this.switchPattern(this.arrangement[0].patternIndex);
         this.emitEvent({
-          type: 'bar',
-          step: this.currentStep,
-          bar: this.currentBar,
-          pattern: this.currentPattern
+          type: 'arrangement',
+          step: 0,
+          bar: 0,
+          pattern: this.currentPattern,
+          block: 0
         });
       }
       
-      // Update pattern counter (assuming 64 steps per pattern)
-      if (this.currentStep === 0 && this.currentBar === 0) {
-        this.currentPattern = (this.currentPattern + 1) % 4;
-        
-        // Emit pattern event
-        this.emitEvent({
-          type: 'pattern',
-          step: this.currentStep,
-          bar: this.currentBar,
-          pattern: this.currentPattern
-        });
-      }
+      this.clockTicks = this.schedulePosition;
+      this.barsSinceReset = 0;
+      this.hasScheduledStep = false;
+      this.timelineStep = 0;
+      this.heardTimelineStep = 0;
+      this.resetConditionState();
       
-      // Emit step event
-      this.emitEvent({
-        type: 'step',
-        step: this.currentStep,
-        bar: this.currentBar,
-        pattern: this.currentPattern
-      });
-    }, stepTimeMs);
-  }
-  
-  // Calculate step time with swing
-  private calculateStepTime(): number {
-    // Base step time (ms)
-    const baseStepTimeMs = (60 * 1000) / this.bpm / 4; // 16th notes
-    
-    // Apply swing (alternating steps)
-    if (this.swing > 0) {
-      // Even steps are played on time, odd steps are delayed
-      const evenStepTime = baseStepTimeMs * (1 - (this.swing * 0.5));
-      const oddStepTime = baseStepTimeMs * (1 + (this.swing * 0.5));
+      // Every playback from stop hears the same random sequence
+      this.random.reset();
       
-      return this.currentStep % 2 === 0 ? evenStepTime : oddStepTime;
+      // Count in from stop (recording has its own count-in length)
+      // An external clock has already counted in on the leading device.
+      const countInBars = this.isRecording ? this.recordOptions.countInBars : this.countInBars;
+      this.countInRemaining = this.clockSource === 'follower' ? 0 : countInBars * this.stepsPerBar;
+      this.pendingClockStart = this.schedulePosition === 0
+        ? [{ type: 'start' }]
+        : [{ type: 'songPosition', position: this.schedulePosition }, { type: 'continue' }];
     }
     
-    return baseStepTimeMs;
+    this.songEnding = false;
+    
+    // Ticks are queued ahead of time with absolute timestamps
+    this.scheduler.start(0, startTime);
+  }
+  
+  // Duration of the step being queued (16th note) in ms
+  // The scheduler asks for a tick's duration just before queuing it, so tempo
+  // automation is followed step by step.
+  private getStepDuration(): number {
+    return (60 * 1000) / this.getTempoAtStep(this.timelineStep) / 4;
+  }
+  
+  // Tempo of a timeline step, following the automation lane (or the external clock)
+  private getTempoAtStep(timelineStep: number): number {
+    if (this.clockSource === 'follower' && this.followerBpm !== null) return this.followerBpm;
+    if (this.tempoLane.length === 0) return this.bpm;
+    return clampBpm(getTempoAt(this.tempoLane, timelineStep / this.stepsPerBar, this.bpm), this.tempoRange);
+  }
+  
+  // Clock multiplier of a track (1 = one track step per sequencer step)
+  private getTrackMultiplier(track: Track): number {
+    return track.clockMultiplier ?? 1;
+  }
+  
+  // Swing delays every odd step by a fraction of a step
+  private getSwingOffset(step: number, stepDuration: number): number {
+    if (this.swing <= 0 || step % 2 === 0) return 0;
+    return stepDuration * this.swing * 0.5;
+  }
+  
+  // Groove timing offset of a track step, in track steps
+  private getGrooveOffset(track: Track, trackStep: number): number {
+    if (!this.groove) return 0;
+    return getGrooveTimingOffset(this.groove, trackStep, track.grooveAmount ?? 1);
+  }
+  
+  // Groove velocity accent of a track step
+  private getGrooveVelocityScale(track: Track, trackStep: number): number {
+    if (!this.groove) return 1;
+    return getGrooveVelocityScale(this.groove, trackStep, track.grooveAmount ?? 1);
   }
   
-  // Play current step
-  private async playStep(): Promise<void> {
+  // Micro-timing shifts a single trigger by up to half a step
+  private getMicroTimingOffset(step: Step, stepDuration: number): number {
+    if (this.quantize || !step.microTiming) return 0;
+    return step.microTiming * stepDuration;
+  }
+  
+  // Scheduler callback: queue everything that happens on the next step
+  private scheduleTick(tick: number, time: number): void {
     if (!this.isPlaying || this.isPaused) return;
     
-    try {
-      // Play each track if active for current step
-      for (const track of this.tracks) {
-        // Skip if track is muted or no sound is loaded
-        if (track.mute || !this.loadedSounds.has(track.id)) continue;
-        
-        // Handle solo tracks
-        const soloTrackExists = this.tracks.some(t => t.solo);
-        if (soloTrackExists && !track.solo) continue;
-        
-        // Get step data
-        const step = track.steps[this.currentStep];
-        if (!step || !step.active) continue;
-        
-        // Apply probability
-        if (step.probability < 1.0 && Math.random() > step.probability) {
-          continue; // Skip this step based on probability
-        }
-        
-        // Get sound
-        const sound = this.loadedSounds.get(track.id);
-        if (!sound) continue;
-        
-        // Apply micro-timing (if not quantized)
-        if (!this.quantize && step.microTiming !== 0) {
-          const timingOffsetMs = step.microTiming * this.calculateStepTime();
-          setTimeout(() => this.triggerSound(sound, track, step), timingOffsetMs);
-        } else {
-          // Play immediately
-          this.triggerSound(sound, track, step);
-        }
-      }
-    } catch (error) {
-      console.error('Error playing step:', error);
+    // Count-in steps hold the playhead at the start
+    if (this.countInRemaining > 0) {
+      this.scheduleCountIn(time);
+      return;
     }
-  }
-  
-  // Trigger a sound with applied parameters
-  private async triggerSound(sound: Sound, track: Track, step: Step): Promise<void> {
-    try {
-      // Reset sound to beginning
-      await sound.stopAsync();
-      await sound.setPositionAsync(0);
-      
-      // Apply velocity as volume adjustment
-      const velocityVolume = track.volume * step.velocity;
-      await sound.setVolumeAsync(velocityVolume);
+    
+    let patternStart = false;
+    
+    const jumpedToLoopStart = this.loopJumped;
+    this.loopJumped = false;
+    
+    // The pattern loop wrapped around (jumps inside a loop region do not count)
+    if (this.schedulePosition === 0 && this.hasScheduledStep && !jumpedToLoopStart) {
+      patternStart = true;
       
-      // Apply parameter locks if any
-      if (step.parameterLocks.length > 0) {
-        await this.applyParameterLocks(sound, track, step.parameterLocks);
+      if (this.randomLock) {
+        this.random.reset();
       }
       
-      // Play the sound
-      await sound.playAsync();
-    } catch (error) {
-      console.error('Error triggering sound:', error);
-    }
-  }
-  
-  // Apply parameter locks to a sound
-  private async applyParameterLocks(sound: Sound, track: Track, parameterLocks: ParameterLock[]): Promise<void> {
-    try {
-      for (const lock of parameterLocks) {
-        // Handle different parameter types
-        switch (lock.parameterId) {
-          case 'pitch':
-            // Adjust pitch (simulated with rate)
-            await sound.setRateAsync(1.0 + (lock.value - 0.5), true);
-            break;
-          case 'filter':
-            // Adjust filter (would be implemented with actual audio processing)
-            console.log(`Applied filter parameter lock: ${lock.value}`);
-            break;
-          case 'delay':
-            // Adjust delay (would be implemented with actual audio processing)
-            console.log(`Applied delay parameter lock: ${lock.value}`);
-            break;
-          default:
-            // Unknown parameter
-            console.warn(`Unknown parameter lock: ${lock.parameterId}`);
+      if (this.songMode && !this.advanceSong(time)) {
+        // End of the arrangement: stop once the last step has been heard
+        if (!this.songEnding) {
+          this.songEnding = true;
+          this.scheduler.schedule(time, () => this.finishSong());
         }
+        return;
       }
-    } catch (error) {
-      console.error('Error applying parameter locks:', error);
     }
+    
+    // Queued pattern changes happen on the next bar
+    if (this.queuedPattern !== null && this.schedulePosition % this.stepsPerBar === 0) {
+      this.switchPattern(this.queuedPattern);
+      this.queuedPattern = null;
+      patternStart = this.hasScheduledStep;
+    }
+    
+    const step = this.schedulePosition % this.totalSteps;
+    this.schedulePosition = (step + 1) % this.totalSteps;
+    this.hasScheduledStep = true;
+    
+    // Realign all track clocks on the global bar when requested
+    if (step % this.stepsPerBar === 0 && this.clockTicks > 0) {
+      this.barsSinceReset++;
+      if (this.pendingPhaseReset || (this.trackResetBars > 0 && this.barsSinceReset >= this.trackResetBars)) {
+        this.clockTicks = 0;
+        this.barsSinceReset = 0;
+        this.pendingPhaseReset = false;
+      }
+    }
+    
+    const clockTick = this.clockTicks++;
+    const stepTime = time + this.getSwingOffset(step, this.getStepDuration());
+    const pattern = this.currentPattern;
+    const timelineStep = this.timelineStep;
+    const bpm = this.getTempoAtStep(timelineStep);
+    
+    this.scheduleTrackSteps(clockTick, time);
+    this.syncClock(timelineStep, time);
+    this.timelineStep++;
+    
+    // Metronome click on every beat
+    const barStep = step % this.stepsPerBar;
+    if (this.metronome.enabled && this.beatSteps.includes(barStep)) {
+      this.scheduler.schedule(time, () => this.playClick(barStep === 0));
+    }
+    
+    // Jump back at the end of the loop region, realigning the track clocks
+    if (this.loopRegion && step === this.loopRegion.end - 1) {
+      this.schedulePosition = this.loopRegion.start;
+      this.clockTicks = this.loopRegion.start;
+      this.loopJumped = true;
+    }
+    
+    // Position updates and events fire when the step is actually heard
+    this.scheduler.schedule(stepTime, () => this.advanceTo(step, clockTick, pattern, patternStart, timelineStep, bpm));
   }
   
-  // Pause playback
-  pause(): void {
-    if (!this.isPlaying || this.isPaused) return;
+  // Update position counters and emit events for a step being heard
+  private advanceTo(
+    step: number,
+    clockTick: number,
+    pattern: number,
+    patternStart: boolean,
+    timelineStep: number,
+    bpm: number
+  ): void {
+    this.currentStep = step;
+    this.heardClockTick = clockTick;
+    this.heardTimelineStep = timelineStep;
+    this.currentBpm = bpm;
+    this.dspMixer?.setTempo(bpm);
     
-    this.isPaused = true;
+    // Update bar counter
+    if (step % this.stepsPerBar === 0) {
+      this.currentBar = Math.floor(step / this.stepsPerBar);
+      
+      // Emit bar event
+      this.emitEvent({
+        type: 'bar',
+        step,
+        bar: this.currentBar,
+        pattern
+      });
+    }
     
-    // Clear interval
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    // Emit pattern event each time a pattern loop starts
+    if (patternStart) {
+      this.emitEvent({
+        type: 'pattern',
+        step,
+        bar: this.currentBar,
+        pattern
+      });
     }
+    
+    // Emit step event
+    this.emitEvent({
+      type: 'step',
+      step,
+      bar: this.currentBar,
+      pattern,
+      bpm,
+      trackSteps: { ...this.trackPositions }
+    });
   }
   
-  // Stop playback
-  stop(): void {
-    if (!this.isPlaying && !this.isPaused) return;
+  // Replace the live track steps with a stored pattern
+  // Edits to the outgoing pattern are stored back into its slot first.
+  private switchPattern(patternIndex: number): void {
+    this.patternBank.store(this.currentPattern, this.tracks, this.totalSteps, {
+      transpose: this.patternTranspose,
+      fill: this.fillSteps
+    });
     
-    this.isPlaying = false;
-    this.isPaused = false;
+    const length = this.patternBank.apply(patternIndex, this.tracks);
+    if (length === null) {
+      // Empty slots start as a blank pattern with the current track lengths
+      this.tracks.forEach(track => {
+        track.steps = track.steps.map(() => this.createEmptyStep());
+      });
+      this.patternBank.store(patternIndex, this.tracks, this.totalSteps);
+    } else {
+      this.totalSteps = length;
+    }
+    const stored = this.patternBank.get(patternIndex);
+    this.patternTranspose = stored?.transpose ?? 0;
+    this.fillSteps = stored?.fill ? cloneTrackSteps(stored.fill) : {};
     
-    // Clear interval
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    if (this.loopRegion && this.loopRegion.end > this.totalSteps) {
+      this.loopRegion = null;
     }
     
-    // Reset position
-    this.currentStep = 0;
-    this.currentBar = 0;
+    this.currentPattern = patternIndex;
+    this.schedulePosition = 0;
+    this.clockTicks = 0;
+    this.barsSinceReset = 0;
+    this.resetConditionState();
+  }
+  
+  // Move the song forward at the end of a pattern loop
+  // Returns false once the last block has finished.
+  private advanceSong(time: number): boolean {
+    const block = this.arrangement[this.songBlock];
+    if (!block) return false;
     
-    // Stop all sounds
-    this.stopAllSounds();
+    this.songRepeat++;
+    if (this.songRepeat < block.repeats) return true;
+    
+    this.songBlock++;
+    this.songRepeat = 0;
+    
+    const nextBlock = this.arrangement[this.songBlock];
+    if (!nextBlock) return false;
+    
+    this.switchPattern(nextBlock.patternIndex);
+    this.queuedPattern = null;
+    
+    const blockIndex = this.songBlock;
+    this.scheduler.schedule(time, () => this.emitEvent({
+      type: 'arrangement',
+      step: 0,
+      bar: 0,
+      pattern: nextBlock.patternIndex,
+      block: blockIndex
+    }));
+    
+    return true;
+  }
+  
+  // Stop playback once the arrangement has played to the end
+  private finishSong(): void {
+    this.stop();
     
-    // Emit step event for position 0
     this.emitEvent({
-      type: 'step',
+      type: 'arrangement',
       step: 0,
       bar: 0,
-      pattern: this.currentPattern
+      pattern: this.currentPattern,
+      block: -1
     });
   }
   
-  // Stop all sounds
-  private async stopAllSounds(): Promise<void> {
+  // Queue the track steps that start during one sequencer step
+  // Each track runs its own clock: track step k starts k / multiplier
+  // sequencer steps after the last phase reset, and wraps at the track length.
+  private scheduleTrackSteps(clockTick: number, tickTime: number): void {
     try {
-      const stopPromises = Array.from(this.loadedSounds.values()).map(sound => sound.stopAsync());
-      await Promise.all(stopPromises);
+      const soloTrackExists = this.tracks.some(t => t.solo);
+      const stepDuration = this.getStepDuration();
+      
+      this.tracks.forEach((track, trackIndex) => {
+        const length = track.steps.length;
+        if (length === 0) return;
+        
+        const multiplier = this.getTrackMultiplier(track);
+        const trackStepDuration = stepDuration / multiplier;
+        
+        // Small epsilon keeps fractional multipliers from skipping or doubling steps
+        const firstStep = Math.ceil(clockTick * multiplier - 1e-9);
+        const endStep = Math.ceil((clockTick + 1) * multiplier - 1e-9);
+        
+        for (let k = firstStep; k < endStep; k++) {
+          const stepIndex = k % length;
+          const stepTime = tickTime
+            + (k / multiplier - clockTick) * stepDuration
+            + this.getSwingOffset(k, trackStepDuration)
+            + this.getGrooveOffset(track, k) * trackStepDuration;
+          
+          this.scheduler.schedule(stepTime, () => {
+            this.trackPositions[track.id] = stepIndex;
+            this.heardTrackSteps[track.id] = { count: k, time: stepTime, duration: trackStepDuration };
+          });
+          
+          this.scheduledTrackSteps[track.id] = k;
+          this.advanceTrackCycle(track.id, stepIndex);
+          this.eraseForReplace(track, stepIndex);
+          this.scheduleAutomation(track, stepIndex, stepTime, trackStepDuration);
+          
+          // Get step data
+          // A slide only ties into the step right after it
+          const slideFrom = this.slideNotes[track.id];
+          delete this.slideNotes[track.id];
+          
+          const step = this.getPlayingStep(track, stepIndex);
+          if (!step || !step.active) continue;
+          
+          // Conditions are evaluated on muted tracks too, so PRE and NEI stay consistent
+          if (!this.shouldTrigger(track, trackIndex, step)) continue;
+          
+          // Skip if track has nothing to play
+          if (!this.hasTrackVoice(track)) continue;
+          
+          // Skip muted and soloed-out tracks, unless they duck another track (the mixer plays them silently)
+          const silenced = track.mute || (soloTrackExists && !track.solo);
+          if (silenced && !this.isSidechainSource(track)) continue;
+          
+          // Get sound (the mixer plays tracks without one)
+          const sound = this.loadedSounds.get(track.id) ?? null;
+          
+          const triggerTime = stepTime + this.getMicroTimingOffset(step, trackStepDuration);
+          const note = this.getPlayedNote(track, step) ?? this.getRootNote(track);
+          
+          // Sliding steps hold their note into the next step, so they are never cut
+          const gateDuration = step.gateLength !== undefined && !step.slide
+            ? step.gateLength * trackStepDuration
+            : undefined;
+          if (step.slide) {
+            this.slideNotes[track.id] = note;
+          }
+          
+          // The previous step slid into this one: glide to the note without retriggering
+          if (slideFrom !== undefined) {
+            this.scheduleSlide(sound, track, slideFrom, note, triggerTime, trackStepDuration, gateDuration);
+            continue;
+          }
+          
+          // Ratchets fire several times inside the step
+          // The mixer places hits on their exact frame, so it gets them as soon as they are queued.
+          const grooveScale = this.getGrooveVelocityScale(track, k);
+          getRetrigOffsets(step).forEach((offset, hit) => {
+            const velocity = getRetrigVelocity(step, hit) * grooveScale;
+            const hitTime = triggerTime + offset * trackStepDuration;
+            if (this.dspMixer) {
+              this.triggerSound(sound, track, step, velocity, hitTime, gateDuration);
+              return;
+            }
+            this.scheduler.schedule(hitTime, time => this.triggerSound(sound, track, step, velocity, time, gateDuration));
+          });
+        }
+      });
     } catch (error) {
-      console.error('Error stopping sounds:', error);
+      console.error('Error scheduling step:', error);
     }
   }
   
-  // Set BPM
-  setBpm(bpm: number): void {
-    if (bpm < 60 || bpm > 200) {
-      console.warn('BPM out of range (60-200):', bpm);
-      return;
-    }
-    
-    this.bpm = bpm;
-    
-    // Restart interval if playing
-    if (this.isPlaying && !this.isPaused) {
-      if (this.intervalId) {
-        clearInterval(this.intervalId);
-      }
-      this.play();
+  // Check whether a track is heard in the mix (not muted and not soloed out)
+  private isTrackAudible(track: Track): boolean {
+    return !track.mute && (!this.tracks.some(t => t.solo) || track.solo);
+  }
+  
+  // Check whether the mixer ducks another track with this one
+  private isSidechainSource(track: Track): boolean {
+    return this.dspMixer !== null && this.tracks.some(other => other.effects.sidechain?.source === track.id);
+  }
+  
+  // Check whether a track can be heard: a loaded sound or a sample in the mixer
+  private hasTrackVoice(track: Track): boolean {
+    return this.loadedSounds.has(track.id) || (this.dspMixer?.hasTrackSample(track.id) ?? false);
+  }
+  
+  // Step a track plays at a position: its fill variant while fill is held
+  // Fills shorter than the track repeat, so releasing fill lands back in phase.
+  private getPlayingStep(track: Track, stepIndex: number): Step | undefined {
+    const fill = this.fillActive ? this.fillSteps[track.id] : undefined;
+    return fill && fill.length > 0 ? fill[stepIndex % fill.length] : track.steps[stepIndex];
+  }
+  
+  // Count completed loops of a track (used by ratio and FIRST conditions)
+  private advanceTrackCycle(trackId: string, stepIndex: number): void {
+    if (this.trackCycles[trackId] === undefined) {
+      this.trackCycles[trackId] = 0;
+    } else if (stepIndex === 0) {
+      this.trackCycles[trackId]++;
     }
   }
   
-  // Set swing amount
-  setSwing(swing: number): void {
-    if (swing < 0 || swing > 1) {
-      console.warn('Swing out of range (0-1):', swing);
-      return;
+  // Evaluate the trig condition and probability of an active step
+  private shouldTrigger(track: Track, trackIndex: number, step: Step): boolean {
+    if (step.condition) {
+      const neighbor = trackIndex > 0 ? this.tracks[trackIndex - 1] : null;
+      const passed = evaluateTrigCondition(step.condition, {
+        cycle: this.trackCycles[track.id] ?? 0,
+        fill: this.fillActive,
+        previous: this.conditionResults[track.id] ?? null,
+        neighbor: neighbor ? this.conditionResults[neighbor.id] ?? null : null
+      });
+      
+      this.conditionResults[track.id] = passed;
+      if (!passed) return false;
     }
     
-    this.swing = swing;
-    
-    // Restart interval if playing to apply new swing
-    if (this.isPlaying && !this.isPaused) {
-      if (this.intervalId) {
-        clearInterval(this.intervalId);
+    // Apply probability
+    if (step.probability < 1.0) {
+      const passed = this.random.next() < step.probability;
+      
+      // Probability counts as the condition of steps without one
+      if (!step.condition) {
+        this.conditionResults[track.id] = passed;
       }
-      this.play();
+      return passed;
     }
+    
+    return true;
   }
   
-  // Set quantize mode
-  setQuantize(quantize: boolean): void {
-    this.quantize = quantize;
+  // Reset loop counts and PRE/NEI results (pattern start or change)
+  private resetConditionState(): void {
+    this.trackCycles = {};
+    this.conditionResults = {};
   }
   
-  // Set total steps
-  setTotalSteps(steps: number): void {
-    if (steps !== 16 && steps !== 32 && steps !== 64) {
-      console.warn('Invalid step count. Must be 16, 32, or 64:', steps);
-      return;
-    }
+  // Queue one count-in step and report each beat
+  // The count-in is whole bars, so the bar position follows from the steps left.
+  private scheduleCountIn(time: number): void {
+    const remaining = this.countInRemaining--;
+    const barStep = (this.stepsPerBar - (remaining % this.stepsPerBar)) % this.stepsPerBar;
+    const beat = this.beatSteps.indexOf(barStep);
+    if (beat === -1) return;
     
-    this.totalSteps = steps;
+    const barsLeft = Math.ceil(remaining / this.stepsPerBar);
+    const beatsLeft = (barsLeft - 1) * this.beatSteps.length + this.beatSteps.length - beat;
     
-    // Reset position if current step is beyond new total
-    if (this.currentStep >= steps) {
-      this.currentStep = 0;
-      this.currentBar = 0;
+    this.scheduler.schedule(time, () => {
+      this.playClick(barStep === 0);
+      this.emitEvent({
+        type: 'countIn',
+        step: 0,
+        bar: 0,
+        pattern: this.currentPattern,
+        countIn: beatsLeft
+      });
+    });
+  }
+  
+  // Replace mode clears the armed track's steps as they are queued
+  // Steps recorded just ahead of the playhead are kept.
+  private eraseForReplace(track: Track, stepIndex: number): void {
+    if (!this.isRecording || this.recordOptions.mode !== 'replace') return;
+    if (track.id !== this.recordOptions.trackId) return;
+    
+    if (this.recordedAhead.delete(stepIndex)) return;
+    
+    const step = track.steps[stepIndex];
+    if (step?.active) {
+      track.steps[stepIndex] = { ...step, active: false };
     }
   }
   
-  // Register event callback
-  addEventListener(callback: SequencerEventCallback): void {
-    this.eventCallbacks.push(callback);
+  // Load the metronome click (a closed hi-hat)
+  private async loadMetronomeSound(): Promise<void> {
+    try {
+      const { sound } = await Audio.Sound.createAsync(require('../../assets/audio/hihat/hihat_closed.mp3'));
+      this.metronomeSound = sound;
+    } catch (error) {
+      // Playback works without a click
+      console.warn('Failed to load metronome sound:', error);
+    }
   }
   
-  // Remove event callback
-  removeEventListener(callback: SequencerEventCallback): void {
+  // Play one metronome click, pitched up and louder on the downbeat
+  private async playClick(accent: boolean): Promise<void> {
+    if (!this.metronomeSound) return;
+    
+    try {
+      await this.metronomeSound.replayAsync({
+        volume: this.metronome.volume * (accent ? 1 : 0.6),
+        rate: accent ? 1.5 : 1.0,
+        shouldCorrectPitch: false
+      });
+    } catch (error) {
+      console.error('Error playing metronome click:', error);
+    }
+  }
+  
+  // Trigger a sound with applied parameters
+  // The gate (in ms from the trigger time) cuts the sound unless a later note takes over.
+  private async triggerSound(
+    sound: Sound | null,
+    track: Track,
+    step: Step,
+    velocity: number = step.velocity,
+    time?: number,
+    gateDuration?: number
+  ): Promise<void> {
+    try {
+      // Pitch the sample to the step's note (steps without a note play the root)
+      const note = this.getPlayedNote(track, step);
+      const noteRate = note !== undefined ? noteToRate(note, this.getRootNote(track)) : undefined;
+      const noteChanged = noteRate !== this.noteRates[track.id];
+      if (noteRate === undefined) {
+        delete this.noteRates[track.id];
+      } else {
+        this.noteRates[track.id] = noteRate;
+      }
+      
+      // Apply parameter locks if any, or undo the pitch of an earlier lock
+      const pitchChanged = step.parameterLocks.length > 0 || this.pitchRates[track.id] !== undefined;
+      if (pitchChanged) {
+        this.applyParameterLocks(track, step.parameterLocks);
+      }
+      
+      // Cut the tails of the tracks this hit chokes (silent sidechain sources choke nothing)
+      if (this.isTrackAudible(track)) {
+        this.chokeTracks(sound, track, time);
+      }
+      
+      const level = step.accent ? getAccentVelocity(velocity) : velocity;
+      const velocityVolume = track.volume * level;
+      this.voiceVolumes[track.id] = velocityVolume;
+      
+      // The mixer takes the hit with its pitch and applies the track volume itself
+      // (the hit goes first, as it drops the gates of earlier hits)
+      if (this.dspMixer) {
+        this.dspMixer.trigger(track.id, time ?? this.scheduler.now(), { gain: level, rate: this.getPlaybackRate(track) });
+        this.openGate(sound, track, time, gateDuration);
+        return;
+      }
+      this.openGate(sound, track, time, gateDuration);
+      if (!sound) return;
+      
+      if (pitchChanged || noteChanged) {
+        await this.applySoundRate(sound, track);
+      }
+      
+      // Restart from the beginning with velocity applied in a single call
+      await sound.replayAsync({ volume: velocityVolume });
+    } catch (error) {
+      console.error('Error triggering sound:', error);
+    }
+  }
+  
+  // Root note of a track's preset
+  private getRootNote(track: Track): number {
+    return this.presetLoader.findPresetById(track.presetId)?.rootNote ?? DEFAULT_ROOT_NOTE;
+  }
+  
+  // Note a step plays after transposition and quantization, or undefined for the untransposed root
+  // Only steps with a note are melodic: they follow the pattern transposition and the key.
+  // Steps without one play the root, shifted by the track transposition alone.
+  private getPlayedNote(track: Track, step: Step): number | undefined {
+    const trackTranspose = track.transpose ?? 0;
+    if (step.note === undefined) {
+      return trackTranspose !== 0 ? this.getRootNote(track) + trackTranspose : undefined;
+    }
+    
+    const note = step.note + trackTranspose + this.patternTranspose;
+    return this.key ? quantizeNote(note, this.key) : note;
+  }
+  
+  // Start a new gate for a track and cut the sound when it ends
+  private openGate(sound: Sound | null, track: Track, time?: number, gateDuration?: number): void {
+    const gate = (this.gateIds[track.id] ?? 0) + 1;
+    this.gateIds[track.id] = gate;
+    if (time === undefined || gateDuration === undefined) return;
+    
+    // The mixer drops the gate itself when a later note comes first
+    if (this.dspMixer) {
+      this.dspMixer.closeGate(track.id, time + gateDuration);
+      return;
+    }
+    
+    this.scheduler.schedule(time + gateDuration, () => {
+      // A later note owns the sound now
+      if (this.gateIds[track.id] !== gate) return;
+      
+      sound?.stopAsync().catch(error => console.error('Error closing gate:', error));
+    });
+  }
+  
+  // Fade out and stop the tails of the tracks in a track's choke group
+  private chokeTracks(sound: Sound | null, track: Track, time?: number): void {
+    getChokedTracks(this.tracks, track).forEach(other => {
+      // Mixer voices belong to one track, so shared presets choke as well
+      if (this.dspMixer) {
+        this.gateIds[other.id] = (this.gateIds[other.id] ?? 0) + 1;
+        this.dspMixer.release(other.id, time ?? this.scheduler.now(), CHOKE_FADE_TIME);
+        return;
+      }
+      
+      const otherSound = this.loadedSounds.get(other.id);
+      // Tracks on the same preset share a sound, which the hit restarts anyway
+      if (!otherSound || otherSound === sound) return;
+      
+      // Take over the choked track's gate so a pending gate cannot cut its next note
+      const gate = (this.gateIds[other.id] ?? 0) + 1;
+      this.gateIds[other.id] = gate;
+      
+      // Hits outside playback (pads, previews) cut right away
+      if (time === undefined || !this.scheduler.isRunning()) {
+        otherSound.stopAsync().catch(error => console.error('Error choking sound:', error));
+        return;
+      }
+      
+      const volume = this.voiceVolumes[other.id] ?? other.volume;
+      for (let update = 1; update <= CHOKE_FADE_RESOLUTION; update++) {
+        const progress = update / CHOKE_FADE_RESOLUTION;
+        
+        this.scheduler.schedule(time + progress * CHOKE_FADE_TIME, () => {
+          // The choked track was triggered again during the fade
+          if (this.gateIds[other.id] !== gate) return;
+          
+          const fade = progress < 1 ? otherSound.setVolumeAsync(volume * (1 - progress)) : otherSound.stopAsync();
+          fade.catch(error => console.error('Error choking sound:', error));
+        });
+      }
+    });
+  }
+  
+  // Glide from a sliding note to the next note without retriggering
+  private scheduleSlide(
+    sound: Sound | null,
+    track: Track,
+    fromNote: number,
+    toNote: number,
+    time: number,
+    stepDuration: number,
+    gateDuration?: number
+  ): void {
+    const rootNote = this.getRootNote(track);
+    
+    // The mixer gets the gate and the glide as they are queued, on their exact frames
+    if (this.dspMixer) {
+      this.openGate(sound, track, time, gateDuration);
+      for (let update = 1; update <= SLIDE_RESOLUTION; update++) {
+        const progress = update / SLIDE_RESOLUTION;
+        const rate = noteToRate(fromNote + (toNote - fromNote) * progress, rootNote) * (this.pitchRates[track.id] ?? 1.0);
+        this.dspMixer.setRate(track.id, time + progress * SLIDE_TIME * stepDuration, rate);
+      }
+      this.noteRates[track.id] = noteToRate(toNote, rootNote);
+      return;
+    }
+    
+    // The tied note takes over the gate when it is heard
+    this.scheduler.schedule(time, heardTime => this.openGate(sound, track, heardTime, gateDuration));
+    
+    for (let update = 1; update <= SLIDE_RESOLUTION; update++) {
+      const progress = update / SLIDE_RESOLUTION;
+      const note = fromNote + (toNote - fromNote) * progress;
+      
+      this.scheduler.schedule(time + progress * SLIDE_TIME * stepDuration, () => {
+        this.noteRates[track.id] = noteToRate(note, rootNote);
+        this.applySoundRate(sound, track);
+      });
+    }
+  }
+  
+  // Apply the parameter locks of a step that act on the hit itself (the pitch)
+  private applyParameterLocks(track: Track, parameterLocks: ParameterLock[]): void {
+    // Pitch only applies to the locked step
+    delete this.pitchRates[track.id];
+    
+    for (const lock of parameterLocks) {
+      if (lock.parameterId === 'pitch') {
+        // Adjust pitch (simulated with rate)
+        this.pitchRates[track.id] = 1.0 + (lock.value - 0.5);
+        continue;
+      }
+      
+      // Effect locks are applied by the automation updates, which also handle slides and latching
+      if (!resolveParameterId(lock.parameterId)) {
+        console.warn(`Unknown parameter lock: ${lock.parameterId}`);
+      }
+    }
+  }
+  
+  // Queue automation updates across one track step
+  // Values are evaluated several times per step so ramps and slides move smoothly.
+  private scheduleAutomation(track: Track, stepIndex: number, stepTime: number, duration: number): void {
+    const parameters = getAutomatedParameters(track);
+    if (parameters.length === 0) return;
+    
+    for (let update = 0; update < AUTOMATION_RESOLUTION; update++) {
+      const position = stepIndex + update / AUTOMATION_RESOLUTION;
+      const values = parameters.map(parameter => ({
+        parameter,
+        value: getAutomationValue(track, parameter, position)
+      }));
+      
+      this.scheduler.schedule(
+        stepTime + (update / AUTOMATION_RESOLUTION) * duration,
+        () => this.applyAutomation(track, values)
+      );
+    }
+  }
+  
+  // Apply automated values on top of the programmed track effects
+  private applyAutomation(track: Track, values: { parameter: AutomationParameter; value: number }[]): void {
+    let effects = track.effects;
+    values.forEach(({ parameter, value }) => {
+      effects = setEffectValue(effects, parameter, value);
+    });
+    this.automatedEffects[track.id] = effects;
+    
+    if (this.dspMixer) {
+      this.updateTrackMix(track);
+    }
+  }
+  
+  // Playback rate of a track from its note and pitch lock
+  private getPlaybackRate(track: Track): number {
+    return (this.noteRates[track.id] ?? 1.0) * (this.pitchRates[track.id] ?? 1.0);
+  }
+  
+  // Set the playback rate from the note and the pitch lock
+  private async applySoundRate(sound: Sound | null, track: Track): Promise<void> {
+    if (this.dspMixer) {
+      this.dspMixer.setRate(track.id, this.scheduler.now(), this.getPlaybackRate(track));
+      return;
+    }
+    if (!sound) return;
+    
+    try {
+      // Without pitch correction the rate change transposes the sample
+      await sound.setRateAsync(this.getPlaybackRate(track), false);
+    } catch (error) {
+      console.error('Error applying playback rate:', error);
+    }
+  }
+  
+  // Get the effect values of a track as currently heard, including automation
+  getAutomatedEffects(trackId: string): TrackEffects | undefined {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) return undefined;
+    
+    return this.automatedEffects[trackId] ?? track.effects;
+  }
+  
+  // Pause playback
+  pause(): void {
+    if (!this.isPlaying || this.isPaused) return;
+    
+    this.isPaused = true;
+    this.resumeStep = (this.currentStep + 1) % this.totalSteps;
+    
+    // Drop everything queued ahead
+    this.scheduler.stop();
+    this.dspMixer?.dropEvents(this.scheduler.now());
+    this.slideNotes = {};
+    this.sendClockMessage({ type: 'stop' });
+  }
+  
+  // Stop playback
+  stop(): void {
+    if (!this.isPlaying && !this.isPaused) return;
+    
+    this.isPlaying = false;
+    this.isPaused = false;
+    
+    // Drop everything queued ahead
+    this.scheduler.stop();
+    
+    // Reset position
+    this.currentStep = 0;
+    this.currentBar = 0;
+    this.schedulePosition = 0;
+    this.clockTicks = 0;
+    this.heardClockTick = 0;
+    this.barsSinceReset = 0;
+    this.trackPositions = {};
+    this.queuedPattern = null;
+    this.songBlock = 0;
+    this.songRepeat = 0;
+    this.resetConditionState();
+    this.countInRemaining = 0;
+    this.heardTrackSteps = {};
+    this.recordedAhead.clear();
+    this.timelineStep = 0;
+    this.heardTimelineStep = 0;
+    this.currentBpm = this.getTempoAtStep(0);
+    this.automatedEffects = {};
+    this.pitchRates = {};
+    this.noteRates = {};
+    this.slideNotes = {};
+    this.sendClockMessage({ type: 'stop' });
+    this.sendClockMessage({ type: 'songPosition', position: 0 });
+    
+    // Stop all sounds
+    this.stopAllSounds();
+    
+    // Return to the programmed effects
+    this.applyEffects();
+    
+    // Emit step event for position 0
+    this.emitEvent({
+      type: 'step',
+      step: 0,
+      bar: 0,
+      pattern: this.currentPattern
+    });
+  }
+  
+  // Stop all sounds
+  private async stopAllSounds(): Promise<void> {
+    this.dspMixer?.stopAll(this.scheduler.now());
+    
+    try {
+      const stopPromises = Array.from(this.loadedSounds.values()).map(sound => sound.stopAsync());
+      await Promise.all(stopPromises);
+    } catch (error) {
+      console.error('Error stopping sounds:', error);
+    }
+  }
+  
+  // Move the playhead to a step (works while playing, paused or stopped)
+  seek(step: number): void {
+    if (!Number.isInteger(step) || step < 0 || step >= this.totalSteps) {
+      console.warn(`Invalid seek position. Must be between 0 and ${this.totalSteps - 1}:`, step);
+      return;
+    }
+    
+    if (this.isPlaying && !this.isPaused) {
+      // Drop everything queued from the old position and restart from the new one
+      this.scheduler.stop();
+      this.dspMixer?.dropEvents(this.scheduler.now());
+      this.countInRemaining = 0;
+      this.schedulePosition = step;
+      this.clockTicks = step;
+      this.hasScheduledStep = false;
+      this.stepTimes.clear();
+      this.slideNotes = {};
+      this.sendClockMessage({ type: 'stop' });
+      this.pendingClockStart = [{ type: 'songPosition', position: step }, { type: 'continue' }];
+      this.scheduler.start(0);
+    } else if (this.isPaused) {
+      this.resumeStep = step;
+      this.heardClockTick = step - 1;
+    }
+    
+    this.currentStep = step;
+    this.currentBar = Math.floor(step / this.stepsPerBar);
+    this.emitEvent({
+      type: 'step',
+      step,
+      bar: this.currentBar,
+      pattern: this.currentPattern
+    });
+  }
+  
+  // Move the playhead to the start of a bar
+  seekToBar(bar: number): void {
+    this.seek(bar * this.stepsPerBar);
+  }
+  
+  // Loop a region of the pattern (end is exclusive); can be changed during playback
+  setLoopRegion(start: number, end: number): void {
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > this.totalSteps || start >= end) {
+      console.warn(`Invalid loop region: ${start}-${end}`);
+      return;
+    }
+    
+    this.loopRegion = { start, end };
+  }
+  
+  // Remove the loop region
+  clearLoopRegion(): void {
+    this.loopRegion = null;
+  }
+  
+  // Get the loop region
+  getLoopRegion(): LoopRegion | null {
+    return this.loopRegion ? { ...this.loopRegion } : null;
+  }
+  
+  // Set the count-in for playback from stop
+  setCountIn(bars: number): void {
+    if (!Number.isInteger(bars) || bars < 0 || bars > MAX_COUNT_IN_BARS) {
+      console.warn(`Count-in must be between 0 and ${MAX_COUNT_IN_BARS} bars`);
+      return;
+    }
+    
+    this.countInBars = bars;
+  }
+  
+  // Get the count-in for playback from stop
+  getCountIn(): number {
+    return this.countInBars;
+  }
+  
+  // Update the metronome settings
+  setMetronome(settings: Partial<MetronomeSettings>): void {
+    if (settings.volume !== undefined && (settings.volume < 0 || settings.volume > 1)) {
+      console.warn('Metronome volume must be between 0 and 1');
+      return;
+    }
+    
+    this.metronome = { ...this.metronome, ...settings };
+  }
+  
+  // Get the metronome settings
+  getMetronome(): MetronomeSettings {
+    return { ...this.metronome };
+  }
+  
+  // Set the time signature; bars, beats and count-ins follow it from the next step
+  setTimeSignature(signature: TimeSignature): void {
+    if (!isValidTimeSignature(signature)) {
+      console.warn('Unsupported time signature:', signature);
+      return;
+    }
+    
+    this.timeSignature = { ...signature };
+    this.stepsPerBar = getStepsPerBar(signature);
+    this.beatSteps = getBeatSteps(signature);
+    this.currentBar = Math.floor(this.currentStep / this.stepsPerBar);
+  }
+  
+  // Get the time signature
+  getTimeSignature(): TimeSignature {
+    return { ...this.timeSignature };
+  }
+  
+  // Get the number of steps in one bar
+  getStepsPerBar(): number {
+    return this.stepsPerBar;
+  }
+  
+  // Set BPM (fractional tempos are kept to two decimals)
+  setBpm(bpm: number): void {
+    if (!Number.isFinite(bpm) || bpm < this.tempoRange.min || bpm > this.tempoRange.max) {
+      console.warn(`BPM out of range (${this.tempoRange.min}-${this.tempoRange.max}):`, bpm);
+      return;
+    }
+    
+    // The scheduler picks up the new step duration on its next tick
+    this.bpm = roundBpm(bpm);
+    if (!this.isPlaying) {
+      this.currentBpm = this.getTempoAtStep(0);
+      this.dspMixer?.setTempo(this.currentBpm);
+    }
+  }
+  
+  // Get the tempo of the step being heard, including tempo automation
+  getCurrentBpm(): number {
+    return this.currentBpm;
+  }
+  
+  // Set the allowed BPM range
+  // The tempo and automation points are pulled into the new range.
+  setTempoRange(range: TempoRange): void {
+    if (!isValidTempoRange(range)) {
+      console.warn('Invalid tempo range:', range);
+      return;
+    }
+    
+    this.tempoRange = { ...range };
+    this.bpm = clampBpm(this.bpm, this.tempoRange);
+    this.tempoLane = this.tempoLane.map(point => ({ ...point, bpm: clampBpm(point.bpm, this.tempoRange) }));
+  }
+  
+  // Get the allowed BPM range
+  getTempoRange(): TempoRange {
+    return { ...this.tempoRange };
+  }
+  
+  // Replace the tempo automation lane (an empty lane plays the base tempo)
+  setTempoAutomation(points: TempoPoint[]): void {
+    const invalidPoint = points.find(point => !isValidTempoPoint(point, this.tempoRange));
+    if (invalidPoint) {
+      console.warn('Invalid tempo automation point:', invalidPoint);
+      return;
+    }
+    
+    this.tempoLane = normalizeTempoLane(points);
+  }
+  
+  // Get the tempo automation lane
+  getTempoAutomation(): TempoPoint[] {
+    return this.tempoLane.map(point => ({ ...point }));
+  }
+  
+  // Add a tempo automation point, replacing any point on the same bar
+  setTempoPoint(point: TempoPoint): void {
+    if (!isValidTempoPoint(point, this.tempoRange)) {
+      console.warn('Invalid tempo automation point:', point);
+      return;
+    }
+    
+    this.tempoLane = normalizeTempoLane([...this.tempoLane, point]);
+  }
+  
+  // Remove the tempo automation point on a bar
+  removeTempoPoint(bar: number): void {
+    this.tempoLane = this.tempoLane.filter(point => point.bar !== bar);
+  }
+  
+  // Set swing amount
+  setSwing(swing: number): void {
+    if (swing < 0 || swing > 1) {
+      console.warn('Swing out of range (0-1):', swing);
+      return;
+    }
+    
+    // Swing is applied as a per-step offset when steps are scheduled
+    this.swing = swing;
+  }
+  
+  // Set the groove template and depth (null removes the groove)
+  setGroove(groove: Groove | null): void {
+    if (groove && (!isValidGrooveTemplate(groove.template) || groove.amount < 0 || groove.amount > 1)) {
+      console.warn('Invalid groove:', groove);
+      return;
+    }
+    
+    this.groove = groove ? { template: groove.template, amount: groove.amount } : null;
+  }
+  
+  // Get the current groove
+  getGroove(): Groove | null {
+    return this.groove;
+  }
+  
+  // Set how strongly the groove affects a track (0-1)
+  setTrackGrooveAmount(trackId: string, amount: number): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track || amount < 0 || amount > 1) {
+      console.warn(`Invalid track ID or groove amount: ${trackId}, ${amount}`);
+      return;
+    }
+    
+    track.grooveAmount = amount;
+  }
+  
+  // Set the project key (null plays notes unquantized)
+  setKey(key: MusicalKey | null): void {
+    if (key && !isValidKey(key)) {
+      console.warn('Invalid key:', key);
+      return;
+    }
+    
+    this.key = key ? { ...key } : null;
+  }
+  
+  // Get the project key
+  getKey(): MusicalKey | null {
+    return this.key;
+  }
+  
+  // Set a track's transposition in semitones
+  setTrackTranspose(trackId: string, semitones: number): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track || !isValidTranspose(semitones)) {
+      console.warn(`Invalid track ID or transposition: ${trackId}, ${semitones}`);
+      return;
+    }
+    
+    track.transpose = semitones;
+  }
+  
+  // Set the active pattern's transposition in semitones (stored with the pattern)
+  setPatternTranspose(semitones: number): void {
+    if (!isValidTranspose(semitones)) {
+      console.warn('Invalid pattern transposition:', semitones);
+      return;
+    }
+    
+    this.patternTranspose = semitones;
+  }
+  
+  // Get the active pattern's transposition
+  getPatternTranspose(): number {
+    return this.patternTranspose;
+  }
+  
+  // Set quantize mode
+  setQuantize(quantize: boolean): void {
+    this.quantize = quantize;
+  }
+  
+  // Set total steps
+  setTotalSteps(steps: number): void {
+    if (!Number.isInteger(steps) || steps < 1 || steps > MAX_TRACK_LENGTH) {
+      console.warn(`Invalid step count. Must be between 1 and ${MAX_TRACK_LENGTH}:`, steps);
+      return;
+    }
+    
+    this.totalSteps = steps;
+    
+    // Reset position if current step is beyond new total
+    if (this.currentStep >= steps) {
+      this.currentStep = 0;
+      this.currentBar = 0;
+    }
+    this.schedulePosition %= steps;
+    
+    if (this.loopRegion && this.loopRegion.end > steps) {
+      this.loopRegion = null;
+    }
+  }
+  
+  // Register event callback
+  addEventListener(callback: SequencerEventCallback): void {
+    this.eventCallbacks.push(callback);
+  }
+  
+  // Remove event callback
+  removeEventListener(callback: SequencerEventCallback): void {
     this.eventCallbacks = this.eventCallbacks.filter(cb => cb !== callback);
   }
   
@@ -500,14 +1662,17 @@ class Sequencer {
   }
   
   // Process tempo tap
+  // With tempo automation during playback, the tapped tempo is written as a point
+  // on the bar being heard instead of replacing the base tempo.
   tempoTap(): number {
     const now = Date.now();
     
-    // If first tap or too long since last tap, reset history
-    if (this.stepHistory.length === 0 || now - this.lastTapTime > 2000) {
+    // If first tap or too long since last tap for the slowest allowed tempo, reset history
+    const longestBeat = 60000 / this.tempoRange.min;
+    if (this.stepHistory.length === 0 || now - this.lastTapTime > longestBeat) {
       this.stepHistory = [now];
       this.lastTapTime = now;
-      return this.bpm; // Return current BPM
+      return this.currentBpm; // Return current BPM
     }
     
     // Add current tap to history
@@ -527,14 +1692,18 @@ class Sequencer {
     
     const avgInterval = totalInterval / (this.stepHistory.length - 1);
     
-    // Convert to BPM
-    const calculatedBpm = Math.round(60000 / avgInterval);
+    // Convert to BPM, limited to the valid range
+    const newBpm = clampBpm(60000 / avgInterval, this.tempoRange);
     
-    // Limit to valid range
-    const newBpm = Math.max(60, Math.min(200, calculatedBpm));
-    
-    // Update sequencer BPM
-    this.setBpm(newBpm);
+    if (this.tempoLane.length > 0 && this.isPlaying) {
+      this.setTempoPoint({
+        bar: Math.floor(this.heardTimelineStep / this.stepsPerBar),
+        bpm: newBpm,
+        curve: 'step'
+      });
+    } else {
+      this.setBpm(newBpm);
+    }
     
     return newBpm;
   }
@@ -542,7 +1711,7 @@ class Sequencer {
   // Toggle step in a track
   toggleStep(trackId: string, stepIndex: number): void {
     const trackIndex = this.tracks.findIndex(t => t.id === trackId);
-    if (trackIndex === -1 || stepIndex < 0 || stepIndex >= this.totalSteps) {
+    if (trackIndex === -1 || stepIndex < 0 || stepIndex >= this.tracks[trackIndex].steps.length) {
       console.warn(`Invalid track ID or step index: ${trackId}, ${stepIndex}`);
       return;
     }
@@ -554,11 +1723,26 @@ class Sequencer {
   // Edit step properties
   editStep(trackId: string, stepIndex: number, properties: Partial<Step>): void {
     const trackIndex = this.tracks.findIndex(t => t.id === trackId);
-    if (trackIndex === -1 || stepIndex < 0 || stepIndex >= this.totalSteps) {
+    if (trackIndex === -1 || stepIndex < 0 || stepIndex >= this.tracks[trackIndex].steps.length) {
       console.warn(`Invalid track ID or step index: ${trackId}, ${stepIndex}`);
       return;
     }
     
+    if (properties.condition && !isValidTrigCondition(properties.condition)) {
+      console.warn('Invalid trig condition:', properties.condition);
+      return;
+    }
+    
+    if (!isValidRetrig(properties)) {
+      console.warn('Invalid retrig settings:', properties);
+      return;
+    }
+    
+    if (!isValidNoteStep(properties)) {
+      console.warn('Invalid note settings:', properties);
+      return;
+    }
+    
     // Update step properties
     this.tracks[trackIndex].steps[stepIndex] = {
       ...this.tracks[trackIndex].steps[stepIndex],
@@ -566,16 +1750,386 @@ class Sequencer {
     };
   }
   
+  // Set the length of a single track (polymeter)
+  // Steps beyond the new length are dropped, new steps are empty.
+  setTrackLength(trackId: string, length: number): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
+      console.warn(`Invalid track ID: ${trackId}`);
+      return;
+    }
+    
+    if (!Number.isInteger(length) || length < 1 || length > MAX_TRACK_LENGTH) {
+      console.warn(`Invalid track length. Must be between 1 and ${MAX_TRACK_LENGTH}:`, length);
+      return;
+    }
+    
+    const steps = track.steps.slice(0, length);
+    while (steps.length < length) {
+      steps.push(this.createEmptyStep());
+    }
+    track.steps = steps;
+    
+    // Drop automation points past the new end
+    if (track.automation) {
+      track.automation = track.automation.map(lane => ({
+        ...lane,
+        points: lane.points.filter(point => point.step < length)
+      }));
+    }
+  }
+  
+  // Set the clock multiplier of a single track
+  setTrackClockMultiplier(trackId: string, multiplier: number): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
+      console.warn(`Invalid track ID: ${trackId}`);
+      return;
+    }
+    
+    if (!CLOCK_MULTIPLIERS.includes(multiplier)) {
+      console.warn(`Invalid clock multiplier. Must be one of ${CLOCK_MULTIPLIERS.join(', ')}:`, multiplier);
+      return;
+    }
+    
+    track.clockMultiplier = multiplier;
+  }
+  
+  // Realign all track clocks every N bars (0 lets tracks run freely)
+  setTrackResetBars(bars: number): void {
+    if (!Number.isInteger(bars) || bars < 0) {
+      console.warn('Invalid reset bar count:', bars);
+      return;
+    }
+    
+    this.trackResetBars = bars;
+  }
+  
+  // Realign all track clocks on the next bar
+  resetTrackPhases(): void {
+    if (this.isPlaying && !this.isPaused) {
+      this.pendingPhaseReset = true;
+    } else {
+      this.clockTicks = this.schedulePosition;
+      this.trackPositions = {};
+    }
+  }
+  
+  // Get the step each track is currently playing
+  getTrackPositions(): { [trackId: string]: number } {
+    return { ...this.trackPositions };
+  }
+  
+  // Create an empty step
+  private createEmptyStep(): Step {
+    return {
+      active: false,
+      velocity: 1.0,
+      probability: 1.0,
+      parameterLocks: [],
+      microTiming: 0
+    };
+  }
+  
+  // Arm recording; from stop this starts playback after the count-in
+  startRecording(options?: Partial<RecordOptions>): void {
+    if (options) {
+      this.setRecordOptions(options);
+    }
+    
+    this.isRecording = true;
+    this.recordedAhead.clear();
+    
+    if (!this.isPlaying || this.isPaused) {
+      this.play();
+    }
+  }
+  
+  // Disarm recording (playback keeps running)
+  stopRecording(): void {
+    this.isRecording = false;
+    this.countInRemaining = 0;
+    this.recordedAhead.clear();
+  }
+  
+  // Check whether recording is armed
+  isRecordingActive(): boolean {
+    return this.isRecording;
+  }
+  
+  // Update the recording options
+  setRecordOptions(options: Partial<RecordOptions>): void {
+    if (options.quantize !== undefined && (options.quantize < 0 || options.quantize > 1)) {
+      console.warn('Record quantize must be between 0 and 1');
+      return;
+    }
+    
+    if (options.countInBars !== undefined &&
+      (!Number.isInteger(options.countInBars) || options.countInBars < 0 || options.countInBars > MAX_COUNT_IN_BARS)) {
+      console.warn(`Count-in must be between 0 and ${MAX_COUNT_IN_BARS} bars`);
+      return;
+    }
+    
+    this.recordOptions = { ...this.recordOptions, ...options };
+  }
+  
+  // Get the recording options
+  getRecordOptions(): RecordOptions {
+    return { ...this.recordOptions };
+  }
+  
+  // Play a track's sound now and, while recording, write the hit into its steps
+  // Hits land on the nearest step; the remaining offset is kept as micro-timing.
+  recordHit(trackId: string, velocity: number): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
+      console.warn(`Track not found: ${trackId}`);
+      return;
+    }
+    
+    const level = Math.max(0, Math.min(1, velocity));
+    
+    // Monitor the hit straight away
+    if (this.hasTrackVoice(track)) {
+      this.triggerSound(this.loadedSounds.get(trackId) ?? null, track, this.createEmptyStep(), level);
+    }
+    
+    if (!this.isRecording || !this.isPlaying || this.isPaused || this.countInRemaining > 0) return;
+    
+    const heard = this.heardTrackSteps[trackId];
+    const length = track.steps.length;
+    if (!heard || length === 0) return;
+    
+    // Position of the hit in track steps, relative to the step being heard
+    const offset = (this.scheduler.now() - heard.time) / heard.duration;
+    const isNextStep = offset >= 0.5;
+    const count = isNextStep ? heard.count + 1 : heard.count;
+    const stepIndex = count % length;
+    
+    const rawTiming = isNextStep ? offset - 1 : offset;
+    const microTiming = Math.max(-0.5, Math.min(0.5, rawTiming * (1 - this.recordOptions.quantize)));
+    
+    track.steps[stepIndex] = {
+      ...track.steps[stepIndex],
+      active: true,
+      velocity: level,
+      microTiming
+    };
+    
+    // Keep replace mode from erasing a hit that lands on a step not queued yet
+    if (count > (this.scheduledTrackSteps[trackId] ?? -1)) {
+      this.recordedAhead.add(stepIndex);
+    }
+  }
+  
+  // Set the seed used for probability steps
+  setRandomSeed(seed: number): void {
+    if (!Number.isFinite(seed)) {
+      console.warn('Invalid random seed:', seed);
+      return;
+    }
+    this.random.reset(seed);
+  }
+  
+  // Get the seed used for probability steps
+  getRandomSeed(): number {
+    return this.random.getSeed();
+  }
+  
+  // Replay the same random sequence on every loop cycle
+  setRandomLock(locked: boolean): void {
+    this.randomLock = locked;
+  }
+  
+  // Check whether the random sequence is locked per loop cycle
+  isRandomLocked(): boolean {
+    return this.randomLock;
+  }
+  
+  // Enable or disable fill mode (FILL / NOT FILL conditions and fill variants)
+  // Meant to be held momentarily; steps already queued keep what they were.
+  setFillActive(active: boolean): void {
+    this.fillActive = active;
+  }
+  
+  // Check whether fill mode is active
+  isFillActive(): boolean {
+    return this.fillActive;
+  }
+  
+  // Set the fill variant of a track in the active pattern or a stored one (null removes it)
+  setFillSteps(trackId: string, steps: Step[] | null, patternIndex: number = this.currentPattern): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track || (steps !== null && (steps.length < 1 || steps.length > MAX_TRACK_LENGTH))) {
+      console.warn(`Invalid track ID or fill length: ${trackId}, ${steps?.length}`);
+      return;
+    }
+    
+    if (patternIndex !== this.currentPattern) {
+      this.patternBank.setFill(patternIndex, trackId, steps);
+    } else if (steps === null) {
+      delete this.fillSteps[trackId];
+    } else {
+      this.fillSteps[trackId] = steps;
+    }
+  }
+  
+  // Get the fill variant of a track in the active pattern
+  getFillSteps(trackId: string): Step[] | null {
+    return this.fillSteps[trackId] ?? null;
+  }
+  
+  // Check whether the active pattern has a fill variant
+  hasFill(): boolean {
+    return Object.keys(this.fillSteps).length > 0;
+  }
+  
+  // Queue a pattern slot to start on the next bar
+  // When stopped, the switch happens immediately.
+  queuePattern(patternIndex: number): void {
+    if (!Number.isInteger(patternIndex) || patternIndex < 0 || patternIndex >= TOTAL_PATTERN_SLOTS) {
+      console.warn('Invalid pattern slot:', patternIndex);
+      return;
+    }
+    
+    if (this.isPlaying && !this.isPaused) {
+      this.queuedPattern = patternIndex;
+      return;
+    }
+    
+    this.switchPattern(patternIndex);
+    this.currentStep = 0;
+    this.currentBar = 0;
+    this.emitEvent({
+      type: 'pattern',
+      step: 0,
+      bar: 0,
+      pattern: patternIndex
+    });
+  }
+  
+  // Get the pattern waiting to start, if any
+  getQueuedPattern(): number | null {
+    return this.queuedPattern;
+  }
+  
+  // Get the active pattern slot
+  getCurrentPattern(): number {
+    return this.currentPattern;
+  }
+  
+  // Store the live tracks into the active slot (or another slot)
+  storePattern(patternIndex: number = this.currentPattern, name?: string): void {
+    this.patternBank.store(patternIndex, this.tracks, this.totalSteps, {
+      name,
+      transpose: this.patternTranspose,
+      fill: this.fillSteps
+    });
+  }
+  
+  // Copy a pattern slot
+  copyPattern(fromIndex: number, toIndex: number): void {
+    if (fromIndex === this.currentPattern) {
+      this.storePattern();
+    }
+    this.patternBank.copy(fromIndex, toIndex);
+  }
+  
+  // Clear a pattern slot
+  // Clearing the active slot also clears the live tracks, which would otherwise be
+  // stored back into the slot on the next switch.
+  clearPattern(patternIndex: number): void {
+    this.patternBank.clear(patternIndex);
+    if (patternIndex !== this.currentPattern) return;
+    
+    this.tracks.forEach(track => {
+      track.steps = track.steps.map(() => this.createEmptyStep());
+    });
+    this.patternTranspose = 0;
+    this.fillSteps = {};
+  }
+  
+  // Get all pattern slots, with the live tracks stored into the active slot
+  getPatterns(): (StoredPattern | null)[] {
+    this.storePattern();
+    return this.patternBank.getAll();
+  }
+  
+  // Get the steps of a track in a pattern slot: the live steps for the active slot,
+  // the stored ones otherwise (null when the slot is empty or lacks the track)
+  getPatternSteps(patternIndex: number, trackId: string): Step[] | null {
+    if (patternIndex === this.currentPattern) {
+      return this.tracks.find(track => track.id === trackId)?.steps ?? null;
+    }
+    return this.patternBank.get(patternIndex)?.trackSteps[trackId] ?? null;
+  }
+  
+  // Load pattern slots from a saved project
+  loadPatterns(patterns: (StoredPattern | null)[]): void {
+    this.patternBank.load(patterns);
+  }
+  
+  // Set the song arrangement
+  setArrangement(blocks: ArrangementBlock[]): void {
+    const validBlocks = blocks.filter(block =>
+      Number.isInteger(block.patternIndex) &&
+      block.patternIndex >= 0 &&
+      block.patternIndex < TOTAL_PATTERN_SLOTS &&
+      block.repeats >= 1
+    );
+    
+    if (validBlocks.length !== blocks.length) {
+      console.warn('Ignoring invalid arrangement blocks');
+    }
+    
+    this.arrangement = validBlocks.map(block => ({ ...block }));
+  }
+  
+  // Get the song arrangement
+  getArrangement(): ArrangementBlock[] {
+    return this.arrangement.map(block => ({ ...block }));
+  }
+  
+  // Enable or disable song mode (takes effect on the next play from stop)
+  setSongMode(enabled: boolean): void {
+    this.songMode = enabled;
+  }
+  
+  // Check whether song mode is enabled
+  isSongMode(): boolean {
+    return this.songMode;
+  }
+  
+  // Get the current arrangement position
+  getSongPosition(): { block: number; repeat: number } {
+    return { block: this.songBlock, repeat: this.songRepeat };
+  }
+  
   // Toggle track mute
   toggleTrackMute(trackId: string): void {
-    const trackIndex = this.tracks.findIndex(t => t.id === trackId);
-    if (trackIndex === -1) {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
+      console.warn(`Invalid track ID: ${trackId}`);
+      return;
+    }
+    
+    this.setTrackMute(trackId, !track.mute);
+  }
+  
+  // Set track mute (unmuting mutes the rest of the track's mute group)
+  setTrackMute(trackId: string, mute: boolean): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
       console.warn(`Invalid track ID: ${trackId}`);
       return;
     }
     
-    // Toggle mute state
-    this.tracks[trackIndex].mute = !this.tracks[trackIndex].mute;
+    track.mute = mute;
+    if (!mute) {
+      getMuteGroupTracks(this.tracks, track).forEach(other => {
+        other.mute = true;
+      });
+    }
     
     // Apply effects to update volume
     this.applyEffects();
@@ -596,6 +2150,50 @@ class Sequencer {
     this.applyEffects();
   }
   
+  // Set track solo
+  setTrackSolo(trackId: string, solo: boolean): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
+      console.warn(`Invalid track ID: ${trackId}`);
+      return;
+    }
+    
+    track.solo = solo;
+    
+    // Apply effects to update volume
+    this.applyEffects();
+  }
+  
+  // Set a track's choke group (null leaves the track unchoked)
+  setTrackChokeGroup(trackId: string, group: number | null): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track || (group !== null && !isValidVoiceGroup(group))) {
+      console.warn(`Invalid track ID or choke group: ${trackId}, ${group}`);
+      return;
+    }
+    
+    if (group === null) {
+      delete track.chokeGroup;
+    } else {
+      track.chokeGroup = group;
+    }
+  }
+  
+  // Set a track's mute group (null removes the track from its group)
+  setTrackMuteGroup(trackId: string, group: number | null): void {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track || (group !== null && !isValidVoiceGroup(group))) {
+      console.warn(`Invalid track ID or mute group: ${trackId}, ${group}`);
+      return;
+    }
+    
+    if (group === null) {
+      delete track.muteGroup;
+    } else {
+      track.muteGroup = group;
+    }
+  }
+  
   // Update track effects
   updateTrackEffects(trackId: string, effects: Partial<TrackEffects>): void {
     const trackIndex = this.tracks.findIndex(t => t.id === trackId);
@@ -629,6 +2227,144 @@ class Sequencer {
     return this.bpm;
   }
   
+  // Choose where the clock comes from; leader and follower need a MIDI transport
+  setClockSource(source: ClockSource, transport?: MidiTransport): void {
+    if (source !== 'internal' && !transport && !this.midiTransport) {
+      console.warn(`Clock source "${source}" needs a MIDI transport`);
+      return;
+    }
+    
+    // Hand control back to the leading device before switching away
+    if (this.clockSource === 'leader' && this.isPlaying && !this.isPaused) {
+      this.sendClockMessage({ type: 'stop' });
+    }
+    
+    if (transport && transport !== this.midiTransport) {
+      this.removeMidiListener?.();
+      this.midiTransport = transport;
+      this.removeMidiListener = transport.addListener((message, time) => this.handleMidiMessage(message, time));
+    }
+    
+    this.clockSource = source;
+    this.clockSmoother.reset();
+    this.followerBpm = null;
+    
+    // Becoming the leader mid-song picks the follower up at the next step
+    this.pendingClockStart = source === 'leader' && this.isPlaying && !this.isPaused
+      ? [{ type: 'songPosition', position: this.schedulePosition }, { type: 'continue' }]
+      : [];
+  }
+  
+  // Get the clock source
+  getClockSource(): ClockSource {
+    return this.clockSource;
+  }
+  
+  // Send a clock message now (only while leading)
+  private sendClockMessage(message: MidiClockMessage, time: number = this.scheduler.now()): void {
+    if (this.clockSource !== 'leader' || !this.midiTransport) return;
+    
+    try {
+      this.midiTransport.send(message, time);
+    } catch (error) {
+      console.error('Error sending MIDI clock:', error);
+    }
+  }
+  
+  // Lead with clock pulses for a queued step, or remember its time to follow
+  private syncClock(timelineStep: number, time: number): void {
+    if (this.clockSource === 'follower') {
+      this.stepTimes.set(timelineStep, time);
+      this.stepTimes.delete(timelineStep - this.stepsPerBar);
+      return;
+    }
+    
+    if (this.clockSource !== 'leader') return;
+    
+    // Start/Continue goes out right before the first pulse of the first step
+    this.pendingClockStart.forEach(message => this.sendClockMessage(message, time));
+    this.pendingClockStart = [];
+    
+    const pulseDuration = this.getStepDuration() / PULSES_PER_STEP;
+    for (let pulse = 0; pulse < PULSES_PER_STEP; pulse++) {
+      this.sendClockMessage({ type: 'clock' }, time + pulse * pulseDuration);
+    }
+  }
+  
+  // Follow incoming MIDI clock messages
+  private handleMidiMessage(message: MidiClockMessage, time: number): void {
+    if (this.clockSource !== 'follower') return;
+    
+    switch (message.type) {
+      case 'clock':
+        this.handleClockPulse(time);
+        break;
+      case 'start':
+        // Start always plays from the top, even after a Song Position
+        if (this.isPlaying || this.isPaused) {
+          this.stop();
+        } else {
+          this.seek(0);
+        }
+        this.followerPulses = 0;
+        this.play(time);
+        this.emitEvent({ type: 'transport', step: 0, bar: 0, pattern: this.currentPattern, playing: true });
+        break;
+      case 'continue':
+        if (this.isPlaying && !this.isPaused) break;
+        this.play(time);
+        this.followerPulses = this.timelineStep * PULSES_PER_STEP;
+        this.emitEvent({
+          type: 'transport',
+          step: this.currentStep,
+          bar: this.currentBar,
+          pattern: this.currentPattern,
+          playing: true
+        });
+        break;
+      case 'stop':
+        // MIDI Stop keeps the position so Continue can pick up from it
+        if (!this.isPlaying || this.isPaused) break;
+        this.pause();
+        this.emitEvent({
+          type: 'transport',
+          step: this.currentStep,
+          bar: this.currentBar,
+          pattern: this.currentPattern,
+          playing: false
+        });
+        break;
+      case 'songPosition':
+        // Song position is only meaningful while stopped
+        if (this.isPlaying && !this.isPaused) break;
+        if (message.position < 0 || message.position > MAX_SONG_POSITION) break;
+        this.seek(message.position % this.totalSteps);
+        break;
+    }
+  }
+  
+  // Update the followed tempo and nudge the scheduler onto the incoming pulses
+  private handleClockPulse(time: number): void {
+    const bpm = this.clockSmoother.addPulse(time);
+    if (bpm !== null) {
+      this.followerBpm = clampBpm(bpm, this.tempoRange);
+      if (!this.isPlaying || this.isPaused) {
+        this.currentBpm = this.followerBpm;
+      }
+    }
+    
+    if (!this.isPlaying || this.isPaused) return;
+    
+    const pulse = this.followerPulses++;
+    if (pulse % PULSES_PER_STEP !== 0) return;
+    
+    // Correct part of the drift between the pulse and the step we queued for it
+    const queuedTime = this.stepTimes.get(pulse / PULSES_PER_STEP);
+    if (queuedTime !== undefined) {
+      this.scheduler.shift((time - queuedTime) * CLOCK_PHASE_CORRECTION);
+    }
+  }
+  
   // Get total steps
   getTotalSteps(): number {
     return this.totalSteps;
@@ -653,6 +2389,9 @@ class Sequencer {
       await Promise.all(unloadPromises);
       this.loadedSounds.clear();
       
+      await this.metronomeSound?.unloadAsync();
+      this.metronomeSound = null;
+      
       console.log('All sounds unloaded');
     } catch (error) {
       console.error('Error unloading sounds:', error);
@@ -660,4 +2399,16 @@ class Sequencer {
   }
 }
 
-export { Sequencer, SequencerOptions, SequencerEvent, SequencerEventCallback };
+export {
+  Sequencer,
+  SequencerOptions,
+  SequencerEvent,
+  SequencerEventCallback,
+  RecordMode,
+  RecordOptions,
+  LoopRegion,
+  MetronomeSettings,
+  CLOCK_MULTIPLIERS,
+  MAX_TRACK_LENGTH,
+  MAX_COUNT_IN_BARS
+};
@@ -0,0 +1,55 @@
+import { Sidechain, Track } from './enhancedAudioEngine';
+
+// Sidechain ducking
+// A track can be ducked by another track, like the bass and the rumble pumping
+// under the kick. In follow mode the ducking tracks the level of the source after
+// its effects, like a sidechain compressor; in envelope mode every hit of the
+// source plays a fixed volume shape (attack down, hold, release back up).
+// Muted sources still duck (a ghost kick), and ducking sits after the track's
+// effects. It needs the DSP mixer; the platform sample players ignore it.
+
+// Longest attack, hold and release (ms)
+const MAX_SIDECHAIN_ATTACK = 200;
+const MAX_SIDECHAIN_HOLD = 1000;
+const MAX_SIDECHAIN_RELEASE = 2000;
+
+// Settings a new sidechain starts from
+const DEFAULT_SIDECHAIN: Omit<Sidechain, 'source'> = {
+  mode: 'envelope',
+  amount: 0.7,
+  attack: 5,
+  hold: 20,
+  release: 150,
+  curve: 0.5
+};
+
+// Check sidechain settings against the tracks of a project
+const isValidSidechain = (sidechain: Sidechain, trackId: string, tracks: Track[]): boolean => {
+  return sidechain.source !== trackId &&
+    tracks.some(track => track.id === sidechain.source) &&
+    (sidechain.mode === 'follow' || sidechain.mode === 'envelope') &&
+    sidechain.amount >= 0 &&
+    sidechain.amount <= 1 &&
+    sidechain.attack >= 0 &&
+    sidechain.attack <= MAX_SIDECHAIN_ATTACK &&
+    sidechain.hold >= 0 &&
+    sidechain.hold <= MAX_SIDECHAIN_HOLD &&
+    sidechain.release >= 0 &&
+    sidechain.release <= MAX_SIDECHAIN_RELEASE &&
+    sidechain.curve >= 0 &&
+    sidechain.curve <= 1;
+};
+
+// Sidechain from a source track with the default settings
+const createSidechain = (source: string, settings: Partial<Omit<Sidechain, 'source'>> = {}): Sidechain => {
+  return { ...DEFAULT_SIDECHAIN, ...settings, source };
+};
+
+export {
+  MAX_SIDECHAIN_ATTACK,
+  MAX_SIDECHAIN_HOLD,
+  MAX_SIDECHAIN_RELEASE,
+  DEFAULT_SIDECHAIN,
+  isValidSidechain,
+  createSidechain
+};
@@ -0,0 +1,99 @@
+// Tempo range and tempo automation
+// The automation lane is a list of points on the playback timeline, in bars since
+// playback started (the song position in song mode). A 'step' point jumps to its
+// tempo on its bar, a 'ramp' point glides from the previous tempo to reach its
+// tempo on its bar.
+
+type TempoCurve = 'step' | 'ramp';
+
+interface TempoPoint {
+  bar: number; // Bar the point is reached on (0 = first bar)
+  bpm: number;
+  curve: TempoCurve;
+}
+
+// Allowed BPM range of a project
+interface TempoRange {
+  min: number;
+  max: number;
+}
+
+// Hard limits any tempo range has to stay inside
+const TEMPO_LIMITS: TempoRange = { min: 20, max: 400 };
+
+const DEFAULT_TEMPO_RANGE: TempoRange = { min: 40, max: 300 };
+
+// Fractional tempos are kept to two decimals (e.g. 174.25)
+const BPM_PRECISION = 100;
+
+// Round a tempo to the supported precision
+const roundBpm = (bpm: number): number => {
+  return Math.round(bpm * BPM_PRECISION) / BPM_PRECISION;
+};
+
+// Clamp a tempo into a range
+const clampBpm = (bpm: number, range: TempoRange = DEFAULT_TEMPO_RANGE): number => {
+  return roundBpm(Math.max(range.min, Math.min(range.max, bpm)));
+};
+
+// Check that a tempo range is usable
+const isValidTempoRange = (range: TempoRange): boolean => {
+  return Number.isFinite(range.min) &&
+    Number.isFinite(range.max) &&
+    range.min >= TEMPO_LIMITS.min &&
+    range.max <= TEMPO_LIMITS.max &&
+    range.min < range.max;
+};
+
+// Check that an automation point is usable
+const isValidTempoPoint = (point: TempoPoint, range: TempoRange): boolean => {
+  return Number.isInteger(point.bar) &&
+    point.bar >= 0 &&
+    Number.isFinite(point.bpm) &&
+    point.bpm >= range.min &&
+    point.bpm <= range.max &&
+    (point.curve === 'step' || point.curve === 'ramp');
+};
+
+// Sort points by bar, keeping only the last point written to each bar
+const normalizeTempoLane = (points: TempoPoint[]): TempoPoint[] => {
+  const byBar = new Map<number, TempoPoint>();
+  points.forEach(point => byBar.set(point.bar, { ...point, bpm: roundBpm(point.bpm) }));
+  return Array.from(byBar.values()).sort((a, b) => a.bar - b.bar);
+};
+
+// Tempo at a timeline position in bars (fractional bars lie inside a ramp)
+// Before the first point the base tempo plays; after the last point its tempo holds.
+const getTempoAt = (points: TempoPoint[], position: number, baseBpm: number): number => {
+  let previousBar = 0;
+  let previousBpm = baseBpm;
+
+  for (const point of points) {
+    if (position < point.bar) {
+      if (point.curve === 'step' || point.bar === previousBar) {
+        return previousBpm;
+      }
+      const progress = (position - previousBar) / (point.bar - previousBar);
+      return previousBpm + (point.bpm - previousBpm) * progress;
+    }
+
+    previousBar = point.bar;
+    previousBpm = point.bpm;
+  }
+
+  return previousBpm;
+};
+
+export {
+  TempoCurve,
+  TempoPoint,
+  TempoRange,
+  TEMPO_LIMITS,
+  DEFAULT_TEMPO_RANGE,
+  roundBpm,
+  clampBpm,
+  isValidTempoRange,
+  isValidTempoPoint,
+  normalizeTempoLane,
+  getTempoAt
+};
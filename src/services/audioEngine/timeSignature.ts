@@ -0,0 +1,105 @@
+// Time signatures
+// A step is always a 16th note, so a bar holds numerator * 16 / denominator steps
+// (4/4 = 16, 3/4 = 12, 7/8 = 14). Beats follow the meter: quarter notes in x/4,
+// dotted quarters in compound x/8 (6/8, 9/8, 12/8) and groups of two 8ths closed
+// by a group of three in odd x/8 meters (7/8 = 2+2+3).
+
+interface TimeSignature {
+  numerator: number; // Beats (or 8ths) per bar, 1-16
+  denominator: 4 | 8;
+}
+
+const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+
+// Common meters offered in the UI
+const TIME_SIGNATURES: TimeSignature[] = [
+  { numerator: 4, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 5, denominator: 4 },
+  { numerator: 7, denominator: 4 },
+  { numerator: 5, denominator: 8 },
+  { numerator: 6, denominator: 8 },
+  { numerator: 7, denominator: 8 },
+  { numerator: 9, denominator: 8 },
+  { numerator: 12, denominator: 8 }
+];
+
+const MAX_NUMERATOR = 16;
+
+// Steps per note of the denominator (4 for quarter notes, 2 for 8ths)
+const getStepResolution = (signature: TimeSignature): number => {
+  return 16 / signature.denominator;
+};
+
+// Steps in one bar
+const getStepsPerBar = (signature: TimeSignature): number => {
+  return signature.numerator * getStepResolution(signature);
+};
+
+// Beat grouping in denominator notes, e.g. [2, 2, 3] for 7/8
+const getBeatGrouping = (signature: TimeSignature): number[] => {
+  const { numerator, denominator } = signature;
+  if (denominator === 4) {
+    return new Array(numerator).fill(1);
+  }
+
+  // Short x/8 bars are a single beat
+  if (numerator <= 3) {
+    return [numerator];
+  }
+
+  if (numerator % 3 === 0) {
+    return new Array(numerator / 3).fill(3);
+  }
+
+  const grouping = new Array(Math.floor(numerator / 2)).fill(2);
+  if (numerator % 2 === 1) {
+    grouping[grouping.length - 1] = 3;
+  }
+  return grouping;
+};
+
+// Offsets (in steps) of the beats inside a bar
+const getBeatSteps = (signature: TimeSignature): number[] => {
+  const resolution = getStepResolution(signature);
+  const offsets: number[] = [];
+  let position = 0;
+
+  getBeatGrouping(signature).forEach(group => {
+    offsets.push(position);
+    position += group * resolution;
+  });
+
+  return offsets;
+};
+
+// Check whether a pattern step starts a beat
+const isBeatStep = (signature: TimeSignature, step: number): boolean => {
+  return getBeatSteps(signature).includes(step % getStepsPerBar(signature));
+};
+
+// Check that a time signature is supported
+const isValidTimeSignature = (signature: TimeSignature): boolean => {
+  return Number.isInteger(signature.numerator) &&
+    signature.numerator >= 1 &&
+    signature.numerator <= MAX_NUMERATOR &&
+    (signature.denominator === 4 || signature.denominator === 8);
+};
+
+// Display label such as "7/8"
+const formatTimeSignature = (signature: TimeSignature): string => {
+  return `${signature.numerator}/${signature.denominator}`;
+};
+
+export {
+  TimeSignature,
+  DEFAULT_TIME_SIGNATURE,
+  TIME_SIGNATURES,
+  getStepResolution,
+  getStepsPerBar,
+  getBeatGrouping,
+  getBeatSteps,
+  isBeatStep,
+  isValidTimeSignature,
+  formatTimeSignature
+};
@@ -0,0 +1,115 @@
+// Conditional trigs (Elektron style)
+// A step with a condition only plays when the condition is true for the current
+// loop cycle. Conditions can depend on the loop count, the fill state, the last
+// conditional step on the same track (PRE) or on the neighbor track (NEI).
+
+type TrigCondition =
+  | { type: 'ratio'; a: number; b: number } // Play on the a-th of every b loop cycles
+  | { type: 'fill' }
+  | { type: 'notFill' }
+  | { type: 'pre' }
+  | { type: 'notPre' }
+  | { type: 'nei' }
+  | { type: 'notNei' }
+  | { type: 'first' }
+  | { type: 'notFirst' };
+
+// Everything a condition can depend on when a step is evaluated
+interface TrigConditionContext {
+  cycle: number; // Loop cycles the track has completed (0 = first cycle)
+  fill: boolean; // Whether fill mode is active
+  previous: boolean | null; // Last conditional result on this track, null if none yet
+  neighbor: boolean | null; // Last conditional result on the neighbor track, null if none yet
+}
+
+const MAX_RATIO_CYCLES = 8;
+
+// Check whether a condition lets its step play
+const evaluateTrigCondition = (condition: TrigCondition, context: TrigConditionContext): boolean => {
+  switch (condition.type) {
+    case 'ratio':
+      return context.cycle % condition.b === condition.a - 1;
+    case 'fill':
+      return context.fill;
+    case 'notFill':
+      return !context.fill;
+    case 'pre':
+      return context.previous === true;
+    case 'notPre':
+      return context.previous !== true;
+    case 'nei':
+      return context.neighbor === true;
+    case 'notNei':
+      return context.neighbor !== true;
+    case 'first':
+      return context.cycle === 0;
+    case 'notFirst':
+      return context.cycle > 0;
+    default:
+      return true;
+  }
+};
+
+// Check that a condition is well formed (ratios must be 1 <= a <= b <= 8)
+const isValidTrigCondition = (condition: TrigCondition): boolean => {
+  if (condition.type !== 'ratio') return true;
+  return Number.isInteger(condition.a) &&
+    Number.isInteger(condition.b) &&
+    condition.a >= 1 &&
+    condition.b <= MAX_RATIO_CYCLES &&
+    condition.a <= condition.b;
+};
+
+// Get the display label of a condition (e.g. "1:2", "FILL", "!PRE")
+const formatTrigCondition = (condition: TrigCondition): string => {
+  switch (condition.type) {
+    case 'ratio':
+      return `${condition.a}:${condition.b}`;
+    case 'fill':
+      return 'FILL';
+    case 'notFill':
+      return '!FILL';
+    case 'pre':
+      return 'PRE';
+    case 'notPre':
+      return '!PRE';
+    case 'nei':
+      return 'NEI';
+    case 'notNei':
+      return '!NEI';
+    case 'first':
+      return '1ST';
+    case 'notFirst':
+      return '!1ST';
+    default:
+      return '';
+  }
+};
+
+// All selectable conditions, in the order shown in the step inspector
+const TRIG_CONDITIONS: TrigCondition[] = [
+  { type: 'fill' },
+  { type: 'notFill' },
+  { type: 'pre' },
+  { type: 'notPre' },
+  { type: 'nei' },
+  { type: 'notNei' },
+  { type: 'first' },
+  { type: 'notFirst' }
+];
+
+for (let b = 2; b <= MAX_RATIO_CYCLES; b++) {
+  for (let a = 1; a <= b; a++) {
+    TRIG_CONDITIONS.push({ type: 'ratio', a, b });
+  }
+}
+
+export {
+  TrigCondition,
+  TrigConditionContext,
+  TRIG_CONDITIONS,
+  MAX_RATIO_CYCLES,
+  evaluateTrigCondition,
+  isValidTrigCondition,
+  formatTrigCondition
+};
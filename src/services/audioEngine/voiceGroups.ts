@@ -0,0 +1,50 @@
+import { Track } from './enhancedAudioEngine';
+
+// Choke and mute groups
+// A trigger on a track in a choke group cuts the tails of the other tracks in that
+// group with a short fade, like an open hat choked by the closed hat. Mute groups
+// are for live performance: unmuting a track mutes the rest of its group, so only
+// one variation of a part plays at a time. Groups are numbered 1-8 and a track
+// without a group is never choked or muted by others.
+
+const MAX_VOICE_GROUPS = 8;
+
+// Fade applied to a choked tail (ms) and the volume updates on the way down
+const CHOKE_FADE_TIME = 20;
+const CHOKE_FADE_RESOLUTION = 4;
+
+// Hat tracks choke each other unless configured otherwise
+const HAT_CHOKE_GROUP = 1;
+
+// Check a group number
+const isValidVoiceGroup = (group: number): boolean => {
+  return Number.isInteger(group) && group >= 1 && group <= MAX_VOICE_GROUPS;
+};
+
+// Tracks whose tails a trigger on a track cuts
+const getChokedTracks = (tracks: Track[], track: Track): Track[] => {
+  if (track.chokeGroup === undefined) return [];
+  return tracks.filter(other => other.id !== track.id && other.chokeGroup === track.chokeGroup);
+};
+
+// Tracks that unmuting a track mutes
+const getMuteGroupTracks = (tracks: Track[], track: Track): Track[] => {
+  if (track.muteGroup === undefined) return [];
+  return tracks.filter(other => other.id !== track.id && other.muteGroup === track.muteGroup);
+};
+
+// Default choke group for a preset category
+const getDefaultChokeGroup = (category: string): number | undefined => {
+  return category === 'hats' ? HAT_CHOKE_GROUP : undefined;
+};
+
+export {
+  MAX_VOICE_GROUPS,
+  CHOKE_FADE_TIME,
+  CHOKE_FADE_RESOLUTION,
+  HAT_CHOKE_GROUP,
+  isValidVoiceGroup,
+  getChokedTracks,
+  getMuteGroupTracks,
+  getDefaultChokeGroup
+};
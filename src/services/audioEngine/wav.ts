@@ -0,0 +1,105 @@
+import { StereoBuffer } from './mixer';
+
+// WAV files
+// Rendered audio is written as 16 or 24-bit PCM WAV. Encoding is plain rounding
+// without dither, so the same samples always produce the same bytes.
+// Rendering decodes the samples with Web Audio, so files are only saved in the
+// web app for now, where the browser downloads them.
+
+type WavBitDepth = 16 | 24;
+
+// Content types of downloaded files by extension
+const MIME_TYPES: { [extension: string]: string } = {
+  wav: 'audio/wav',
+  zip: 'application/zip'
+};
+
+// Time a download URL stays valid (revoking it right away can cancel the download)
+const DOWNLOAD_URL_LIFETIME = 60 * 1000;
+
+// Check a bit depth
+const isValidBitDepth = (bitDepth: number): bitDepth is WavBitDepth => {
+  return bitDepth === 16 || bitDepth === 24;
+};
+
+// Encode stereo samples (-1 to 1) as a WAV file
+const encodeWav = (audio: StereoBuffer, sampleRate: number, bitDepth: WavBitDepth = 16): Uint8Array => {
+  const frames = Math.min(audio.left.length, audio.right.length);
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = bytesPerSample * 2;
+  const dataSize = frames * blockAlign;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      bytes[offset + i] = text.charCodeAt(i);
+    }
+  };
+
+  // RIFF header and format chunk
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 2, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Interleaved little-endian samples
+  const scale = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of [audio.left, audio.right]) {
+      const value = Math.round(Math.max(-1, Math.min(1, channel[i])) * scale);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        bytes[offset] = value & 0xff;
+        bytes[offset + 1] = (value >> 8) & 0xff;
+        bytes[offset + 2] = (value >> 16) & 0xff;
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return bytes;
+};
+
+// File name without characters file systems reject
+const sanitizeFileName = (name: string): string => {
+  return name.trim().replace(/[^a-zA-Z0-9 _.-]/g, '_') || 'untitled';
+};
+
+// Offer binary data as a download in the browser
+// Returns the name of the downloaded file.
+const downloadFile = (bytes: Uint8Array, fileName: string): string => {
+  const name = sanitizeFileName(fileName);
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  const blob = new Blob([bytes], { type: MIME_TYPES[extension] ?? 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = name;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME);
+  return name;
+};
+
+export {
+  WavBitDepth,
+  isValidBitDepth,
+  encodeWav,
+  sanitizeFileName,
+  downloadFile
+};
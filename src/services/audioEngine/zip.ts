@@ -0,0 +1,113 @@
+// ZIP archives
+// Stems are bundled in a plain ZIP without compression (WAV data barely
+// compresses). Every entry carries the same fixed timestamp, so the same files
+// always produce the same archive bytes.
+
+interface ZipEntry {
+  name: string; // Path inside the archive, ASCII
+  data: Uint8Array;
+}
+
+// 1 January 2000, 00:00 in DOS date and time format
+const ZIP_DOS_TIME = 0;
+const ZIP_DOS_DATE = ((2000 - 1980) << 9) | (1 << 5) | 1;
+
+// Largest archive without ZIP64 records
+const MAX_ZIP_SIZE = 0xffffffff;
+
+// CRC-32 lookup table (polynomial 0xEDB88320)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 of binary data
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Bytes of text (UTF-8)
+const textToBytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+// Pack files into a ZIP archive
+const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const names = entries.map(entry => textToBytes(entry.name));
+  const crcs = entries.map(entry => crc32(entry.data));
+  const localSize = entries.reduce((size, entry, i) => size + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = names.reduce((size, name) => size + 46 + name.length, 0);
+  const totalSize = localSize + centralSize + 22;
+  if (totalSize > MAX_ZIP_SIZE || entries.length > 0xffff) {
+    throw new Error('Archive too large');
+  }
+
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  // Local file headers followed by the data
+  entries.forEach((entry, i) => {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // Version needed: 2.0
+    view.setUint16(offset + 6, 0x0800, true); // Names are UTF-8
+    view.setUint16(offset + 8, 0, true); // Stored
+    view.setUint16(offset + 10, ZIP_DOS_TIME, true);
+    view.setUint16(offset + 12, ZIP_DOS_DATE, true);
+    view.setUint32(offset + 14, crcs[i], true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, names[i].length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(names[i], offset + 30);
+    bytes.set(entry.data, offset + 30 + names[i].length);
+    offset += 30 + names[i].length + entry.data.length;
+  });
+
+  // Central directory
+  const centralOffset = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // Made by: 2.0
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, ZIP_DOS_TIME, true);
+    view.setUint16(offset + 14, ZIP_DOS_DATE, true);
+    view.setUint32(offset + 16, crcs[i], true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, names[i].length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(names[i], offset + 46);
+    offset += 46 + names[i].length;
+  });
+
+  // End of central directory
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return bytes;
+};
+
+export {
+  ZipEntry,
+  crc32,
+  textToBytes,
+  createZip
+};
@@ -1,4 +1,5 @@
 import { BeatPattern } from '../claude/claudeApi';
+import { TempoRange, DEFAULT_TEMPO_RANGE, clampBpm } from '../audioEngine/tempo';
 
 /**
  * Interface for parsed beat data ready for audio engine
@@ -30,11 +31,16 @@ class BeatPatternParser {
    * Parse and validate a beat pattern from Claude API
    * @param beatPattern The beat pattern from Claude API
    * @param name Optional name for the beat
+   * @param tempoRange Optional BPM range to clamp the tempo into
    * @returns Parsed beat data ready for audio engine
    */
-  parsePattern(beatPattern: BeatPattern, name: string = 'Untitled Beat'): ParsedBeat {
-    // Validate BPM (between 60-180)
-    const bpm = this.validateBpm(beatPattern.bpm);
+  parsePattern(
+    beatPattern: BeatPattern,
+    name: string = 'Untitled Beat',
+    tempoRange: TempoRange = DEFAULT_TEMPO_RANGE
+  ): ParsedBeat {
+    // Validate BPM (inside the project's tempo range)
+    const bpm = this.validateBpm(beatPattern.bpm, tempoRange);
     
     // Validate instrument patterns (16 steps, 0 or 1)
     const instruments = {
@@ -69,15 +75,16 @@ class BeatPatternParser {
   /**
    * Validate BPM value
    * @param bpm BPM value from beat pattern
-   * @returns Validated BPM value
+   * @param tempoRange Allowed BPM range
+   * @returns Validated BPM value (fractional tempos are kept)
    */
-  private validateBpm(bpm: number): number {
-    if (typeof bpm !== 'number') {
+  private validateBpm(bpm: number, tempoRange: TempoRange): number {
+    if (typeof bpm !== 'number' || !Number.isFinite(bpm)) {
       return 120; // Default BPM
     }
     
-    // Clamp BPM between 60-180
-    return Math.max(60, Math.min(180, Math.round(bpm)));
+    // Clamp BPM into the tempo range
+    return clampBpm(bpm, tempoRange);
   }
   
   /**
@@ -1,7 +1,28 @@
 import { Track, Step, MasterEffects, TrackEffects } from '../audioEngine/enhancedAudioEngine';
-import { Sequencer } from '../audioEngine/sequencer';
+import { Sequencer, MAX_TRACK_LENGTH } from '../audioEngine/sequencer';
 import { usePresetLoader, PresetCategory } from '../audioEngine/presetLoader';
 import AudioErrorHandler, { AudioErrorType, ErrorSeverity } from '../audioEngine/errorHandler';
+import { SeededRandom, createRandomSeed } from '../audioEngine/random';
+import { TempoRange, DEFAULT_TEMPO_RANGE, clampBpm } from '../audioEngine/tempo';
+import { generateRhythm } from '../audioEngine/rhythm';
+import { DEFAULT_ROOT_NOTE, MAX_GATE_LENGTH } from '../audioEngine/notes';
+import { getDefaultChokeGroup } from '../audioEngine/voiceGroups';
+import { createSidechain } from '../audioEngine/sidechain';
+import {
+  MusicalKey,
+  DEFAULT_KEY,
+  quantizeNote,
+  getScaleNote,
+  getTonicNote,
+  isValidKey
+} from '../audioEngine/scales';
+import {
+  TimeSignature,
+  DEFAULT_TIME_SIGNATURE,
+  getStepsPerBar,
+  getBeatSteps,
+  isValidTimeSignature
+} from '../audioEngine/timeSignature';
 
 // Initialize error handler
 const errorHandler = AudioErrorHandler.getInstance();
@@ -14,6 +35,29 @@ interface PatternRequest {
   intensity: number; // 1-10, how intense/aggressive the pattern should be
   focus: string[]; // Array of elements to focus on, e.g., ["kicks", "acid"]
   description?: string; // Optional free-text description
+  seed?: number; // Optional seed to regenerate an earlier pattern
+  timeSignature?: TimeSignature; // Meter of the pattern, 4/4 when missing
+  key?: MusicalKey; // Key of bass and synth lines, A minor when missing
+}
+
+// Kind of fill to generate
+// snareRoll: snares and claps roll into the next bar, kicks keep the downbeats
+// build: a snare roll plus rising hats, with the bass dropped out
+// drop: kick and bass drop out, an FX hit marks the start
+type FillStyle = 'snareRoll' | 'build' | 'drop';
+
+interface FillRequest {
+  style: FillStyle;
+  bars: number; // 1-4, length of the fill
+  intensity: number; // 1-10
+  seed?: number; // Optional seed to regenerate an earlier fill
+  timeSignature?: TimeSignature; // Meter of the pattern, 4/4 when missing
+}
+
+interface FillResponse {
+  fill: { [trackId: string]: Step[] }; // Fill variant per track, tracks not listed keep playing
+  description: string;
+  seed: number;
 }
 
 interface PatternResponse {
@@ -22,12 +66,48 @@ interface PatternResponse {
   bpm: number;
   description: string;
   suggestedVariations: string[];
+  seed: number; // Seed the pattern was generated from
+  timeSignature: TimeSignature;
+  key: MusicalKey;
+}
+
+// One beat of a generated pattern
+interface GridBeat {
+  step: number; // Pattern step the beat starts on
+  length: number; // Steps until the next beat
+  index: number; // Beat within its bar
+}
+
+// Step layout of a generated pattern, derived from its time signature
+// Steps are 16th notes; patterns hold as many whole bars as fit (up to 4).
+interface PatternGrid {
+  length: number; // Steps in the pattern
+  bar: number; // Steps per bar
+  bars: number;
+  beats: GridBeat[];
 }
 
+const MAX_PATTERN_BARS = 4;
+
+// Semitones above the tonic used by acid lines (root-heavy, with octave jumps),
+// pulled onto the nearest note of the key
+const ACID_INTERVALS = [0, 0, 0, 12, 3, 7, 10, -2];
+
+// Scale degrees of the tonic triad across two octaves for arpeggios
+const ARPEGGIO_DEGREES = [0, 2, 4, 7, 9, 11];
+
+// Scale degrees a lead phrase climbs through over one bar
+const LEAD_RANGE = 7;
+
 class ClaudePatternGenerator {
   private presetLoader = usePresetLoader();
   private presetCategories: PresetCategory[] = [];
   private sequencer: Sequencer | null = null;
+  private random: SeededRandom;
+  
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
   
   // Initialize pattern generator
   async initialize(): Promise<void> {
@@ -62,8 +142,13 @@ class ClaudePatternGenerator {
       // Validate request
       this.validateRequest(request);
       
+      // The same seed always generates the same pattern
+      const seed = request.seed ?? createRandomSeed();
+      this.random.reset(seed);
+      
       // Generate tracks based on request
-      const tracks = await this.generateTracks(request);
+      const timeSignature = request.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+      const tracks = await this.generateTracks(request, this.createPatternGrid(timeSignature));
       
       // Generate master effects based on request
       const masterEffects = this.generateMasterEffects(request);
@@ -80,7 +165,10 @@ class ClaudePatternGenerator {
         masterEffects,
         bpm: request.bpm,
         description,
-        suggestedVariations
+        suggestedVariations,
+        seed,
+        timeSignature,
+        key: request.key ?? DEFAULT_KEY
       };
       
       return response;
@@ -90,11 +178,110 @@ class ClaudePatternGenerator {
     }
   }
   
+  // Generate a fill variant for the given tracks (e.g. a one-bar snare roll)
+  generateFill(tracks: Track[], request: FillRequest): FillResponse {
+    if (!Number.isInteger(request.bars) || request.bars < 1 || request.bars > MAX_PATTERN_BARS) {
+      throw new Error(`Fill length must be between 1 and ${MAX_PATTERN_BARS} bars`);
+    }
+    if (request.intensity < 1 || request.intensity > 10) {
+      throw new Error('Intensity must be between 1 and 10');
+    }
+    if (request.timeSignature && !isValidTimeSignature(request.timeSignature)) {
+      throw new Error('Unsupported time signature');
+    }
+    
+    const seed = request.seed ?? createRandomSeed();
+    this.random.reset(seed);
+    
+    const bar = getStepsPerBar(request.timeSignature ?? DEFAULT_TIME_SIGNATURE);
+    const length = Math.min(MAX_TRACK_LENGTH, request.bars * bar);
+    const fill: { [trackId: string]: Step[] } = {};
+    
+    tracks.forEach(track => {
+      const category = this.presetLoader.findPresetById(track.presetId)?.category;
+      
+      if (category === 'snares' || category === 'claps') {
+        if (request.style !== 'drop') {
+          fill[track.id] = this.createRollSteps(length, request.intensity);
+        }
+      } else if (category === 'kicks') {
+        // Kicks keep the downbeats during rolls and drop out completely otherwise
+        const steps = this.createDefaultSteps(length);
+        if (request.style === 'snareRoll') {
+          for (let i = 0; i < length; i += bar) {
+            steps[i].active = true;
+          }
+        }
+        fill[track.id] = steps;
+      } else if (category === 'basslines') {
+        if (request.style !== 'snareRoll') {
+          fill[track.id] = this.createDefaultSteps(length);
+        }
+      } else if (category === 'hats' && request.style === 'build') {
+        // Straight 16ths rising in velocity
+        const steps = this.createDefaultSteps(length);
+        steps.forEach((step, i) => {
+          step.active = true;
+          step.velocity = 0.4 + (i / length) * 0.6;
+        });
+        fill[track.id] = steps;
+      } else if (category === 'fx' && request.style === 'drop') {
+        const steps = this.createDefaultSteps(length);
+        steps[0].active = true;
+        fill[track.id] = steps;
+      }
+    });
+    
+    const names: { [style in FillStyle]: string } = { snareRoll: 'snare roll', build: 'build', drop: 'drop' };
+    return {
+      fill,
+      description: `${request.bars}-bar ${names[request.style]} fill on ${Object.keys(fill).length} tracks`,
+      seed
+    };
+  }
+  
+  // Snare roll getting denser and louder towards the end of a fill
+  private createRollSteps(length: number, intensity: number): Step[] {
+    const steps = this.createDefaultSteps(length);
+    
+    for (let i = 0; i < length; i++) {
+      const progress = i / length;
+      
+      // Quarter notes, then 8ths, then 16ths
+      const every = progress < 0.5 ? 4 : progress < 0.75 ? 2 : 1;
+      if (i % every !== 0) {
+        // Occasional ghost notes in the sparse part
+        if (progress < 0.5 && this.random.next() > 0.75) {
+          steps[i].active = true;
+          steps[i].velocity = 0.35;
+        }
+        continue;
+      }
+      
+      steps[i].active = true;
+      steps[i].velocity = 0.5 + progress * 0.5;
+      
+      // Ratchets on the last beat for intense rolls
+      if (progress >= 1 - 4 / length && intensity >= 6) {
+        steps[i].retrigCount = intensity >= 9 ? 4 : 2;
+        steps[i].retrigVelocityCurve = 0.6;
+      }
+    }
+    
+    return steps;
+  }
+  
+  // Allowed BPM range of generated patterns
+  private getTempoRange(): TempoRange {
+    return this.sequencer?.getTempoRange() ?? DEFAULT_TEMPO_RANGE;
+  }
+  
   // Validate pattern request
   private validateRequest(request: PatternRequest): void {
     // Validate BPM
-    if (request.bpm < 60 || request.bpm > 200) {
-      throw new Error('BPM must be between 60 and 200');
+    const tempoRange = this.getTempoRange();
+    if (!Number.isFinite(request.bpm) || request.bpm < tempoRange.min || request.bpm > tempoRange.max) {
+      throw new Error(`BPM must be between ${tempoRange.min} and ${tempoRange.max}`);
     }
     
     // Validate complexity
@@ -106,10 +293,42 @@ class ClaudePatternGenerator {
     if (request.intensity < 1 || request.intensity > 10) {
       throw new Error('Intensity must be between 1 and 10');
     }
+    
+    // Validate time signature
+    if (request.timeSignature && !isValidTimeSignature(request.timeSignature)) {
+      throw new Error('Unsupported time signature');
+    }
+    
+    // Validate key
+    if (request.key && !isValidKey(request.key)) {
+      throw new Error('Unsupported key');
+    }
+  }
+  
+  // Tonic note of the requested key, within a tritone of the default root
+  private getTonicNote(request: PatternRequest): number {
+    return getTonicNote(request.key ?? DEFAULT_KEY, DEFAULT_ROOT_NOTE - 6);
+  }
+  
+  // Lay out bars and beats for a time signature
+  private createPatternGrid(timeSignature: TimeSignature): PatternGrid {
+    const bar = getStepsPerBar(timeSignature);
+    const bars = Math.max(1, Math.min(MAX_PATTERN_BARS, Math.floor(MAX_TRACK_LENGTH / bar)));
+    const beatSteps = getBeatSteps(timeSignature);
+    const beats: GridBeat[] = [];
+    
+    for (let barIndex = 0; barIndex < bars; barIndex++) {
+      beatSteps.forEach((offset, index) => {
+        const nextOffset = beatSteps[index + 1] ?? bar;
+        beats.push({ step: barIndex * bar + offset, length: nextOffset - offset, index });
+      });
+    }
+    
+    return { length: bars * bar, bar, bars, beats };
   }
   
   // Generate tracks based on request
-  private async generateTracks(request: PatternRequest): Promise<Track[]> {
+  private async generateTracks(request: PatternRequest, grid: PatternGrid): Promise<Track[]> {
     try {
       const tracks: Track[] = [];
       
@@ -117,33 +336,33 @@ class ClaudePatternGenerator {
       const numTracks = Math.min(8, Math.max(3, Math.floor(request.complexity / 2) + 2));
       
       // Always include kick track for Hard Techno
-      const kickTrack = await this.createKickTrack(request);
+      const kickTrack = await this.createKickTrack(request, grid);
       tracks.push(kickTrack);
       
       // Add bass track for foundation
-      if (request.focus.includes('bass') || Math.random() > 0.3) {
-        const bassTrack = await this.createBassTrack(request);
+      if (request.focus.includes('bass') || this.random.next() > 0.3) {
+        const bassTrack = await this.createBassTrack(request, grid, kickTrack.id);
         tracks.push(bassTrack);
       }
       
       // Add percussion tracks
       const numPercTracks = Math.floor(numTracks / 3) + (request.focus.includes('percussion') ? 1 : 0);
       for (let i = 0; i < numPercTracks; i++) {
-        const percTrack = await this.createPercussionTrack(request, i);
+        const percTrack = await this.createPercussionTrack(request, i, grid);
         tracks.push(percTrack);
       }
       
       // Add synth tracks
       const numSynthTracks = Math.floor(numTracks / 3) + (request.focus.includes('synths') ? 1 : 0);
       for (let i = 0; i < numSynthTracks; i++) {
-        const synthTrack = await this.createSynthTrack(request, i);
+        const synthTrack = await this.createSynthTrack(request, i, grid);
         tracks.push(synthTrack);
       }
       
       // Add FX tracks
       const numFxTracks = Math.max(0, numTracks - tracks.length);
       for (let i = 0; i < numFxTracks; i++) {
-        const fxTrack = await this.createFxTrack(request, i);
+        const fxTrack = await this.createFxTrack(request, i, grid);
         tracks.push(fxTrack);
       }
       
@@ -156,7 +375,7 @@ class ClaudePatternGenerator {
   }
   
   // Create kick track
-  private async createKickTrack(request: PatternRequest): Promise<Track> {
+  private async createKickTrack(request: PatternRequest, grid: PatternGrid): Promise<Track> {
     try {
       // Find kick presets
       const kickCategory = this.presetCategories.find(cat => cat.id === 'kicks');
@@ -172,38 +391,46 @@ class ClaudePatternGenerator {
       const kickPreset = kickCategory.presets[kickPresetIndex];
       
       // Create kick pattern based on style and complexity
-      const steps = this.createDefaultSteps(64);
+      const steps = this.createDefaultSteps(grid.length);
       
-      // Basic kick pattern (every quarter note)
-      for (let i = 0; i < 64; i += 16) {
-        steps[i].active = true;
-        steps[i].velocity = 1.0;
-      }
+      // Basic kick pattern (every beat)
+      grid.beats.forEach(beat => {
+        steps[beat.step].active = true;
+        steps[beat.step].velocity = 1.0;
+      });
       
       // Add variations based on complexity
       if (request.complexity >= 3) {
-        // Add offbeat kicks
-        for (let i = 32; i < 64; i += 32) {
-          steps[i].active = true;
-          steps[i].velocity = 0.8;
-        }
+        // Add offbeat kicks at the end of every second bar
+        generateRhythm({ type: 'everyNth', every: 2 * grid.bar, offset: 2 * grid.bar - 2 }, grid.length)
+          .forEach((hit, i) => {
+            if (!hit) return;
+            steps[i].active = true;
+            steps[i].velocity = 0.8;
+          });
       }
       
       if (request.complexity >= 5) {
-        // Add ghost kicks with lower velocity
-        for (let i = 24; i < 64; i += 32) {
-          steps[i].active = true;
-          steps[i].velocity = 0.6;
-        }
+        // Add ghost kicks with lower velocity before the middle of each bar
+        generateRhythm({ type: 'everyNth', every: grid.bar, offset: Math.floor(grid.bar / 2) - 2 }, grid.length)
+          .forEach((hit, i) => {
+            if (hit && i > 0 && !steps[i].active) {
+              steps[i].active = true;
+              steps[i].velocity = 0.6;
+            }
+          });
       }
       
       if (request.complexity >= 7) {
-        // Add some probability-based kicks
-        for (let i = 12; i < 64; i += 16) {
-          steps[i].active = true;
-          steps[i].velocity = 0.7;
-          steps[i].probability = 0.7;
-        }
+        // Add some probability-based kicks on the last 16th of each beat
+        grid.beats.forEach(beat => {
+          const i = beat.step + beat.length - 1;
+          if (beat.length > 1 && !steps[i].active) {
+            steps[i].active = true;
+            steps[i].velocity = 0.7;
+            steps[i].probability = 0.7;
+          }
+        });
       }
       
       // Create track effects based on intensity
@@ -228,7 +455,7 @@ class ClaudePatternGenerator {
   }
   
   // Create bass track
-  private async createBassTrack(request: PatternRequest): Promise<Track> {
+  private async createBassTrack(request: PatternRequest, grid: PatternGrid, kickTrackId: string): Promise<Track> {
     try {
       // Find bass presets
       const bassCategory = this.presetCategories.find(cat => cat.id === 'basslines');
@@ -260,55 +487,60 @@ class ClaudePatternGenerator {
       const bassPreset = bassCategory.presets[bassPresetIndex];
       
       // Create bass pattern based on style and complexity
-      const steps = this.createDefaultSteps(64);
+      const steps = this.createDefaultSteps(grid.length);
       
       // Basic bass pattern
       if (request.style.toLowerCase().includes('acid')) {
-        // Acid-style pattern (16th notes with accents)
-        for (let i = 0; i < 64; i += 4) {
+        // Acid-style pattern (16th notes with accents on the beats and random slides)
+        const beatSteps = grid.beats.map(beat => beat.step);
+        const key = request.key ?? DEFAULT_KEY;
+        const tonic = this.getTonicNote(request);
+        for (let i = 0; i < grid.length; i++) {
           steps[i].active = true;
-          steps[i].velocity = i % 16 === 0 ? 1.0 : 0.7;
+          steps[i].velocity = 0.7;
+          steps[i].note = quantizeNote(tonic + this.random.pick(ACID_INTERVALS), key);
+          steps[i].gateLength = 0.5;
+          steps[i].accent = beatSteps.includes(i);
+          steps[i].slide = this.random.next() > 0.8;
         }
         
         // Add parameter locks for filter cutoff
-        for (let i = 0; i < 64; i += 8) {
+        for (let i = 0; i < grid.length; i += 2) {
           if (steps[i].active) {
             steps[i].parameterLocks.push({
               parameterId: 'filter',
-              value: 0.3 + (i / 64) * 0.7 // Gradually increase filter
+              value: 0.3 + (i / grid.length) * 0.7 // Gradually increase filter
             });
           }
         }
       } else {
         // Standard bass pattern (on beats 1 and 3)
-        for (let i = 0; i < 64; i += 32) {
-          steps[i].active = true;
-          steps[i].velocity = 1.0;
+        grid.beats.forEach(beat => {
+          if (beat.index % 2 !== 0) return;
           
-          // Add note on beat 3 with lower velocity
-          if (i + 16 < 64) {
-            steps[i + 16].active = true;
-            steps[i + 16].velocity = 0.8;
-          }
-        }
+          // Notes after the downbeat get a lower velocity
+          steps[beat.step].active = true;
+          steps[beat.step].velocity = beat.index === 0 ? 1.0 : 0.8;
+        });
       }
       
       // Add variations based on complexity
       if (request.complexity >= 4) {
         // Add some offbeat notes
-        for (let i = 8; i < 64; i += 16) {
-          if (Math.random() > 0.5) {
+        grid.beats.forEach(beat => {
+          if (beat.length > 1 && this.random.next() > 0.5) {
+            const i = beat.step + Math.floor(beat.length / 2);
             steps[i].active = true;
             steps[i].velocity = 0.7;
           }
-        }
+        });
       }
       
       if (request.complexity >= 6) {
         // Add some 16th note runs
-        const runStart = Math.floor(Math.random() * 4) * 16;
+        const runStart = this.random.pick(grid.beats).step;
         for (let i = 0; i < 8; i++) {
-          if (runStart + i < 64) {
+          if (runStart + i < grid.length) {
             steps[runStart + i].active = true;
             steps[runStart + i].velocity = 0.6 + (i / 8) * 0.4;
           }
@@ -316,7 +548,7 @@ class ClaudePatternGenerator {
       }
       
       // Create track effects
-      const trackEffects = this.createBassEffects(request.intensity, request.style);
+      const trackEffects = this.createBassEffects(request.intensity, request.style, kickTrackId);
       
       // Create and return track
       return {
@@ -337,7 +569,7 @@ class ClaudePatternGenerator {
   }
   
   // Create percussion track
-  private async createPercussionTrack(request: PatternRequest, index: number): Promise<Track> {
+  private async createPercussionTrack(request: PatternRequest, index: number, grid: PatternGrid): Promise<Track> {
     try {
       // Determine percussion type based on index
       let percType = 'hats';
@@ -369,43 +601,50 @@ class ClaudePatternGenerator {
       // Select percussion preset
       const percPresetIndex = Math.min(
         percCategory.presets.length - 1,
-        Math.floor(Math.random() * percCategory.presets.length)
+        this.random.nextInt(percCategory.presets.length)
       );
       const percPreset = percCategory.presets[percPresetIndex];
       
       // Create percussion pattern based on type and complexity
-      const steps = this.createDefaultSteps(64);
+      const steps = this.createDefaultSteps(grid.length);
       
       if (percType === 'hats') {
         // Hi-hat pattern (8th or 16th notes)
-        const step = request.complexity >= 5 ? 4 : 8;
-        for (let i = 0; i < 64; i += step) {
+        const beatSteps = grid.beats.map(beat => beat.step);
+        const every = request.complexity >= 5 ? 1 : 2;
+        generateRhythm({ type: 'everyNth', every, offset: 0 }, grid.length).forEach((hit, i) => {
+          if (!hit) return;
           steps[i].active = true;
-          steps[i].velocity = i % 16 === 0 ? 1.0 : 0.7;
-        }
+          steps[i].velocity = beatSteps.includes(i) ? 1.0 : 0.7;
+        });
         
         // Add open hats on offbeats for higher complexity
         if (request.complexity >= 7) {
-          for (let i = 8; i < 64; i += 16) {
+          grid.beats.forEach(beat => {
+            if (beat.length < 2) return;
+            
+            const i = beat.step + Math.floor(beat.length / 2);
             steps[i].active = true;
             steps[i].velocity = 0.9;
             steps[i].parameterLocks.push({
               parameterId: 'pitch',
               value: 0.7 // Higher pitch for open hat
             });
-          }
+          });
         }
       } else if (percType === 'snares' || percType === 'claps') {
-        // Snare/clap on beats 2 and 4
-        for (let i = 16; i < 64; i += 32) {
-          steps[i].active = true;
-          steps[i].velocity = 1.0;
-        }
+        // Snare/clap on the backbeats (beats 2 and 4 in 4/4)
+        grid.beats.forEach(beat => {
+          if (beat.index % 2 === 1) {
+            steps[beat.step].active = true;
+            steps[beat.step].velocity = 1.0;
+          }
+        });
         
         // Add ghost notes for higher complexity
         if (request.complexity >= 6) {
-          for (let i = 4; i < 64; i += 8) {
-            if (i % 16 !== 0 && i % 32 !== 16 && Math.random() > 0.7) {
+          for (let i = 1; i < grid.length; i += 2) {
+            if (!steps[i].active && this.random.next() > 0.7) {
               steps[i].active = true;
               steps[i].velocity = 0.5;
               steps[i].probability = 0.7;
@@ -413,20 +652,30 @@ class ClaudePatternGenerator {
           }
         }
       } else {
-        // Percussion fills and accents
-        for (let i = 12; i < 64; i += 16) {
+        // Percussion fills and accents on the last 16th of each beat
+        grid.beats.forEach(beat => {
+          const i = beat.step + beat.length - 1;
           steps[i].active = true;
           steps[i].velocity = 0.8;
-        }
+        });
         
-        // Add random accents
-        for (let i = 0; i < 64; i += 4) {
-          if (Math.random() > 0.8) {
-            steps[i].active = true;
-            steps[i].velocity = 0.7;
-            steps[i].probability = 0.8;
-          }
-        }
+        // Add a Euclidean layer with a random density and rotation per request
+        const hits = 2 + this.random.nextInt(Math.max(1, Math.floor(grid.bar / 3)));
+        const rotation = this.random.nextInt(grid.bar);
+        generateRhythm(
+          { type: 'euclidean', hits, steps: grid.bar, rotation, variant: 'bjorklund' },
+          grid.length
+        ).forEach((hit, i) => {
+          if (!hit || steps[i].active) return;
+          steps[i].active = true;
+          steps[i].velocity = 0.7;
+          steps[i].probability = 0.8;
+        });
+      }
+      
+      // Add ratchets for high-intensity requests
+      if (request.intensity >= 7) {
+        this.addRatchets(steps, percType, request.intensity, grid);
       }
       
       // Create track effects
@@ -450,7 +699,8 @@ class ClaudePatternGenerator {
         solo: false,
         volume: percType === 'snares' || percType === 'claps' ? 0.8 : 0.7,
         pan: panValue,
-        effects: trackEffects
+        effects: trackEffects,
+        chokeGroup: getDefaultChokeGroup(percType)
       };
     } catch (error) {
       console.error(`Error creating ${index} percussion track:`, error);
@@ -459,7 +709,7 @@ class ClaudePatternGenerator {
   }
   
   // Create synth track
-  private async createSynthTrack(request: PatternRequest, index: number): Promise<Track> {
+  private async createSynthTrack(request: PatternRequest, index: number, grid: PatternGrid): Promise<Track> {
     try {
       // Determine synth type based on style and index
       let synthType = 'synths';
@@ -496,77 +746,85 @@ class ClaudePatternGenerator {
       const synthPreset = synthCategory.presets[synthPresetIndex];
       
       // Create synth pattern based on type and complexity
-      const steps = this.createDefaultSteps(64);
+      const steps = this.createDefaultSteps(grid.length);
+      const key = request.key ?? DEFAULT_KEY;
+      const tonic = this.getTonicNote(request);
       
       if (synthType === 'acid') {
         // Acid pattern (16th notes with accents and slides)
-        for (let i = 0; i < 64; i += 4) {
-          if (Math.random() > 0.4) {
+        const beatSteps = grid.beats.map(beat => beat.step);
+        for (let i = 0; i < grid.length; i++) {
+          if (this.random.next() > 0.4) {
             steps[i].active = true;
-            steps[i].velocity = i % 16 === 0 ? 1.0 : 0.8;
+            steps[i].velocity = 0.8;
+            steps[i].note = quantizeNote(tonic + this.random.pick(ACID_INTERVALS), key);
+            steps[i].gateLength = 0.5;
+            steps[i].accent = beatSteps.includes(i);
+            steps[i].slide = this.random.next() > 0.75;
             
             // Add parameter locks for filter cutoff
-            if (i % 8 === 0) {
+            if (i % 2 === 0) {
               steps[i].parameterLocks.push({
                 parameterId: 'filter',
-                value: 0.3 + (i / 64) * 0.7 // Gradually increase filter
+                value: 0.3 + (i / grid.length) * 0.7 // Gradually increase filter
               });
             }
           }
         }
       } else if (synthType === 'leads') {
         // Lead pattern (melodic phrases)
-        // Create a simple melodic phrase
-        const phraseStart = Math.floor(Math.random() * 4) * 16;
-        const phraseLength = Math.min(16, 64 - phraseStart);
+        // Create a simple one-bar melodic phrase
+        const phraseStart = this.random.nextInt(grid.bars) * grid.bar;
+        const phraseLength = grid.bar;
         
-        for (let i = 0; i < phraseLength; i += 4) {
-          if (Math.random() > 0.3) {
+        for (let i = 0; i < phraseLength; i++) {
+          if (this.random.next() > 0.3) {
             steps[phraseStart + i].active = true;
             steps[phraseStart + i].velocity = 0.8;
             
-            // Add parameter locks for pitch variation
-            steps[phraseStart + i].parameterLocks.push({
-              parameterId: 'pitch',
-              value: 0.3 + (i / phraseLength) * 0.5 // Melodic variation
-            });
+            // Melodic variation rising through the scale over the phrase
+            steps[phraseStart + i].note = getScaleNote(key, Math.floor((i / phraseLength) * LEAD_RANGE), tonic);
+            steps[phraseStart + i].gateLength = 0.8;
           }
         }
         
         // Repeat phrase if complexity is high enough
-        if (request.complexity >= 8 && phraseStart + phraseLength * 2 <= 64) {
+        if (request.complexity >= 8 && phraseStart + phraseLength * 2 <= grid.length) {
           for (let i = 0; i < phraseLength; i++) {
             steps[phraseStart + phraseLength + i] = { ...steps[phraseStart + i] };
           }
         }
       } else if (synthType === 'pads') {
-        // Pad pattern (long sustained notes)
-        for (let i = 0; i < 64; i += 32) {
+        // Pad pattern (long sustained notes, one per bar)
+        for (let i = 0; i < grid.length; i += grid.bar) {
           steps[i].active = true;
           steps[i].velocity = 0.7;
+          steps[i].gateLength = Math.min(MAX_GATE_LENGTH, grid.bar);
         }
       } else {
         // General synth pattern (arpeggios or stabs)
         if (request.complexity >= 5) {
-          // Arpeggio pattern
-          for (let i = 0; i < 64; i += 8) {
-            if (Math.random() > 0.3) {
+          // Arpeggio pattern (8th notes rising through each bar)
+          for (let i = 0; i < grid.length; i += 2) {
+            if (this.random.next() > 0.3) {
               steps[i].active = true;
               steps[i].velocity = 0.8;
               
-              // Add parameter locks for pitch variation
-              steps[i].parameterLocks.push({
-                parameterId: 'pitch',
-                value: 0.3 + (i % 32) / 32 * 0.7 // Arpeggio pattern
-              });
+              // Arpeggio through the tonic chord of the key, rising over each bar
+              const position = Math.floor(((i % grid.bar) / grid.bar) * ARPEGGIO_DEGREES.length);
+              steps[i].note = getScaleNote(key, ARPEGGIO_DEGREES[position], tonic);
+              steps[i].gateLength = 1;
             }
           }
         } else {
-          // Stab pattern
-          for (let i = 8; i < 64; i += 16) {
+          // Stab pattern on the offbeats
+          grid.beats.forEach(beat => {
+            if (beat.length < 2) return;
+            
+            const i = beat.step + Math.floor(beat.length / 2);
             steps[i].active = true;
             steps[i].velocity = 0.9;
-          }
+          });
         }
       }
       
@@ -592,7 +850,7 @@ class ClaudePatternGenerator {
   }
   
   // Create FX track
-  private async createFxTrack(request: PatternRequest, index: number): Promise<Track> {
+  private async createFxTrack(request: PatternRequest, index: number, grid: PatternGrid): Promise<Track> {
     try {
       // Find FX presets
       const fxCategory = this.presetCategories.find(cat => cat.id === 'fx');
@@ -603,32 +861,32 @@ class ClaudePatternGenerator {
       // Select FX preset
       const fxPresetIndex = Math.min(
         fxCategory.presets.length - 1,
-        Math.floor(Math.random() * fxCategory.presets.length)
+        this.random.nextInt(fxCategory.presets.length)
       );
       const fxPreset = fxCategory.presets[fxPresetIndex];
       
       // Create FX pattern based on complexity
-      const steps = this.createDefaultSteps(64);
+      const steps = this.createDefaultSteps(grid.length);
       
       // Sparse FX pattern
       if (request.complexity <= 5) {
-        // Simple FX accents
-        for (let i = 28; i < 64; i += 32) {
-          steps[i].active = true;
-          steps[i].velocity = 0.9;
-        }
+        // Simple FX accents at the end of every second bar
+        generateRhythm({ type: 'everyNth', every: 2 * grid.bar, offset: 2 * grid.bar - 1 }, grid.length)
+          .forEach((hit, i) => {
+            if (!hit) return;
+            steps[i].active = true;
+            steps[i].velocity = 0.9;
+          });
       } else {
-        // More complex FX pattern
-        for (let i = 0; i < 64; i += 16) {
-          if (Math.random() > 0.6) {
-            const offset = Math.floor(Math.random() * 8);
-            if (i + offset < 64) {
-              steps[i + offset].active = true;
-              steps[i + offset].velocity = 0.8;
-              steps[i + offset].probability = 0.8;
-            }
+        // More complex FX pattern (a random 16th inside some beats)
+        grid.beats.forEach(beat => {
+          if (this.random.next() > 0.6) {
+            const i = beat.step + this.random.nextInt(beat.length);
+            steps[i].active = true;
+            steps[i].velocity = 0.8;
+            steps[i].probability = 0.8;
           }
-        }
+        });
       }
       
       // Create track effects
@@ -652,6 +910,38 @@ class ClaudePatternGenerator {
     }
   }
   
+  // Add ratchet rolls to a percussion pattern
+  private addRatchets(steps: Step[], percType: string, intensity: number, grid: PatternGrid): void {
+    if (percType === 'snares' || percType === 'claps') {
+      // Snare build into the loop point, faster rolls for higher intensity
+      const rollStart = steps.length - 4;
+      for (let i = rollStart; i < steps.length; i++) {
+        steps[i].active = true;
+        steps[i].velocity = 0.9;
+        steps[i].retrigCount = intensity >= 9 ? 4 : 2;
+        steps[i].retrigVelocityCurve = 0.6;
+      }
+    } else if (percType === 'hats') {
+      // Rolled hats just before every second bar
+      const rolls = generateRhythm({ type: 'everyNth', every: 2 * grid.bar, offset: 2 * grid.bar - 2 }, steps.length);
+      for (let i = 0; i < steps.length; i++) {
+        if (!rolls[i]) continue;
+        steps[i].active = true;
+        steps[i].velocity = 0.8;
+        steps[i].retrigCount = intensity >= 9 ? 4 : 3;
+        steps[i].retrigVelocityCurve = -0.4;
+      }
+    } else if (percType === 'percussion' && intensity >= 9) {
+      // Occasional triplet ratchets before every bar
+      for (let i = grid.bar - 2; i < steps.length; i += grid.bar) {
+        if (steps[i].active) {
+          steps[i].retrigCount = 3;
+          steps[i].retrigRate = 3;
+        }
+      }
+    }
+  }
+  
   // Create default steps
   private createDefaultSteps(count: number): Step[] {
     const steps: Step[] = [];
@@ -695,10 +985,16 @@ class ClaudePatternGenerator {
     };
   }
   
-  // Create bass effects
-  private createBassEffects(intensity: number, style: string): TrackEffects {
+  // Create bass effects, ducked by the kick when one is given
+  private createBassEffects(intensity: number, style: string, kickTrackId?: string): TrackEffects {
     const isAcid = style.toLowerCase().includes('acid');
     
+    // Intense non-acid bass is a rumble: duck it deeper and let it swell back slower
+    const isRumble = !isAcid && intensity >= 7;
+    const sidechain = kickTrackId === undefined ? undefined : createSidechain(kickTrackId, isRumble
+      ? { amount: 0.9, attack: 2, hold: 30, release: 220, curve: 0.6 }
+      : { amount: 0.6, attack: 2, hold: 10, release: 120, curve: 0.4 });
+    
     return {
       filter: {
         type: 'lowpass',
@@ -719,7 +1015,8 @@ class ClaudePatternGenerator {
       distortion: {
         amount: Math.min(1.0, intensity / 10 * 0.4),
         tone: 0.6
-      }
+      },
+      sidechain
     };
   }
   
@@ -881,8 +1178,9 @@ class ClaudePatternGenerator {
     const variations: string[] = [];
     
     // Suggest BPM variations
-    variations.push(`Increase tempo to ${Math.min(200, request.bpm + 5)} BPM for more energy`);
-    variations.push(`Decrease tempo to ${Math.max(60, request.bpm - 5)} BPM for a heavier feel`);
+    const tempoRange = this.getTempoRange();
+    variations.push(`Increase tempo to ${clampBpm(request.bpm + 5, tempoRange)} BPM for more energy`);
+    variations.push(`Decrease tempo to ${clampBpm(request.bpm - 5, tempoRange)} BPM for a heavier feel`);
     
     // Suggest complexity variations
     if (request.complexity < 8) {
@@ -912,7 +1210,7 @@ class ClaudePatternGenerator {
   private shuffleArray<T>(array: T[]): T[] {
     const result = [...array];
     for (let i = result.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = this.random.nextInt(i + 1);
       [result[i], result[j]] = [result[j], result[i]];
     }
     return result;
@@ -928,11 +1226,31 @@ class ClaudePatternGenerator {
     // Set BPM
     this.sequencer.setBpm(pattern.bpm);
     
+    // Set meter and pattern length
+    this.sequencer.setTimeSignature(pattern.timeSignature);
+    this.sequencer.setKey(pattern.key);
+    this.sequencer.setTotalSteps(pattern.tracks[0]?.steps.length ?? MAX_TRACK_LENGTH);
+    
     // Set tracks
     this.sequencer.setTracks(pattern.tracks);
     
     // Set master effects
     this.sequencer.setMasterEffects(pattern.masterEffects);
+    
+    // Play probability steps with the pattern's own seed
+    this.sequencer.setRandomSeed(pattern.seed);
+  }
+  
+  // Apply a fill variant to the sequencer's active pattern
+  applyFillToSequencer(response: FillResponse): void {
+    if (!this.sequencer) {
+      console.error('Sequencer not initialized');
+      return;
+    }
+    
+    Object.keys(response.fill).forEach(trackId => {
+      this.sequencer?.setFillSteps(trackId, response.fill[trackId]);
+    });
   }
   
   // Get sequencer instance
@@ -948,4 +1266,4 @@ class ClaudePatternGenerator {
   }
 }
 
-export { ClaudePatternGenerator, PatternRequest, PatternResponse };
+export { ClaudePatternGenerator, PatternRequest, PatternResponse, FillStyle, FillRequest, FillResponse };